@@ -0,0 +1,12 @@
+module.exports = {
+  testMatch: ['<rootDir>/test/unit/**/*.test.ts'],
+  preset: 'ts-jest',
+  globalSetup: '<rootDir>/test/unit/global-setup.js',
+  moduleNameMapper: {
+    '^@modules/(.*)$': '<rootDir>/src/modules/$1',
+    '^@infrastructure/(.*)$': '<rootDir>/src/infrastructure/$1',
+    '^@ts-types/(.*)$': '<rootDir>/src/types/$1',
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1',
+    '^@config/(.*)$': '<rootDir>/src/config/$1',
+  },
+};
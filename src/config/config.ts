@@ -1,5 +1,6 @@
 import { AppConfig } from '@ts-types/mixed';
 import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
 import { AppConfigSchema } from './zod-schemas/config.schema';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -13,6 +14,7 @@ export class Config {
   ) {
     this._parsed = this.load(configPath);
     this._parsed.backupPresets = this._parsed.backupPresets || [];
+    this._parsed.restorePresets = this._parsed.restorePresets || [];
   }
 
   get parsed(): AppConfig {
@@ -24,7 +26,7 @@ export class Config {
       const absolutePath = path.resolve(configPath);
       this.logger.info(`Loading configuration from: ${absolutePath}`);
       if (!fs.existsSync(absolutePath)) {
-        throw new Error(`Configuration file not found at ${absolutePath}`);
+        throw new ConfigError(`Configuration file not found at ${absolutePath}`);
       }
       const configJson = fs.readFileSync(absolutePath, 'utf8');
       const configData = JSON.parse(configJson);
@@ -35,14 +37,15 @@ export class Config {
         validationResult.error.errors.forEach((err) => {
           this.logger.error(`  Path: ${err.path.join('.') || '.'}, Message: ${err.message}`);
         });
-        throw new Error('Invalid configuration file structure.');
+        throw new ConfigError('Invalid configuration file structure.');
       }
 
       this.logger.info('Configuration loaded and validated successfully.');
       return validationResult.data;
     } catch (error: any) {
       this.logger.error(`Error loading or parsing configuration file "${configPath}": ${error.message}`);
-      throw error;
+      // JSON syntax errors are configuration errors too
+      throw error instanceof ConfigError ? error : new ConfigError(error.message);
     }
   }
 }
@@ -24,9 +24,9 @@ export class UpdateableConfig {
       const absolutePath = path.resolve(this.config.configPath);
       const configString = JSON.stringify(updatedConfig, null, 4);
       fs.writeFileSync(absolutePath, configString, 'utf8');
-      this.logger.info(`Configuration presets saved successfully to: ${absolutePath}`);
+      this.logger.info(`Configuration saved successfully to: ${absolutePath}`);
     } catch (error: any) {
-      this.logger.error(`Error saving presets to configuration file "${this.config.configPath}": ${error.message}`);
+      this.logger.error(`Error saving configuration file "${this.config.configPath}": ${error.message}`);
       throw error;
     }
   }
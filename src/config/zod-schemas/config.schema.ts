@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+import { parseCronExpression } from '@utils/cron-expression';
+import { parseOplogLimit } from '@utils/parse-oplog-limit';
+
 export const SSHConfigSchema = z.object({
   host: z.string(),
   port: z.number().default(22),
@@ -7,6 +10,8 @@ export const SSHConfigSchema = z.object({
   privateKey: z.string(),
   passphrase: z.string().optional(),
   password: z.string().optional(),
+  remoteMongodumpPath: z.string().optional(),
+  remoteMongorestorePath: z.string().optional(),
 });
 
 export const ConnectionConfigSchema = z.object({
@@ -19,6 +24,8 @@ export const ConnectionConfigSchema = z.object({
   password: z.string().optional(),
   authenticationDatabase: z.string().optional(),
   ssh: SSHConfigSchema.optional(),
+  protected: z.boolean().optional(),
+  allowDrop: z.boolean().optional(),
 });
 
 export const BackupPresetSchema = z.object({
@@ -29,6 +36,63 @@ export const BackupPresetSchema = z.object({
   collections: z.array(z.string()).optional(),
   createdAt: z.string(),
   queryStartTime: z.string().optional(),
+  queryEndTime: z.string().optional(),
+  queryTimeField: z.string().optional(),
+  queries: z.record(z.record(z.any())).optional(),
+  schedule: z
+    .string()
+    .refine((value) => {
+      try {
+        parseCronExpression(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Expected a cron expression such as "0 3 * * *"')
+    .optional(),
+  incremental: z.boolean().optional(),
+  oplog: z.boolean().optional(),
+});
+
+export const RestoreOptionsSchema = z.object({
+  drop: z.boolean().optional(),
+  includeCollections: z.array(z.string()).optional(),
+  excludeCollections: z.array(z.string()).optional(),
+  renameCollections: z.record(z.string()).optional(),
+  verifyRestore: z.boolean().optional(),
+  snapshotBeforeRestore: z.boolean().optional(),
+  replayChain: z.boolean().optional(),
+  oplogReplay: z.boolean().optional(),
+  oplogLimit: z
+    .string()
+    .refine((value) => {
+      try {
+        parseOplogLimit(value);
+        return true;
+      } catch {
+        return false;
+      }
+    }, 'Expected an ISO 8601 date or <seconds>[:ordinal]')
+    .optional(),
+});
+
+export const RestorePresetSchema = z.object({
+  name: z.string(),
+  targetName: z.string(),
+  backupPattern: z.string().optional(),
+  options: RestoreOptionsSchema.optional(),
+  createdAt: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const RetentionPolicySchema = z.object({
+  keepLast: z.number().int().positive().optional(),
+  keepDailyDays: z.number().int().positive().optional(),
+  keepWeeklyWeeks: z.number().int().positive().optional(),
+  maxTotalSize: z
+    .string()
+    .regex(/^\d+(\.\d+)?\s*(B|KB|MB|GB|TB)$/i, 'Expected a size such as "500MB" or "20GB"')
+    .optional(),
 });
 
 export const AppConfigSchema = z.object({
@@ -38,4 +102,7 @@ export const AppConfigSchema = z.object({
   mongodumpPath: z.string().optional().default('mongodump'),
   mongorestorePath: z.string().optional().default('mongorestore'),
   backupPresets: z.array(BackupPresetSchema).optional().default([]),
+  restorePresets: z.array(RestorePresetSchema).optional().default([]),
+  retention: RetentionPolicySchema.optional(),
+  snapshotBeforeRestore: z.boolean().optional(),
 });
@@ -1,5 +1,6 @@
 import 'source-map-support/register';
 import { CLIMode } from './modes/cli-mode';
+import { describeError } from '@infrastructure/errors';
 import path from 'path';
 
 async function main() {
@@ -9,7 +10,7 @@ async function main() {
   } catch (error: unknown) {
     const message = error instanceof Error ? error.message : String(error);
     console.error('\nCLI Module Error:', message);
-    process.exit(1);
+    process.exit(describeError(error).exitCode);
   }
 }
 
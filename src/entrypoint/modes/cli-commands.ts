@@ -0,0 +1,443 @@
+import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
+import type { ArgumentsCamelCase, InferredOptionTypes, Options } from 'yargs';
+
+import type { CollectionQueries } from '@ts-types/mixed';
+import type { CommandLineArgs } from './cli-mode';
+
+import { AppError, ConfigError } from '@infrastructure/errors';
+import { findClosestMatch } from '@utils/closest-match';
+import { parseRenameRules } from '@utils/parse-rename-rules';
+import { loadQueryFile, parseCollectionQuery } from '@utils/parse-query-filter';
+import { parseOplogLimit } from '@utils/parse-oplog-limit';
+
+/** Prefix of the environment variables the options fall back to, e.g. `CHERRY_PICKER_TARGET` for `--target`. */
+const ENV_PREFIX = 'CHERRY_PICKER';
+
+/** Splits the comma-separated values of an option that may also be repeated. */
+function toList(value: string | string[]): string[] {
+  return ([] as string[])
+    .concat(value)
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter((item) => item);
+}
+
+/**
+ * Uses the environment variable of each option as its default: `CHERRY_PICKER_` followed by the option name
+ * in upper snake case, e.g. `CHERRY_PICKER_DRY_RUN=true`. Only the options of the command apply,
+ * so variables meant for other commands are ignored instead of failing the strict validation.
+ */
+function withEnvDefaults<O extends Record<string, Options>>(options: O): O {
+  return Object.fromEntries(
+    Object.entries(options).map(([name, option]) => {
+      const value = process.env[`${ENV_PREFIX}_${name.toUpperCase().replace(/-/g, '_')}`];
+      if (value === undefined) {
+        return [name, option];
+      }
+      return [name, { ...option, default: option.type === 'boolean' ? /^(true|1|yes)$/i.test(value) : value }];
+    }),
+  ) as O;
+}
+
+function toRenameRules(value: string | string[]): Record<string, string> {
+  return ([] as string[]).concat(value).reduce((rules, rule) => ({ ...rules, ...parseRenameRules(rule) }), {});
+}
+
+function toQueries(value: string | string[]): CollectionQueries {
+  return ([] as string[]).concat(value).reduce<CollectionQueries>((queries, query) => {
+    const { collection, filter } = parseCollectionQuery(query);
+    return { ...queries, [collection]: filter };
+  }, {});
+}
+
+const GLOBAL_OPTIONS = {
+  config: { alias: 'c', type: 'string', describe: 'Path of the config file' },
+  output: {
+    alias: 'o',
+    choices: ['text', 'json'] as const,
+    default: 'text' as const,
+    describe: 'json: log events as JSON lines on stderr and a result object on stdout',
+  },
+} as const;
+
+const SOURCE_OPTION = { alias: 's', type: 'string', describe: 'Name of the source connection' } as const;
+const TARGET_OPTION = { alias: 't', type: 'string', describe: 'Name of the target connection' } as const;
+const DRY_RUN_OPTION = { alias: 'n', type: 'boolean', default: false, describe: 'Only print the plan' } as const;
+const DROP_OPTION = {
+  alias: 'd',
+  type: 'boolean',
+  default: false,
+  describe: 'Drop the target collections before restoring',
+} as const;
+const RENAME_OPTION = {
+  type: 'string',
+  coerce: toRenameRules,
+  describe: 'Restore collections under another name: from:to[,from:to] (repeatable)',
+} as const;
+const CONFIRM_PROTECTED_OPTION = {
+  type: 'boolean',
+  default: false,
+  describe: 'Confirm writing into a connection marked protected',
+} as const;
+const JSON_OPTION = { alias: 'j', type: 'boolean', default: false, describe: 'Print JSON instead of a table' } as const;
+const SINCE_OPTION = {
+  type: 'string',
+  describe: 'Only entries at or after this time (ISO 8601 or relative like 7d)',
+} as const;
+
+/** Collection selection and document filters of backup and copy. */
+const SELECTION_OPTIONS = {
+  scope: { choices: ['all', 'include', 'exclude'] as const, describe: 'Which collections to dump (default: all)' },
+  collections: {
+    type: 'string',
+    coerce: toList,
+    describe: 'Collections for --scope=include or exclude (comma-separated)',
+  },
+  'since-time': {
+    type: 'string',
+    describe: 'Only documents created at or after this time (ISO 8601 or relative like 1d, 3h, 2w, 1M)',
+  },
+  'until-time': { type: 'string', describe: 'Only documents created before this time (same formats)' },
+  'since-field': { type: 'string', describe: 'Date field the time filter applies to instead of _id' },
+  query: {
+    type: 'string',
+    coerce: toQueries,
+    describe: 'Extended JSON filter of a collection: collection:<json> (repeatable)',
+  },
+  'query-file': { type: 'string', coerce: loadQueryFile, describe: 'JSON file mapping collection names to filters' },
+} as const;
+
+const BACKUP_OPTIONS = {
+  source: SOURCE_OPTION,
+  preset: { alias: 'p', type: 'string', describe: 'Name of the backup preset to run' },
+  ...SELECTION_OPTIONS,
+  incremental: {
+    type: 'boolean',
+    default: false,
+    describe: 'Only back up the documents added since the previous backup of the preset',
+  },
+  oplog: { type: 'boolean', default: false, describe: 'Take a consistent snapshot of a replica set with the oplog' },
+  'dry-run': DRY_RUN_OPTION,
+} as const;
+
+const RESTORE_OPTIONS = {
+  file: { alias: ['f', 'backupFile'], type: 'string', describe: 'Backup file (in backupDir) to restore' },
+  target: TARGET_OPTION,
+  preset: { alias: 'p', type: 'string', describe: 'Name of the restore preset to run' },
+  drop: DROP_OPTION,
+  collections: { type: 'string', coerce: toList, describe: 'Only restore these collections (comma-separated)' },
+  'exclude-collections': { type: 'string', coerce: toList, describe: 'Skip these collections (comma-separated)' },
+  rename: RENAME_OPTION,
+  'skip-verify': { type: 'boolean', default: false, describe: 'Restore without checking the archive checksums' },
+  'verify-restore': {
+    type: 'boolean',
+    default: false,
+    describe: 'Compare the target with the backup metadata afterwards',
+  },
+  'snapshot-before-restore': {
+    type: 'boolean',
+    describe: 'Back up the target collections the restore overwrites first',
+  },
+  chain: { type: 'boolean', default: false, describe: 'Replay the incremental backups built on the backup' },
+  'oplog-replay': { type: 'boolean', default: false, describe: 'Replay the oplog of an --oplog backup' },
+  'oplog-limit': {
+    type: 'string',
+    coerce: (value: string) => (parseOplogLimit(value), value),
+    describe: 'Stop the oplog replay before this time (ISO 8601 or <seconds>[:ordinal]); implies --oplog-replay',
+  },
+  'i-know-what-im-doing': CONFIRM_PROTECTED_OPTION,
+  'dry-run': DRY_RUN_OPTION,
+} as const;
+
+const COPY_OPTIONS = {
+  source: { ...SOURCE_OPTION, demandOption: true },
+  target: { ...TARGET_OPTION, demandOption: true },
+  ...SELECTION_OPTIONS,
+  drop: DROP_OPTION,
+  rename: RENAME_OPTION,
+  'save-archive': { type: 'boolean', default: false, describe: 'Also keep the archive in backupDir' },
+  'i-know-what-im-doing': CONFIRM_PROTECTED_OPTION,
+} as const;
+
+const PRUNE_OPTIONS = { 'dry-run': DRY_RUN_OPTION } as const;
+
+const LIST_OPTIONS = {
+  source: { ...SOURCE_OPTION, describe: 'Only backups of this source connection' },
+  preset: { alias: 'p', type: 'string', describe: 'Only backups of this backup preset' },
+  since: SINCE_OPTION,
+  json: JSON_OPTION,
+} as const;
+
+const VERIFY_OPTIONS = {
+  file: { alias: ['f', 'backupFile'], type: 'string', demandOption: true, describe: 'Backup file to verify' },
+  target: { ...TARGET_OPTION, describe: 'Also read the archive with mongorestore --dryRun against this connection' },
+} as const;
+
+const HISTORY_OPTIONS = {
+  operation: { choices: ['backup', 'restore', 'copy'] as const, describe: 'Only this kind of operation' },
+  source: { ...SOURCE_OPTION, describe: 'Only operations from this connection' },
+  target: { ...TARGET_OPTION, describe: 'Only operations into this connection' },
+  since: SINCE_OPTION,
+  until: { type: 'string', describe: 'Only entries before this time (ISO 8601 or relative like 1d)' },
+  failed: { type: 'boolean', default: false, describe: 'Only failed operations' },
+  json: JSON_OPTION,
+} as const;
+
+const PRESETS_OPTIONS = {
+  type: { choices: ['backup', 'restore'] as const, describe: 'Only backup or only restore presets' },
+  json: JSON_OPTION,
+} as const;
+
+const CONNECTIONS_OPTIONS = { json: JSON_OPTION } as const;
+
+const DOCTOR_OPTIONS = {
+  connection: { type: 'string', describe: 'Only check this connection' },
+  json: JSON_OPTION,
+} as const;
+
+/** Every option name, for suggestions on typos. */
+const KNOWN_OPTIONS = [
+  ...new Set(
+    [
+      GLOBAL_OPTIONS,
+      BACKUP_OPTIONS,
+      RESTORE_OPTIONS,
+      COPY_OPTIONS,
+      LIST_OPTIONS,
+      VERIFY_OPTIONS,
+      HISTORY_OPTIONS,
+      PRESETS_OPTIONS,
+      DOCTOR_OPTIONS,
+    ].flatMap((options) => Object.keys(options)),
+  ),
+  'help',
+];
+
+function toSelectionArgs(
+  argv: ArgumentsCamelCase<InferredOptionTypes<typeof SELECTION_OPTIONS>>,
+): Pick<CommandLineArgs, 'backupMode' | 'collections' | 'sinceTime' | 'untilTime' | 'sinceField' | 'queries'> {
+  return {
+    backupMode: argv.scope,
+    collections: argv.collections,
+    sinceTime: argv.sinceTime,
+    untilTime: argv.untilTime,
+    sinceField: argv.sinceField,
+    // Inline queries win over the query file for the same collection
+    queries: argv.query || argv.queryFile ? { ...argv.queryFile, ...argv.query } : undefined,
+  };
+}
+
+/** Turns a yargs validation failure into a `ConfigError`, suggesting the closest option for an unknown one. */
+function toConfigError(message: string | undefined, error: Error | undefined): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  let text = message || error?.message || 'Invalid arguments.';
+  const unknown = text.match(/^Unknown arguments?: (.+)$/)?.[1].split(', ') ?? [];
+  const suggestions = unknown
+    .map((name) => findClosestMatch(name.replace(/^-+/, ''), KNOWN_OPTIONS))
+    .filter((name): name is string => !!name);
+  if (suggestions.length > 0) {
+    text += `. Did you mean ${suggestions.map((name) => `--${name}`).join(', ')}?`;
+  }
+  return new ConfigError(`${/[.?!]$/.test(text) ? text : `${text}.`} Run with --help for usage.`);
+}
+
+/**
+ * Reads `--output` (or `CHERRY_PICKER_OUTPUT`) without validating anything else,
+ * so errors in the rest of the arguments can be reported in the requested format.
+ */
+export function detectOutputFormat(): 'text' | 'json' {
+  const { output } = yargs(hideBin(process.argv))
+    .options(withEnvDefaults({ output: { alias: 'o', type: 'string' } }))
+    .help(false)
+    .version(false)
+    .parseSync();
+  return output === 'json' ? 'json' : 'text';
+}
+
+/**
+ * Parses the command (`backup`, `restore`, `copy`, `prune`, `list`, `verify`, `history`, `daemon`,
+ * `presets`, `connections` or `doctor`) and its options. Every option falls back to an environment variable
+ * (see `withEnvDefaults`).
+ * `--help` prints the usage (of a command with `<command> --help`) and exits.
+ *
+ * @param configPath - The config file used without `--config`.
+ * @returns The parsed arguments.
+ * @throws A `ConfigError` for a missing or unknown command, an unknown option (with the closest match)
+ * or an invalid value.
+ */
+export function parseCommandLineArgs(configPath: string): CommandLineArgs {
+  let args: Omit<CommandLineArgs, 'configPath'> = {};
+  const argv = yargs(hideBin(process.argv))
+    .scriptName('cherry-picker')
+    .usage('$0 <command> [options]')
+    .options(withEnvDefaults({ ...GLOBAL_OPTIONS, config: { ...GLOBAL_OPTIONS.config, default: configPath } }))
+    .command(
+      'backup',
+      'Back up a source connection or run a backup preset',
+      (cmd) =>
+        cmd
+          .options(withEnvDefaults(BACKUP_OPTIONS))
+          .check((opts) => {
+            if (!opts.source && !opts.preset) {
+              throw new ConfigError('--source or --preset is required for backup.');
+            }
+            if (opts.incremental && !opts.preset) {
+              throw new ConfigError(
+                '--incremental requires --preset (the chain continues from the previous backup of the preset).',
+              );
+            }
+            if (opts.oplog && opts.source && opts.scope && opts.scope !== 'all') {
+              throw new ConfigError('--oplog requires --scope=all (mongodump only captures the oplog of full dumps).');
+            }
+            return true;
+          })
+          .example('$0 backup -s localDev --scope=include --collections=users,orders --since-time=1d', '')
+          .example('$0 backup -p users_only --incremental', ''),
+      (opts) => {
+        args = {
+          mode: 'backup',
+          source: opts.source,
+          preset: opts.preset,
+          ...toSelectionArgs(opts),
+          incremental: opts.incremental,
+          oplog: opts.oplog,
+          dryRun: opts.dryRun,
+        };
+      },
+    )
+    .command(
+      'restore',
+      'Restore a backup file or run a restore preset',
+      (cmd) =>
+        cmd
+          .options(withEnvDefaults(RESTORE_OPTIONS))
+          .check((opts) => {
+            if (!opts.preset && (!opts.file || !opts.target)) {
+              throw new ConfigError('--file and --target are required for restore unless --preset is given.');
+            }
+            return true;
+          })
+          .example('$0 restore -f backup_2023-10-28_stagingServer.gz -t localDev --drop', '')
+          .example('$0 restore -p "Refresh localDev" --dry-run', ''),
+      (opts) => {
+        args = {
+          mode: 'restore',
+          backupFile: opts.file,
+          target: opts.target,
+          preset: opts.preset,
+          drop: opts.drop,
+          collections: opts.collections,
+          excludeCollections: opts.excludeCollections,
+          renameCollections: opts.rename,
+          skipVerify: opts.skipVerify,
+          verifyRestore: opts.verifyRestore,
+          snapshotBeforeRestore: opts.snapshotBeforeRestore,
+          replayChain: opts.chain,
+          oplogReplay: opts.oplogReplay || !!opts.oplogLimit,
+          oplogLimit: opts.oplogLimit,
+          confirmProtected: opts.iKnowWhatImDoing,
+          dryRun: opts.dryRun,
+        };
+      },
+    )
+    .command(
+      'copy',
+      'Pipe the dump of a source connection into a restore on a target connection',
+      (cmd) => cmd.options(withEnvDefaults(COPY_OPTIONS)),
+      (opts) => {
+        args = {
+          mode: 'copy',
+          source: opts.source,
+          target: opts.target,
+          ...toSelectionArgs(opts),
+          drop: opts.drop,
+          renameCollections: opts.rename,
+          saveArchive: opts.saveArchive,
+          confirmProtected: opts.iKnowWhatImDoing,
+        };
+      },
+    )
+    .command(
+      'prune',
+      'Delete the backups the retention policy does not keep',
+      (cmd) => cmd.options(withEnvDefaults(PRUNE_OPTIONS)),
+      (opts) => {
+        args = { mode: 'prune', dryRun: opts.dryRun };
+      },
+    )
+    .command(
+      'list',
+      'List the backups in the backup directory',
+      (cmd) => cmd.options(withEnvDefaults(LIST_OPTIONS)),
+      (opts) => {
+        args = { mode: 'list', source: opts.source, preset: opts.preset, since: opts.since, json: opts.json };
+      },
+    )
+    .command(
+      'verify',
+      'Check the checksums of a backup',
+      (cmd) => cmd.options(withEnvDefaults(VERIFY_OPTIONS)),
+      (opts) => {
+        args = { mode: 'verify', backupFile: opts.file, target: opts.target };
+      },
+    )
+    .command(
+      'history',
+      'Show the operation journal',
+      (cmd) => cmd.options(withEnvDefaults(HISTORY_OPTIONS)),
+      (opts) => {
+        args = {
+          mode: 'history',
+          operation: opts.operation,
+          source: opts.source,
+          target: opts.target,
+          since: opts.since,
+          until: opts.until,
+          failed: opts.failed,
+          json: opts.json,
+        };
+      },
+    )
+    .command('daemon', 'Run the backup presets with a schedule until stopped', {}, () => {
+      args = { mode: 'daemon' };
+    })
+    .command(
+      'presets',
+      'List the backup and restore presets of the config',
+      (cmd) => cmd.options(withEnvDefaults(PRESETS_OPTIONS)),
+      (opts) => {
+        args = { mode: 'presets', presetType: opts.type, json: opts.json };
+      },
+    )
+    .command(
+      'connections',
+      'List the connections of the config',
+      (cmd) => cmd.options(withEnvDefaults(CONNECTIONS_OPTIONS)),
+      (opts) => {
+        args = { mode: 'connections', json: opts.json };
+      },
+    )
+    .command(
+      'doctor',
+      'Check DNS, SSH, MongoDB access, permissions and tools of each connection',
+      (cmd) => cmd.options(withEnvDefaults(DOCTOR_OPTIONS)).example('$0 doctor --connection=stagingServer', ''),
+      (opts) => {
+        args = { mode: 'doctor', connection: opts.connection, json: opts.json };
+      },
+    )
+    .demandCommand(1, 'A command is required.')
+    .recommendCommands()
+    .strict()
+    .alias('help', 'h')
+    .version(false)
+    .wrap(Math.min(120, process.stdout.columns || 80))
+    .fail((message, error) => {
+      throw toConfigError(message, error);
+    })
+    .parseSync();
+
+  return { ...args, interactive: false, output: argv.output, configPath: argv.config };
+}
@@ -1,64 +1,196 @@
 import { parseISO, subDays, subHours, isValid, subWeeks, subMonths, subYears } from 'date-fns';
 
-import { AppConfig } from '@ts-types/mixed';
+import { AppConfig, BackupMetadata, CollectionQueries } from '@ts-types/mixed';
 
 import { BackupController } from '@modules/backup/controllers/backup-controller';
 import { RestoreController } from '@modules/restore/controllers/restore-controller';
 import { BackupService } from '@modules/backup/services/backup.service';
 import { Logger } from '@infrastructure/logger';
+import { ConfigError, describeError } from '@infrastructure/errors';
 
 import { MongoDBService } from '@infrastructure/mongodb.service';
 import { PromptService } from '@modules/prompt/services/prompt-service';
 
 import { RestoreService } from '@modules/restore/services/restore.service';
 import { Config } from '@config/config';
+import { CopyController } from '@modules/copy/controllers/copy-controller';
+import { CopyService } from '@modules/copy/services/copy.service';
+import type { BackupFilters } from '@modules/backup/interfaces/backup-args.interface';
+import { RetentionController } from '@modules/retention/controllers/retention-controller';
+import { RetentionService } from '@modules/retention/services/retention.service';
+import { CatalogController } from '@modules/catalog/controllers/catalog-controller';
+import { CatalogService } from '@modules/catalog/services/catalog.service';
+import { VerifyController } from '@modules/verify/controllers/verify-controller';
+import { HistoryController } from '@modules/journal/controllers/history-controller';
+import { JournalService } from '@modules/journal/services/journal.service';
+import type { JournalEntry, JournalOperation } from '@modules/journal/interfaces/journal-entry.interface';
+import type { CatalogEntry } from '@modules/catalog/interfaces/catalog-entry.interface';
+import type { RestoreCounts, RestoreResult } from '@modules/restore/interfaces/restore-result.interface';
+import { DaemonController } from '@modules/daemon/controllers/daemon-controller';
+import { ScheduleService } from '@modules/daemon/services/schedule.service';
+import { PresetsController } from '@modules/presets/controllers/presets-controller';
+import type { PresetEntry } from '@modules/presets/interfaces/preset-entry.interface';
+import { ConnectionsController } from '@modules/connections/controllers/connections-controller';
+import type { ConnectionEntry } from '@modules/connections/interfaces/connection-entry.interface';
+import { ToolsService } from '@modules/tools/services/tools.service';
+import type { ToolRequirement } from '@modules/tools/interfaces/tool-check.interface';
+import { DoctorController } from '@modules/doctor/controllers/doctor-controller';
+import { DoctorService } from '@modules/doctor/services/doctor.service';
+import type { DoctorReport } from '@modules/doctor/interfaces/doctor-report.interface';
+import { detectOutputFormat, parseCommandLineArgs } from './cli-commands';
 
 export interface CommandLineArgs {
   /** Flag indicating if the application should run in interactive mode. */
   interactive?: boolean;
-  /** The primary operation mode ('backup' or 'restore'), usually undefined in interactive mode. */
-  mode?: 'backup' | 'restore';
-  /** Name of the source connection (for backup). */
+  /** The command ('backup', 'restore', 'copy', 'prune', 'list', 'verify', 'history', 'daemon', 'presets', 'connections' or 'doctor'), undefined in interactive mode. */
+  mode?:
+    | 'backup'
+    | 'restore'
+    | 'copy'
+    | 'prune'
+    | 'list'
+    | 'verify'
+    | 'history'
+    | 'daemon'
+    | 'presets'
+    | 'connections'
+    | 'doctor';
+  /** Name of the source connection (for backup and copy). */
   source?: string;
   /** Backup mode ('all', 'include', 'exclude'). */
   backupMode?: 'all' | 'include' | 'exclude';
-  /** List of collections for include/exclude mode. */
+  /** List of collections for include/exclude mode (backup, copy) or to restore (restore). */
   collections?: string[];
+  /** List of collections to skip when restoring. */
+  excludeCollections?: string[];
   /** Name of the backup or restore preset to use. */
   preset?: string;
-  /** Specific backup file to restore. */
+  /** Backup preset mode: only back up the documents added since the preset's previous backup. */
+  incremental?: boolean;
+  /** Backup mode: take a consistent snapshot of a replica set source with the oplog. */
+  oplog?: boolean;
+  /** Specific backup file to restore or verify. */
   backupFile?: string;
-  /** Name of the target connection (for restore). */
+  /** Name of the target connection (for restore and copy; for verify, the connection used for the dry run). */
   target?: string;
   /** Flag to drop target collections before restoring. */
   drop?: boolean;
+  /** Restore without checking the archive checksums first. */
+  skipVerify?: boolean;
+  /** After restoring, compare the target with the collection statistics in the backup metadata. */
+  verifyRestore?: boolean;
+  /** Back up the target collections a restore overwrites first (overrides the config default). */
+  snapshotBeforeRestore?: boolean;
+  /** Restore the full backup and the incremental backups of the chain the backup file belongs to. */
+  replayChain?: boolean;
+  /** Replay the oplog of an `--oplog` backup after restoring it. */
+  oplogReplay?: boolean;
+  /** Stop the oplog replay before this time (ISO 8601 or `<seconds>[:ordinal]`); implies `oplogReplay`. */
+  oplogLimit?: string;
+  /** Confirms restoring or copying into a connection marked `protected` (--i-know-what-im-doing). */
+  confirmProtected?: boolean;
+  /** Collection rename rules for restore and copy (source name -> target name). */
+  renameCollections?: Record<string, string>;
   /** Filter backup by _id timestamp (ISO 8601 or relative like "1d", "7d", "3h"). */
   sinceTime?: string;
+  /** Exclusive upper bound of the time filter (same formats as sinceTime). */
+  untilTime?: string;
+  /** Date field the time filter applies to instead of _id (e.g. "updatedAt"). */
+  sinceField?: string;
+  /** Extended JSON query filters per collection (from --query and --query-file). */
+  queries?: CollectionQueries;
+  /** Copy mode: also save the streamed archive to the backup directory. */
+  saveArchive?: boolean;
+  /** Only report what would be done, without changing anything. */
+  dryRun?: boolean;
+  /** List and history mode: only entries created at or after this time (ISO 8601 or relative like "7d"). */
+  since?: string;
+  /** History mode: only entries created before this time (same formats as since). */
+  until?: string;
+  /** List, history, presets and connections mode: print JSON instead of a table. */
+  json?: boolean;
+  /** History mode: only this kind of operation. */
+  operation?: JournalOperation;
+  /** History mode: only failed operations. */
+  failed?: boolean;
+  /** Presets mode: only backup or only restore presets. */
+  presetType?: PresetEntry['type'];
+  /** Doctor mode: only check this connection. */
+  connection?: string;
+  /** `json` writes log events as JSON lines to stderr and a single `CommandResult` to stdout. */
+  output?: 'text' | 'json';
   /** Overrited config path */
   configPath: string;
 }
 
+/** The object `--output=json` writes to stdout when the command finishes. */
+export interface CommandResult {
+  /** The operation mode, if the arguments could be parsed. */
+  command?: CommandLineArgs['mode'];
+  success: boolean;
+  /** 0 on success, otherwise the exit code of the failure class (see `@infrastructure/errors`). */
+  exitCode: number;
+  /** ISO 8601 string of when the command started. */
+  startedAt: string;
+  durationMs: number;
+  dryRun?: boolean;
+  /** The archive created by a backup or restored by a restore (relative to backupDir). */
+  archive?: string;
+  /** The metadata of the created or restored backup. */
+  metadata?: BackupMetadata;
+  /** The summed document counts of a restore. */
+  restoreCounts?: RestoreCounts;
+  /** The pre-restore snapshot of the target, if one was taken. */
+  snapshot?: string;
+  /** The entries of list, history, presets or connections, or the reports of doctor. */
+  entries?: CatalogEntry[] | JournalEntry[] | PresetEntry[] | ConnectionEntry[] | DoctorReport[];
+  error?: { code: string; message: string };
+}
+
+/** What a command reports in its `CommandResult`; `error` is set if it failed after producing partial results. */
+type CommandOutcome = Pick<CommandResult, 'archive' | 'metadata' | 'restoreCounts' | 'snapshot' | 'entries'> & {
+  error?: Error;
+};
+
 export class CLIMode {
-  private args: CommandLineArgs;
-  private config: AppConfig;
-  private backupController: BackupController;
-  private restoreController: RestoreController;
+  private args!: CommandLineArgs;
+  private config!: AppConfig;
+  private backupController!: BackupController;
+  private restoreController!: RestoreController;
+  private copyController!: CopyController;
+  private retentionController!: RetentionController;
+  private catalogController!: CatalogController;
+  private verifyController!: VerifyController;
+  private historyController!: HistoryController;
+  private daemonController!: DaemonController;
+  private presetsController!: PresetsController;
+  private connectionsController!: ConnectionsController;
+  private toolsService!: ToolsService;
+  private doctorController!: DoctorController;
+  private readonly output: 'text' | 'json';
   private logger: Logger;
 
-  constructor(configPath: string) {
-    this.logger = new Logger({ prefix: CLIMode.name });
-    this.args = this.parseCommandLineArgs(configPath);
-    this.config = new Config(this.args.configPath, new Logger({ prefix: Config.name })).parsed;
-    const backupService = new BackupService(this.config, new Logger({ prefix: BackupService.name }));
-    const mongoService = new MongoDBService(new Logger({ prefix: MongoDBService.name }));
-    const restoreService = new RestoreService(this.config, new Logger({ prefix: RestoreService.name }));
+  constructor(private readonly configPath: string) {
+    // Known before the arguments are parsed, so argument and config errors are reported in the same format
+    this.output = detectOutputFormat();
+    this.logger = this.createLogger(CLIMode.name);
+  }
+
+  /** Parses the arguments, loads the config and wires the controllers. */
+  private init(): void {
+    this.args = parseCommandLineArgs(this.configPath);
+    // Keep stdout clean for JSON output
+    this.config = new Config(this.args.configPath, this.createLogger(Config.name, this.args.json)).parsed;
+    const backupService = new BackupService(this.config, this.createLogger(BackupService.name));
+    const mongoService = new MongoDBService(this.createLogger(MongoDBService.name));
+    const restoreService = new RestoreService(this.config, this.createLogger(RestoreService.name));
 
     this.backupController = new BackupController(
       this.config,
       {} as PromptService,
       mongoService,
       backupService,
-      new Logger({ prefix: BackupController.name }),
+      this.createLogger(BackupController.name),
     );
 
     this.restoreController = new RestoreController(
@@ -66,24 +198,226 @@ export class CLIMode {
       backupService,
       {} as PromptService,
       restoreService,
-      new Logger({ prefix: RestoreController.name }),
+      mongoService,
+      this.createLogger(RestoreController.name),
+    );
+
+    this.copyController = new CopyController(
+      this.config,
+      {} as PromptService,
+      mongoService,
+      new CopyService(this.config, restoreService, this.createLogger(CopyService.name)),
+      this.createLogger(CopyController.name),
+    );
+
+    const retentionService = new RetentionService(this.config, backupService, this.createLogger(RetentionService.name));
+    this.retentionController = new RetentionController(
+      this.config,
+      retentionService,
+      {} as PromptService,
+      this.createLogger(RetentionController.name),
+    );
+
+    this.catalogController = new CatalogController(
+      new CatalogService(this.config, backupService, this.createLogger(CatalogService.name)),
+      this.createLogger(CatalogController.name, this.args.json),
+    );
+
+    this.verifyController = new VerifyController(
+      this.config,
+      backupService,
+      restoreService,
+      this.createLogger(VerifyController.name),
+    );
+
+    this.historyController = new HistoryController(
+      new JournalService(this.config, this.createLogger(JournalService.name)),
+      this.createLogger(HistoryController.name, this.args.json),
+    );
+
+    this.daemonController = new DaemonController(
+      this.config,
+      new ScheduleService(this.config, this.createLogger(ScheduleService.name)),
+      retentionService,
+      // Runs of different sources overlap, so each needs its own connection
+      (sourceName) =>
+        new BackupController(
+          this.config,
+          {} as PromptService,
+          new MongoDBService(this.createLogger(`${MongoDBService.name}:${sourceName}`)),
+          backupService,
+          this.createLogger(`${BackupController.name}:${sourceName}`),
+        ),
+      this.createLogger(DaemonController.name),
+    );
+
+    this.presetsController = new PresetsController(
+      this.config,
+      this.createLogger(PresetsController.name, this.args.json),
+    );
+
+    this.connectionsController = new ConnectionsController(
+      this.config,
+      this.createLogger(ConnectionsController.name, this.args.json),
+    );
+
+    this.toolsService = new ToolsService(this.config, this.createLogger(ToolsService.name));
+
+    this.doctorController = new DoctorController(
+      this.config,
+      new DoctorService(
+        // Connection progress would drown the report; failures are part of it
+        new MongoDBService(this.createLogger(MongoDBService.name, true)),
+        new ToolsService(this.config, this.createLogger(ToolsService.name, true)),
+        this.createLogger(DoctorService.name),
+      ),
+      this.createLogger(DoctorController.name, this.args.json),
     );
   }
 
+  /**
+   * Runs the operation mode given on the command line.
+   * With `--output=json` a failure is not thrown: the `CommandResult` written to stdout reports it
+   * and `process.exitCode` is set to the exit code of its failure class.
+   */
   async run(): Promise<void> {
+    const startedAt = new Date();
+    let outcome: CommandOutcome;
+    try {
+      this.init();
+      outcome = await this.runCommand();
+    } catch (error: any) {
+      outcome = { error };
+    }
+
+    if (this.output === 'text') {
+      if (outcome.error) {
+        throw outcome.error;
+      }
+      return;
+    }
+    const failure = outcome.error ? describeError(outcome.error) : undefined;
+    const result: CommandResult = {
+      command: this.args?.mode,
+      success: !failure,
+      exitCode: failure?.exitCode ?? 0,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      dryRun: this.args?.dryRun || undefined,
+      ...outcome,
+      error: failure ? { code: failure.code, message: failure.message } : undefined,
+    };
+    process.stdout.write(`${JSON.stringify(result)}\n`);
+    process.exitCode = result.exitCode;
+  }
+
+  private async runCommand(): Promise<CommandOutcome> {
     switch (this.args.mode) {
       case 'backup':
-        await this.backupFromArgs();
-        break;
+        return this.backupFromArgs();
       case 'restore':
-        await this.restoreFromArgs();
-        break;
+        return this.restoreFromArgs();
+      case 'copy':
+        await this.copyFromArgs();
+        return {};
+      case 'prune':
+        await this.retentionController.pruneFromArgs(this.args.dryRun || false);
+        return {};
+      case 'list':
+        return this.listFromArgs();
+      case 'verify':
+        await this.verifyController.verifyFromArgs(this.args.backupFile!, this.args.target, () => this.preflight());
+        return { archive: this.args.backupFile };
+      case 'history':
+        return this.historyFromArgs();
+      case 'daemon':
+        await this.daemonFromArgs();
+        return {};
+      case 'presets':
+        return {
+          entries: await this.presetsController.listFromArgs(this.args.presetType, this.printsJsonEntries()),
+        };
+      case 'connections':
+        return {
+          entries: await this.connectionsController.listFromArgs(this.printsJsonEntries()),
+        };
+      case 'doctor': {
+        const reports = await this.doctorController.doctorFromArgs(this.args.connection, this.printsJsonEntries());
+        return { entries: reports, error: this.doctorController.toFailure(reports) };
+      }
       default:
-        // If no mode specified in non-interactive, display help or error
-        this.logger.error('Error: Operation mode (--backup or --restore) is required in non-interactive mode.');
-        this.logger.info('Run with --interactive for guided prompts.');
-        process.exit(1); // Exit with error code
+        throw new ConfigError('A command is required. Run with --help for usage.');
+    }
+  }
+
+  /**
+   * Checks the tools of the command once its arguments are resolved, so that invalid arguments are reported first.
+   * Dry runs run no tool and skip the check.
+   */
+  private async preflight(): Promise<void> {
+    if (!this.args.dryRun) {
+      await this.toolsService.preflight(this.getToolRequirements());
+    }
+  }
+
+  /**
+   * The tools the command runs and where, for the preflight. Unknown connection or preset names
+   * add nothing, the command itself reports them.
+   */
+  private getToolRequirements(): ToolRequirement[] {
+    const findConnection = (name?: string) => this.config.connections.find((conn) => conn.name === name);
+    const requirements: ToolRequirement[] = [];
+    const add = (tool: ToolRequirement['tool'], connectionName?: string) => {
+      const connection = findConnection(connectionName);
+      if (connection) {
+        requirements.push({ tool, connection });
+      }
+    };
+
+    switch (this.args.mode) {
+      case 'backup': {
+        const preset = this.config.backupPresets.find((p) => p.name === this.args.preset);
+        add('mongodump', this.args.preset ? preset?.sourceName : this.args.source);
+        break;
+      }
+      case 'restore': {
+        const preset = this.config.restorePresets.find((p) => p.name === this.args.preset);
+        const targetName = this.args.preset ? preset?.targetName : this.args.target;
+        add('mongorestore', targetName);
+        // The pre-restore snapshot is a backup of the target
+        if (
+          this.args.snapshotBeforeRestore ||
+          preset?.options?.snapshotBeforeRestore ||
+          this.config.snapshotBeforeRestore
+        ) {
+          add('mongodump', targetName);
+        }
+        break;
+      }
+      case 'copy':
+        add('mongodump', this.args.source);
+        add('mongorestore', this.args.target);
+        break;
+      case 'verify':
+        add('mongorestore', this.args.target);
+        break;
+      case 'daemon':
+        this.config.backupPresets
+          .filter((preset) => preset.schedule)
+          .forEach((preset) => add('mongodump', preset.sourceName));
+        break;
     }
+    return requirements;
+  }
+
+  /** Whether `--json` prints the entries of a listing; with --output=json they are part of the result object instead. */
+  private printsJsonEntries(): boolean {
+    return (this.args.json && this.output === 'text') || false;
+  }
+
+  /** Creates the logger of a class in the output format of the command. */
+  private createLogger(prefix: string, quiet?: boolean): Logger {
+    return new Logger({ prefix, quiet, format: this.output });
   }
 
   /**
@@ -91,51 +425,36 @@ export class CLIMode {
    * Handles presets or direct source/collection specification.
    * @private
    */
-  private async backupFromArgs(): Promise<void> {
+  private async backupFromArgs(): Promise<CommandOutcome> {
+    let metadata: BackupMetadata | undefined;
     if (this.args.preset) {
       // Find and use the specified preset
       const preset = this.config.backupPresets?.find((p) => p.name === this.args.preset);
       if (!preset) {
-        throw new Error(`Backup preset "${this.args.preset}" not found in configuration.`);
+        throw new ConfigError(`Backup preset "${this.args.preset}" not found in configuration.`);
       }
       this.logger.info(`Using backup preset: ${preset.name}`);
-      await this.backupController.useBackupPreset(preset);
+      await this.preflight();
+      metadata = await this.backupController.useBackupPreset(
+        preset,
+        this.args.dryRun || false,
+        this.args.incremental || preset.incremental || false,
+        this.args.oplog || preset.oplog || false,
+      );
     } else if (this.args.source) {
       const backupMode = this.args.backupMode || 'all';
       const collections = this.args.collections || [];
 
-      // --- Parse --since-time argument ---
-      let startTime: Date | undefined = undefined;
-      if (this.args.sinceTime) {
-        startTime = this.parseSinceTime(this.args.sinceTime);
-        if (!startTime) {
-          return; // Stop processing if time format is invalid
-        }
-
-        // --- VALIDATION for --since-time ---
-        if (backupMode !== 'include') {
-          this.logger.error('Error: --since-time can only be used with --backupMode=include.');
-          return; // Exit
-        }
-        if (collections.length !== 1) {
-          this.logger.error('Error: --since-time requires exactly one collection specified via --collections.');
-          return; // Exit
-        }
-        this.logger.info(`Validated: --since-time will be applied to collection: ${collections[0]}`);
-        // --- End VALIDATION ---
-      }
-      // --- End Parse --since-time ---
+      const filters = this.parseBackupFilters(backupMode, collections);
 
       // Validate mode (basic check, specific validation for since-time done above)
       if (!['all', 'include', 'exclude'].includes(backupMode)) {
-        this.logger.error(`Invalid backup mode: ${backupMode}. Must be 'all', 'include', or 'exclude'.`);
-        return;
+        throw new ConfigError(`Invalid backup mode: ${backupMode}. Must be 'all', 'include', or 'exclude'.`);
       }
       // Validate collections for include/exclude modes (excluding the since-time case already handled)
-      if (!startTime && (backupMode === 'include' || backupMode === 'exclude') && collections.length === 0) {
+      if (!filters.startTime && (backupMode === 'include' || backupMode === 'exclude') && collections.length === 0) {
         if (backupMode === 'include') {
-          this.logger.error('Mode "include" requires a list of collections via --collections.');
-          return;
+          throw new ConfigError('Mode "include" requires a list of collections via --collections.');
         } else {
           this.logger.info(
             'Info: Mode "exclude" with no collections specified; defaulting to backing up all collections.',
@@ -143,57 +462,232 @@ export class CLIMode {
         }
       }
 
-      try {
-        // Pass arguments to the manager
-        await this.backupController.backupFromArgs(
-          this.args.source,
-          backupMode as 'all' | 'include' | 'exclude', // Type assertion is okay after validation
-          collections,
-          startTime, // Pass potentially undefined startTime
-        );
-      } catch (error: any) {
-        this.logger.error('✖ Backup command failed.');
-      }
+      await this.preflight();
+      // Pass arguments to the manager
+      metadata = await this.backupController.backupFromArgs(
+        this.args.source,
+        backupMode as 'all' | 'include' | 'exclude', // Type assertion is okay after validation
+        collections,
+        filters,
+        this.args.dryRun || false,
+        this.args.oplog || false,
+      );
     } else {
-      this.logger.error('Error: No source specified for backup.');
-      process.exit(1);
+      throw new ConfigError('No source specified for backup.');
     }
+    return { archive: metadata?.archivePath, metadata };
   }
 
   /**
    * Performs a restore operation based on non-interactive arguments.
    * @private
    */
-  private async restoreFromArgs(): Promise<void> {
+  private async restoreFromArgs(): Promise<CommandOutcome> {
+    if (this.args.preset) {
+      const preset = this.config.restorePresets?.find((p) => p.name === this.args.preset);
+      if (!preset) {
+        throw new ConfigError(`Restore preset "${this.args.preset}" not found in configuration.`);
+      }
+      this.logger.info(`Using restore preset: ${preset.name}`);
+      const restoreOptions = {
+        ...preset.options,
+        ...(this.args.verifyRestore ? { verifyRestore: true } : {}),
+        ...(this.args.snapshotBeforeRestore ? { snapshotBeforeRestore: true } : {}),
+        ...(this.args.replayChain ? { replayChain: true } : {}),
+        ...(this.args.oplogReplay ? { oplogReplay: true } : {}),
+        ...(this.args.oplogLimit ? { oplogLimit: this.args.oplogLimit } : {}),
+        confirmProtected: this.args.confirmProtected || false,
+      };
+      return this.toRestoreOutcome(
+        await this.restoreController.useRestorePreset(
+          { ...preset, options: restoreOptions },
+          { dryRun: this.args.dryRun || false, preflight: () => this.preflight() },
+        ),
+      );
+    }
+
     if (!this.args.backupFile) {
-      throw new Error('--backupFile (or --file) is required for restore mode.');
+      throw new ConfigError('--backupFile (or --file) is required for restore mode.');
     }
     if (!this.args.target) {
-      throw new Error('--target connection name is required for restore mode.');
+      throw new ConfigError('--target connection name is required for restore mode.');
     }
 
-    // Options for restore (currently only 'drop')
     const restoreOptions = {
       drop: this.args.drop || false,
+      includeCollections: this.args.collections,
+      excludeCollections: this.args.excludeCollections,
+      renameCollections: this.args.renameCollections,
+      skipVerify: this.args.skipVerify || false,
+      verifyRestore: this.args.verifyRestore || false,
+      snapshotBeforeRestore: this.args.snapshotBeforeRestore || undefined,
+      replayChain: this.args.replayChain || false,
+      oplogReplay: this.args.oplogReplay || false,
+      oplogLimit: this.args.oplogLimit,
+      confirmProtected: this.args.confirmProtected || false,
     };
 
-    await this.restoreController.runRestore(this.args.backupFile, this.args.target, restoreOptions);
+    return this.toRestoreOutcome(
+      await this.restoreController.runRestore(this.args.backupFile, this.args.target, restoreOptions, {
+        dryRun: this.args.dryRun || false,
+        preflight: () => this.preflight(),
+      }),
+    );
   }
 
-  /** Parses the --since-time argument string into a Date object */
-  private parseSinceTime(sinceArg: string): Date | undefined {
+  /** Reports a restore; the restore controller logs failures instead of throwing them. */
+  private toRestoreOutcome(result: RestoreResult): CommandOutcome {
+    return {
+      archive: result.metadata?.archivePath,
+      metadata: result.metadata,
+      restoreCounts: result.counts,
+      snapshot: result.snapshot,
+      error: result.success ? undefined : (result.error ?? new Error('Restore cancelled.')),
+    };
+  }
+
+  /**
+   * Lists backups based on non-interactive arguments.
+   * @private
+   */
+  private async listFromArgs(): Promise<CommandOutcome> {
+    const since = this.args.since ? this.parseSinceTime(this.args.since, '--since') : undefined;
+    const entries = await this.catalogController.listFromArgs(
+      { source: this.args.source, preset: this.args.preset, since },
+      this.printsJsonEntries(),
+    );
+    return { entries };
+  }
+
+  /**
+   * Prints the operation journal based on non-interactive arguments.
+   * @private
+   */
+  private async historyFromArgs(): Promise<CommandOutcome> {
+    const since = this.args.since ? this.parseSinceTime(this.args.since, '--since') : undefined;
+    const until = this.args.until ? this.parseSinceTime(this.args.until, '--until') : undefined;
+    const entries = await this.historyController.historyFromArgs(
+      {
+        operation: this.args.operation,
+        source: this.args.source,
+        target: this.args.target,
+        since,
+        until,
+        outcome: this.args.failed ? 'failure' : undefined,
+      },
+      this.printsJsonEntries(),
+    );
+    return { entries };
+  }
+
+  /**
+   * Runs the scheduled backup presets until SIGINT or SIGTERM; running backups are allowed to finish.
+   * @private
+   */
+  private async daemonFromArgs(): Promise<void> {
+    const abortController = new AbortController();
+    const stop = (signal: NodeJS.Signals) => {
+      this.logger.info(`Received ${signal}.`);
+      abortController.abort();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+    await this.preflight();
+    await this.daemonController.start(abortController.signal);
+  }
+
+  /**
+   * Performs a copy (mongodump piped into mongorestore) based on non-interactive arguments.
+   * @private
+   */
+  private async copyFromArgs(): Promise<void> {
+    if (!this.args.source || !this.args.target) {
+      throw new ConfigError('--source and --target are required for copy mode.');
+    }
+    const backupMode = this.args.backupMode || 'all';
+    const collections = this.args.collections || [];
+
+    const filters = this.parseBackupFilters(backupMode, collections);
+
+    if (backupMode === 'include' && collections.length === 0) {
+      throw new ConfigError('Mode "include" requires a list of collections via --collections.');
+    }
+
+    await this.preflight();
+    await this.copyController.copyFromArgs(this.args.source, this.args.target, backupMode, collections, filters, {
+      drop: this.args.drop || false,
+      renameCollections: this.args.renameCollections,
+      saveArchive: this.args.saveArchive || false,
+      confirmProtected: this.args.confirmProtected || false,
+    });
+  }
+
+  /** Checks that a document filter flag is combined with include mode and at least one collection */
+  private validateFilteredSelection(
+    flag: string,
+    backupMode: 'all' | 'include' | 'exclude',
+    collections: string[],
+  ): void {
+    if (backupMode !== 'include') {
+      throw new ConfigError(`${flag} can only be used with --scope=include.`);
+    }
+    if (collections.length === 0) {
+      throw new ConfigError(`${flag} requires the collections to be specified via --collections.`);
+    }
+    this.logger.info(`Validated: ${flag} will be applied to collections: ${collections.join(', ')}`);
+  }
+
+  /**
+   * Parses and validates the document filter flags (--since-time, --until-time, --since-field, --query).
+   * @throws A `ConfigError` if a flag is invalid.
+   */
+  private parseBackupFilters(backupMode: 'all' | 'include' | 'exclude', collections: string[]): BackupFilters {
+    const { sinceTime, untilTime, sinceField, queries } = this.args;
+
+    let startTime: Date | undefined = undefined;
+    if (sinceTime) {
+      startTime = this.parseSinceTime(sinceTime);
+      this.validateFilteredSelection('--since-time', backupMode, collections);
+    }
+
+    let endTime: Date | undefined = undefined;
+    if (untilTime) {
+      endTime = this.parseSinceTime(untilTime, '--until-time');
+      this.validateFilteredSelection('--until-time', backupMode, collections);
+      if (startTime && endTime <= startTime) {
+        throw new ConfigError('--until-time must be later than --since-time.');
+      }
+    }
+
+    if (sinceField && !startTime && !endTime) {
+      throw new ConfigError('--since-field requires --since-time and/or --until-time.');
+    }
+
+    if (queries) {
+      this.validateFilteredSelection('--query', backupMode, collections);
+    }
+
+    return { startTime, endTime, timeField: sinceField, queries };
+  }
+
+  /**
+   * Parses a time argument (--since-time by default) string into a Date object
+   * @throws A `ConfigError` if the argument is neither an ISO 8601 date nor a relative duration.
+   */
+  private parseSinceTime(sinceArg: string, flag: string = '--since-time'): Date {
     // Try parsing as ISO 8601 first
     let date = parseISO(sinceArg);
     if (isValid(date)) {
-      this.logger.info(`Parsed --since-time as ISO date: ${date.toISOString()}`);
+      this.logger.info(`Parsed ${flag} as ISO date: ${date.toISOString()}`);
       return date;
     }
 
     // Try parsing relative durations (e.g., "1d", "7d", "3h", "1w")
-    const durationMatch = sinceArg.match(/^(\d+)([dhwMy])$/i); // Match d, h, w, M, y
+    // Match d, h, w, M, y; only months are case-sensitive, "m" is not a unit
+    const durationMatch = sinceArg.match(/^(\d+)([dDhHwWyY]|M)$/);
     if (durationMatch) {
       const value = parseInt(durationMatch[1], 10);
-      const unit = durationMatch[2].toLowerCase();
+      const unit = durationMatch[2] === 'M' ? 'M' : durationMatch[2].toLowerCase();
       const now = new Date();
       try {
         // Wrap date-fns calls in try-catch
@@ -209,138 +703,18 @@ export class CLIMode {
           date = subYears(now, value);
         }
         if (isValid(date)) {
-          this.logger.info(`Parsed --since-time as ${value}${unit} ago: ${date.toISOString()}`);
+          this.logger.info(`Parsed ${flag} as ${value}${unit} ago: ${date.toISOString()}`);
           return date;
         } else {
           throw new Error('Resulting date is invalid');
         }
       } catch (e) {
-        this.logger.error(`Error calculating relative date for ${sinceArg}: ${e}`);
-        return undefined;
+        throw new ConfigError(`Error calculating relative date for ${sinceArg}: ${e}`);
       }
     }
 
-    this.logger.error(
-      `Error: Invalid format for --since-time argument: "${sinceArg}". Use ISO 8601 or relative duration (e.g., "1d", "3h", "2w", "1M").`,
+    throw new ConfigError(
+      `Invalid format for ${flag} argument: "${sinceArg}". Use ISO 8601 or relative duration (e.g., "1d", "3h", "2w", "1M").`,
     );
-    return undefined; // Indicate parsing failure
-  }
-
-  private parseCommandLineArgs(configPath: string): CommandLineArgs {
-    const args = process.argv.slice(2);
-
-    let action: 'backup' | 'restore' | undefined;
-    let source: string | undefined;
-    let scope: 'all' | 'include' | 'exclude' | undefined;
-    let collections: string[] | undefined;
-    let preset: string | undefined;
-    let backupFile: string | undefined;
-    let target: string | undefined;
-    let drop: boolean = false;
-    let sinceTime: string | undefined;
-
-    for (let i = 0; i < args.length; i++) {
-      const arg = args[i];
-
-      if (arg.startsWith('--config=')) {
-        configPath = arg.split('=')[1];
-        continue;
-      }
-
-      if (arg === '--backup' || arg === '--action=backup') {
-        action = 'backup';
-        continue;
-      }
-
-      if (arg === '--restore' || arg === '--action=restore') {
-        action = 'restore';
-        continue;
-      }
-
-      if (arg.startsWith('--source=')) {
-        source = arg.split('=')[1];
-        continue;
-      }
-
-      if (arg.startsWith('--scope=')) {
-        const scopeValue = arg.split('=')[1];
-        if (['all', 'include', 'exclude'].includes(scopeValue)) {
-          scope = scopeValue as 'all' | 'include' | 'exclude';
-        } else {
-          this.logger.warn(`Invalid --backupMode value: ${scope}. Using default.`);
-        }
-        continue;
-      }
-
-      if (arg.startsWith('--collections=')) {
-        collections = arg
-          .split('=')[1]
-          .split(',')
-          .map((c) => c.trim())
-          .filter((c) => c);
-        continue;
-      }
-
-      if (arg.startsWith('--preset=')) {
-        preset = arg.split('=')[1];
-        continue;
-      }
-
-      if (arg.startsWith('--file=') || arg.startsWith('--backupFile=')) {
-        backupFile = arg.split('=')[1];
-        continue;
-      }
-
-      if (arg.startsWith('--target=')) {
-        target = arg.split('=')[1];
-        continue;
-      }
-
-      if (arg === '--drop') {
-        drop = true;
-        continue;
-      }
-
-      if (arg.startsWith('--since-time=')) {
-        sinceTime = arg.split('=')[1];
-        continue;
-      }
-      if (arg === '--since-time' && i + 1 < args.length) {
-        sinceTime = args[i + 1];
-        i++;
-        continue;
-      }
-
-      if (arg.startsWith('--')) {
-        this.logger.warn(`Warning: Unknown argument detected: ${arg}`);
-      }
-    }
-
-    if (action === 'backup' && !source && !preset) {
-      this.logger.error('Error: --source or --preset is required for backup mode in non-interactive run.');
-      process.exit(1);
-    }
-    if (action === 'restore' && !target && !preset) {
-      this.logger.error('Error: --target or --preset is required for restore mode in non-interactive run.');
-      process.exit(1);
-    }
-    if (action === 'restore' && !backupFile && !preset) {
-      this.logger.error('Error: --backupFile is required for restore mode when not using a preset.');
-      process.exit(1);
-    }
-
-    return {
-      mode: action,
-      interactive: false,
-      source,
-      backupMode: scope,
-      collections,
-      preset,
-      backupFile,
-      target,
-      drop,
-      sinceTime,
-      configPath,
-    };
   }
 }
@@ -1,5 +1,6 @@
 import { BackupController } from '@modules/backup/controllers/backup-controller';
 import { PresetController } from '@modules/prompt/controllers/preset-controller';
+import { ConnectionController } from '@modules/prompt/controllers/connection-controller';
 import { RestoreController } from '@modules/restore/controllers/restore-controller';
 import { BackupService } from '@modules/backup/services/backup.service';
 import { Config } from '@config/config';
@@ -11,6 +12,11 @@ import { AppConfig } from '@ts-types/mixed';
 import { Logger } from '@infrastructure/logger';
 import { UpdateableConfig } from '@config/updateable-config';
 import { RestoreService } from '@modules/restore/services/restore.service';
+import { CopyController } from '@modules/copy/controllers/copy-controller';
+import { CopyService } from '@modules/copy/services/copy.service';
+import { RetentionController } from '@modules/retention/controllers/retention-controller';
+import { RetentionService } from '@modules/retention/services/retention.service';
+import { ToolsService } from '@modules/tools/services/tools.service';
 
 export class InteractiveMode {
   private appConfigParsed: AppConfig;
@@ -19,6 +25,10 @@ export class InteractiveMode {
   private backupController: BackupController;
   private restoreController: RestoreController;
   private presetController: PresetController;
+  private connectionController: ConnectionController;
+  private copyController: CopyController;
+  private retentionController: RetentionController;
+  private toolsService: ToolsService;
   private logger: Logger = new Logger({ prefix: InteractiveMode.name });
 
   constructor(configPath: string) {
@@ -49,20 +59,50 @@ export class InteractiveMode {
       backupService,
       this.promptService,
       restoreService,
+      mongoService,
       new Logger({ prefix: RestoreController.name }),
     );
 
+    this.copyController = new CopyController(
+      this.appConfigParsed,
+      this.promptService,
+      mongoService,
+      new CopyService(this.appConfigParsed, restoreService, new Logger({ prefix: CopyService.name })),
+      new Logger({ prefix: CopyController.name }),
+    );
+
+    this.retentionController = new RetentionController(
+      this.appConfigParsed,
+      new RetentionService(this.appConfigParsed, backupService, new Logger({ prefix: RetentionService.name })),
+      this.promptService,
+      new Logger({ prefix: RetentionController.name }),
+    );
+
+    this.toolsService = new ToolsService(this.appConfigParsed, new Logger({ prefix: ToolsService.name }));
+
     this.presetController = new PresetController(
       updateableConfig,
       this.promptService,
       new Logger({ prefix: PresetController.name }),
     );
+
+    this.connectionController = new ConnectionController(
+      updateableConfig,
+      this.promptService,
+      mongoService,
+      new Logger({ prefix: ConnectionController.name }),
+    );
   }
 
   async run(): Promise<void> {
+    // Only warns, since some actions (e.g. pruning) need no tools
+    await this.toolsService.checkAll([{ tool: 'mongodump' }, { tool: 'mongorestore' }]);
+
     const actions: Record<string, () => Promise<void>> = {
       backup: () => this.backupController.backupDatabase(),
       restore: () => this.restoreController.restoreDatabaseInteractively(),
+      copy: () => this.copyController.copyInteractively(),
+      prune: () => this.retentionController.pruneInteractively(),
       preset_create: async () => {
         const preset = await this.presetController.createPresetInteractively();
         if (preset && (await this.promptService.askRunPresetNow())) {
@@ -70,11 +110,17 @@ export class InteractiveMode {
         }
       },
       preset_manage: async () => {
-        const preset = await this.presetController.managePresetsFlow();
-        if (preset && (await this.promptService.askRunPresetNow())) {
-          await this.backupController.useBackupPreset(preset);
+        const selection = await this.presetController.managePresetsFlow();
+        if (!selection || !(await this.promptService.askRunPresetNow())) {
+          return;
+        }
+        if (selection.type === 'backup') {
+          await this.backupController.useBackupPreset(selection.preset);
+        } else {
+          await this.restoreController.useRestorePreset(selection.preset, { confirm: true });
         }
       },
+      connection_manage: () => this.connectionController.manageConnectionsFlow(),
     };
 
     let exit = false;
@@ -0,0 +1,64 @@
+/**
+ * Failure classes of the application. Each has a stable code and a process exit code of its own,
+ * so scripts can tell a bad config from an unreachable server or a failed mongodump without parsing messages.
+ */
+export class AppError extends Error {
+  /**
+   * @param code - Stable identifier of the failure class (e.g. `CONNECTION_ERROR`).
+   * @param exitCode - The exit code of the CLI when the command fails with this error.
+   */
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly exitCode: number,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Invalid or incomplete configuration or command line arguments (exit code 2). */
+export class ConfigError extends AppError {
+  constructor(message: string) {
+    super(message, 'CONFIG_ERROR', 2);
+  }
+}
+
+/** A MongoDB server or SSH host could not be reached or refused the credentials (exit code 3). */
+export class ConnectionError extends AppError {
+  constructor(message: string) {
+    super(message, 'CONNECTION_ERROR', 3);
+  }
+}
+
+/** mongodump is missing or too old, could not be started or exited with an error (exit code 4). */
+export class MongodumpError extends AppError {
+  constructor(message: string) {
+    super(message, 'MONGODUMP_FAILED', 4);
+  }
+}
+
+/** mongorestore is missing or too old, could not be started or exited with an error (exit code 5). */
+export class MongorestoreError extends AppError {
+  constructor(message: string) {
+    super(message, 'MONGORESTORE_FAILED', 5);
+  }
+}
+
+/** An archive does not match its checksum or a restored target does not match the backup metadata (exit code 6). */
+export class VerificationError extends AppError {
+  constructor(message: string) {
+    super(message, 'VERIFICATION_FAILED', 6);
+  }
+}
+
+/**
+ * Describes any thrown value by its failure class.
+ * @returns The code and exit code of an `AppError`, or `UNEXPECTED_ERROR` with exit code 1 for anything else.
+ */
+export function describeError(error: unknown): { code: string; exitCode: number; message: string } {
+  if (error instanceof AppError) {
+    return { code: error.code, exitCode: error.exitCode, message: error.message };
+  }
+  return { code: 'UNEXPECTED_ERROR', exitCode: 1, message: error instanceof Error ? error.message : String(error) };
+}
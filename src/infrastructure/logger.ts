@@ -1,18 +1,42 @@
 import ora, { Ora } from 'ora';
 import chalk from 'chalk';
 
+import { AppError } from './errors';
+
+/** A line of `format: 'json'` output (one JSON object per line on stderr). */
+export interface LogEvent {
+  /** ISO 8601 string of when the event was logged. */
+  time: string;
+  /** `progress` replaces the spinner; `command` carries a mongodump/mongorestore invocation, `output` plain output. */
+  event: 'info' | 'warn' | 'error' | 'debug' | 'progress' | 'command' | 'output';
+  /** The logger prefix, usually the class that logged. */
+  source: string;
+  message: string;
+  /** For progress events: whether a step started, changed, succeeded or failed. */
+  status?: 'start' | 'update' | 'succeed' | 'fail';
+  /** The failure class, when an `AppError` was logged. */
+  code?: string;
+}
+
 export class Logger {
   spinner: Ora | null = null;
   private isDebugEnabled: boolean;
   private prefix: string;
+  private isQuiet: boolean;
+  private isJson: boolean;
   /**
    * Creates an instance of Logger.
    * @param options - Configuration options for the logger.
    * @param options.debug - Enable debug logging (default: false).
+   * @param options.quiet - Suppress informational messages, e.g. when stdout carries machine-readable output (default: false).
+   * @param options.format - `json` writes every message as a `LogEvent` line to stderr instead of colored text,
+   * and spinners become progress events (default: 'text').
    */
-  constructor(options: { debug?: boolean; prefix?: string } = {}) {
+  constructor(options: { debug?: boolean; prefix?: string; quiet?: boolean; format?: 'text' | 'json' } = {}) {
     this.isDebugEnabled = options.debug ?? false;
     this.prefix = options.prefix ?? '';
+    this.isQuiet = options.quiet ?? false;
+    this.isJson = options.format === 'json';
   }
 
   extendPrefix(extendString: string) {
@@ -26,6 +50,13 @@ export class Logger {
    * @param messages - The message(s) to log.
    */
   info(...messages: any[]): void {
+    if (this.isQuiet) {
+      return;
+    }
+    if (this.isJson) {
+      this.emit('info', messages);
+      return;
+    }
     const formattedMessage = messages.map((msg) => `${chalk.green(`[${this.prefix}]`)} ${chalk.blue(msg)}`).join(' ');
 
     if (this.spinner?.isSpinning) {
@@ -37,6 +68,10 @@ export class Logger {
   }
 
   snippet(codeString: string): void {
+    if (this.isJson) {
+      this.emit('command', [codeString]);
+      return;
+    }
     const lines = codeString.split('\n');
     const maxLength = Math.max(...lines.map((line) => line.length));
     const borderLength = Math.min(maxLength + 2, 20);
@@ -55,6 +90,10 @@ export class Logger {
    * @param messages - The warning message(s).
    */
   warn(...messages: any[]): void {
+    if (this.isJson) {
+      this.emit('warn', messages);
+      return;
+    }
     const formattedMessage = messages.map((msg) => `${chalk.green(`[${this.prefix}]`)} ${chalk.yellow(msg)}`).join(' ');
 
     if (this.spinner?.isSpinning) {
@@ -71,6 +110,10 @@ export class Logger {
    * @param messages - The error message(s) or Error object(s).
    */
   error(...messages: any[]): void {
+    if (this.isJson) {
+      this.emit('error', messages);
+      return;
+    }
     const formattedMessages = messages
       .map((msg) => {
         if (msg instanceof Error) {
@@ -103,6 +146,10 @@ export class Logger {
     if (!this.isDebugEnabled) {
       return;
     }
+    if (this.isJson) {
+      this.emit('debug', messages);
+      return;
+    }
     const formattedMessage = messages
       .map((msg) => `${chalk.green(`[${this.prefix}]`)} ${chalk.grey(`[Debug] ${msg}`)}`)
       .join(' ');
@@ -122,6 +169,10 @@ export class Logger {
    * @param message - The initial message for the spinner.
    */
   startSpinner(message: string): void {
+    if (this.isJson) {
+      this.emit('progress', [message], 'start');
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.stop(); // Stop previous spinner
     }
@@ -130,10 +181,14 @@ export class Logger {
 
   /**
    * Updates the text of the active spinner.
-   * Does nothing if no spinner is active.
+   * Does nothing if no spinner is active (in JSON format, every update is a progress event).
    * @param message - The new message for the spinner.
    */
   updateSpinner(message: string): void {
+    if (this.isJson) {
+      this.emit('progress', [message], 'update');
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.text = `${chalk.green(`[${this.prefix}]`)} ${message}`;
     }
@@ -155,6 +210,10 @@ export class Logger {
    * @param message - Optional final message.
    */
   succeedSpinner(message?: string): void {
+    if (this.isJson) {
+      if (message) this.emit('progress', [message], 'succeed');
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.succeed(message ? `${chalk.green(`[${this.prefix}]`)} ${message}` : undefined);
       this.spinner = null;
@@ -166,6 +225,10 @@ export class Logger {
    * @param message - Optional final message.
    */
   failSpinner(message?: string): void {
+    if (this.isJson) {
+      if (message) this.emit('progress', [message], 'fail');
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.fail(message ? `${chalk.green(`[${this.prefix}]`)} ${message}` : undefined);
       this.spinner = null;
@@ -179,6 +242,10 @@ export class Logger {
    * @param symbol - The symbol to use (e.g., 'ℹ️').
    */
   persistSpinnerInfo(text: string, symbol = 'ℹ️'): void {
+    if (this.isJson) {
+      this.emit('info', [text]);
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.stopAndPersist({ text: `${chalk.green(`[${this.prefix}]`)} ${text}`, symbol });
       this.spinner = null;
@@ -191,6 +258,10 @@ export class Logger {
    * @param data - The data to log.
    */
   logRaw(data: any): void {
+    if (this.isJson) {
+      this.emit('output', [data]);
+      return;
+    }
     if (this.spinner?.isSpinning) {
       this.spinner.stop();
       console.log(`${chalk.green(`[${this.prefix}]`)} ${data}`);
@@ -199,4 +270,33 @@ export class Logger {
       console.log(`${chalk.green(`[${this.prefix}]`)} ${data}`);
     }
   }
+
+  /**
+   * Prints preformatted text such as a table to stdout, without prefix or colors.
+   * In JSON format, the text becomes an output event on stderr, keeping stdout for the command result.
+   * @param text - The text to print.
+   */
+  print(text: string): void {
+    if (this.isJson) {
+      this.emit('output', [text]);
+      return;
+    }
+    if (this.spinner?.isSpinning) {
+      this.spinner.stop();
+      console.log(text);
+      this.spinner.start();
+    } else {
+      console.log(text);
+    }
+  }
+
+  /** Writes one `LogEvent` line to stderr. Objects are serialized; errors contribute their message and code. */
+  private emit(event: LogEvent['event'], messages: any[], status?: LogEvent['status']): void {
+    const message = messages
+      .map((msg) => (msg instanceof Error ? msg.message : typeof msg === 'object' ? JSON.stringify(msg) : String(msg)))
+      .join(' ');
+    const code = messages.find((msg): msg is AppError => msg instanceof AppError)?.code;
+    const logEvent: LogEvent = { time: new Date().toISOString(), event, source: this.prefix, message, status, code };
+    process.stderr.write(`${JSON.stringify(logEvent)}\n`);
+  }
 }
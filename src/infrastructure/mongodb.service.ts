@@ -1,14 +1,15 @@
-import { MongoClient, Db, ListCollectionsCursor } from 'mongodb';
+import { MongoClient, Db, ListCollectionsCursor, BSON } from 'mongodb';
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
 import { Logger } from '@infrastructure/logger';
+import { ConnectionError } from '@infrastructure/errors';
 import { createTunnel } from 'tunnel-ssh';
 import type { Server } from 'net';
 import { parseMongoUri } from '@utils/parse-mongo-uri';
-import { ConnectionConfig, SSHConfig } from '@ts-types/mixed';
+import { CollectionQueries, CollectionStats, ConnectionConfig, SSHConfig } from '@ts-types/mixed';
 
 /**
  * Provides services for connecting to MongoDB instances,
@@ -62,7 +63,7 @@ export class MongoDBService {
       }
       this.client = null;
       // Re-throw the original error or a new error with context
-      throw new Error(`[${connectionConfig.name}] Connection failed.`);
+      throw new ConnectionError(`[${connectionConfig.name}] Connection failed: ${error.message ?? error}`);
     }
   }
 
@@ -130,6 +131,74 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Collects the document count, storage size, indexes and options of the given collections.
+   * Views are skipped, as they hold no documents or indexes of their own.
+   * Requires an active connection (call connect() first).
+   *
+   * @param dbName - The name of the database holding the collections.
+   * @param collectionNames - The collections to describe; names that do not exist are skipped.
+   * @param queries - Optional Extended JSON filters per collection; matching documents are counted exactly.
+   * @returns A promise resolving to the statistics of every existing collection, in the given order.
+   * @throws An error if not connected or if listing collections fails.
+   */
+  async getCollectionStats(
+    dbName: string,
+    collectionNames: string[],
+    queries: CollectionQueries = {},
+  ): Promise<CollectionStats[]> {
+    const db = this.getDb(dbName);
+    const infos = await db.listCollections({ name: { $in: collectionNames } }).toArray();
+
+    const stats: CollectionStats[] = [];
+    for (const name of collectionNames) {
+      const info = infos.find((i) => i.name === name);
+      if (!info || info.type === 'view') {
+        continue;
+      }
+      const collection = db.collection(name);
+      const query = queries[name];
+      const documentCount = query
+        ? await collection.countDocuments(BSON.EJSON.deserialize(query))
+        : await collection.estimatedDocumentCount();
+      const indexes = (await collection.indexes()).map(({ name: indexName, key, v: _v, ns: _ns, ...options }) => ({
+        name: indexName!,
+        key: BSON.EJSON.serialize(key, { relaxed: true }),
+        options: Object.keys(options).length > 0 ? BSON.EJSON.serialize(options, { relaxed: true }) : undefined,
+      }));
+      const collectionOptions = 'options' in info && info.options ? info.options : {};
+
+      stats.push({
+        name,
+        documentCount,
+        filtered: query ? true : undefined,
+        storageSize: await this.getStorageSize(db, name),
+        indexes,
+        options:
+          Object.keys(collectionOptions).length > 0
+            ? BSON.EJSON.serialize(collectionOptions, { relaxed: true })
+            : undefined,
+      });
+    }
+    return stats;
+  }
+
+  /**
+   * Asks the connected server what it is: a replica set member, a mongos router or a standalone server.
+   * Requires an active connection (call connect() first).
+   *
+   * @returns The kind of server, from the `hello` (or, before MongoDB 4.4.2, `isMaster`) response.
+   * @throws An error if not connected or if the server does not answer.
+   */
+  async getServerKind(): Promise<'replicaSet' | 'mongos' | 'standalone'> {
+    const admin = this.getDb('admin');
+    const hello = await admin.command({ hello: 1 }).catch(() => admin.command({ isMaster: 1 }));
+    if (hello.setName) {
+      return 'replicaSet';
+    }
+    return hello.msg === 'isdbgrid' ? 'mongos' : 'standalone';
+  }
+
   getClient(): MongoClient | null {
     return this.client;
   }
@@ -142,6 +211,24 @@ export class MongoDBService {
     return this.client.db(databaseName);
   }
 
+  /**
+   * Reads the storage size of a collection via `$collStats`.
+   * @returns The size in bytes, or undefined if the server does not report it (e.g. missing privileges).
+   */
+  private async getStorageSize(db: Db, collectionName: string): Promise<number | undefined> {
+    try {
+      // Sharded collections report one document per shard
+      const shards = await db
+        .collection(collectionName)
+        .aggregate([{ $collStats: { storageStats: {} } }])
+        .toArray();
+      return shards.reduce((sum, shard) => sum + Number(shard.storageStats?.storageSize ?? 0), 0);
+    } catch (error: any) {
+      this.logger.debug(`Could not read storage size of "${collectionName}": ${error.message}`);
+      return undefined;
+    }
+  }
+
   /**
    * Builds a MongoDB connection URI string from a ConnectionConfig object.
    * Prioritizes the `uri` field if present, otherwise constructs from components.
@@ -405,7 +492,7 @@ export class MongoDBService {
           this.sshTunnelServer = null;
         }
       }
-      throw new Error(`[${config.name}] SSH tunnel or MongoDB connection failed.`);
+      throw new Error(`[${config.name}] SSH tunnel or MongoDB connection failed: ${error.message ?? error}`);
     }
   }
 }
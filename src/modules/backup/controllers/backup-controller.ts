@@ -7,8 +7,14 @@ import { MongoDBService } from '@infrastructure/mongodb.service';
 import { PromptService } from '@modules/prompt/services/prompt-service';
 
 import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
 import { AppConfig, BackupMetadata, BackupPreset, ConnectionConfig } from '@ts-types/mixed';
 import { BackupService } from '../services/backup.service';
+import { CollectionStatsService } from '../services/collection-stats.service';
+import { JournalService } from '@modules/journal/services/journal.service';
+import type { BackupArgs, BackupFilters } from '../interfaces/backup-args.interface';
+import { Dump } from '../domain/dump';
+import { describeTimeWindow } from '@utils/describe-time-window';
 
 /**
  * Manages the backup process, coordinating user prompts, backup service, and metadata generation.
@@ -20,6 +26,8 @@ export class BackupController {
     private readonly mongoService: MongoDBService,
     private readonly backupService: BackupService,
     private readonly logger: Logger,
+    private readonly collectionStats: CollectionStatsService = new CollectionStatsService(config, mongoService, logger),
+    private readonly journal: JournalService = new JournalService(config, logger),
   ) {}
 
   /**
@@ -29,6 +37,8 @@ export class BackupController {
   async backupDatabase(): Promise<void> {
     this.logger.startSpinner('Starting interactive backup...');
     let source: ConnectionConfig | undefined;
+    let startedAt: string | undefined;
+    let journalOptions: Record<string, unknown> = {};
     try {
       this.logger.stopSpinner();
 
@@ -38,13 +48,17 @@ export class BackupController {
         excludedCollections: intendedExcluded,
         selectionMode: intendedMode,
         startTime,
+        endTime,
+        timeField,
+        queries,
       } = await this.promptService.askBackupConfig();
       source = promptedSource;
+      const filters: BackupFilters = { startTime, endTime, timeField, queries };
 
       this.logger.startSpinner(`Preparing backup for ${source.name}...`);
       if (startTime) {
         this.logger.updateSpinner(
-          `Preparing backup for ${source.name}, collection ${intendedIncluded[0]} (since ${startTime.toISOString()})...`,
+          `Preparing backup for ${source.name}, collections ${intendedIncluded.join(', ')} (since ${startTime.toISOString()})...`,
         );
       }
 
@@ -52,20 +66,42 @@ export class BackupController {
         intendedMode,
         intendedIncluded,
         intendedExcluded,
-        startTime,
+        filters,
         source,
         'interactive',
       );
       const collectionsListForMetadata = intendedIncluded.length > 0 ? intendedIncluded : intendedExcluded;
 
       this.logger.stopSpinner();
-      const backupFilename = await this.backupService.createBackup(
-        source,
-        actualSelected,
-        actualExcluded,
-        actualMode,
-        startTime,
-      );
+      await this.printBackupPlan(source, {
+        mode: actualMode,
+        selectedCollections: actualSelected,
+        excludedCollections: actualExcluded,
+        ...filters,
+      });
+      if (!(await this.promptService.askConfirmPlan('backup'))) {
+        this.logger.info('Backup cancelled.');
+        return;
+      }
+      startedAt = new Date().toISOString();
+      journalOptions = this.describeJournalOptions(intendedMode, collectionsListForMetadata, filters);
+      this.logger.startSpinner(`Preparing backup for ${source.name}...`);
+
+      this.logger.updateSpinner(`Collecting collection statistics for ${source.name}...`);
+      const collectionStats = await this.collectionStats.capture(source, {
+        mode: actualMode,
+        selectedCollections: actualSelected,
+        excludedCollections: actualExcluded,
+        ...filters,
+      });
+
+      this.logger.stopSpinner();
+      const {
+        archivePath: backupFilename,
+        parts,
+        sha256,
+        size,
+      } = await this.backupService.createBackup(source, actualSelected, actualExcluded, actualMode, filters);
 
       this.logger.startSpinner(`Saving metadata for ${backupFilename}...`);
       const now = new Date();
@@ -80,12 +116,23 @@ export class BackupController {
         archivePath: path.basename(backupFilename),
         presetName: undefined,
         queryStartTime: startTime ? startTime.toISOString() : undefined,
+        queryEndTime: endTime?.toISOString(),
+        queryTimeField: timeField,
+        queries,
+        parts,
+        sha256,
+        size,
+        collections: collectionStats,
       };
       const metadataPath = `${backupFilename}.json`;
       fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
 
+      this.recordInJournal(startedAt, source.name, journalOptions, { archive: metadata.archivePath });
       this.logger.succeedSpinner(`Backup created successfully: ${backupFilename} | Metadata saved: ${metadataPath}`);
     } catch (error: any) {
+      if (startedAt && source) {
+        this.recordInJournal(startedAt, source.name, journalOptions, { error: error.message });
+      }
       if (this.logger.spinner?.isSpinning) {
         this.logger.failSpinner(`Interactive backup failed: ${error.message}`);
       } else {
@@ -105,16 +152,30 @@ export class BackupController {
   /**
    * Executes a backup using a predefined preset.
    * @param preset - The backup preset configuration.
+   * @param dryRun - Only print the resolved collections, mongodump invocation and archive path.
+   * @param incremental - Only back up the documents added since the preset's previous backup of the source
+   * (on `_id`, or on the preset's `queryTimeField`). Without a previous backup a full backup starts the chain.
+   * @param oplog - Take a consistent snapshot with the oplog (replica set sources, mode 'all'). Incremental backups
+   * on top of a parent are filtered per collection and are taken without it.
+   * @returns The metadata of the created backup, or undefined for a dry run.
    */
-  async useBackupPreset(preset: BackupPreset): Promise<void> {
+  async useBackupPreset(
+    preset: BackupPreset,
+    dryRun: boolean = false,
+    incremental: boolean = preset.incremental ?? false,
+    oplog: boolean = preset.oplog ?? false,
+  ): Promise<BackupMetadata | undefined> {
     this.logger.startSpinner(`Loading preset "${preset.name}"...`);
     let source: ConnectionConfig | undefined;
     let startTime: Date | undefined; // Variable to hold parsed start time
+    let endTime: Date | undefined;
+    let parent: BackupMetadata | undefined;
+    const startedAt = new Date().toISOString();
 
     try {
       source = this.config.connections.find((c) => c.name === preset.sourceName);
       if (!source) {
-        throw new Error(
+        throw new ConfigError(
           `Source connection "${preset.sourceName}" defined in preset "${preset.name}" not found in config.`,
         );
       }
@@ -124,39 +185,82 @@ export class BackupController {
       let actualMode: 'all' | 'include' | 'exclude' = 'all';
       let actualSelected: string[] = [];
       let actualExcluded: string[] = [];
-      const collections = preset.collections || [];
-      let collectionsListForMetadata = collections;
+      let collections = preset.collections || [];
+      const collectionsListForMetadata = collections;
 
-      if (preset.queryStartTime && preset.selectionMode === 'include' && collections.length === 1) {
-        startTime = parseISO(preset.queryStartTime);
-        if (!isValid(startTime)) {
-          this.logger.warn(
-            `Invalid queryStartTime format "${preset.queryStartTime}" in preset "${preset.name}". Ignoring time filter.`,
+      const queries = preset.queries && Object.keys(preset.queries).length > 0 ? preset.queries : undefined;
+
+      if (incremental) {
+        parent = this.backupService.findLatestPresetBackup(preset.name, source.name);
+        if (!parent) {
+          this.logger.info(
+            `No previous backup of preset "${preset.name}"; a full backup starts the incremental chain.`,
           );
-          startTime = undefined;
         }
       }
 
+      if (parent) {
+        // The window stays open at the end: documents written during this dump are caught by the next one too
+        startTime = new Date(parent.dumpStartedAt ?? parent.date);
+        this.logger.info(
+          `Incremental backup on top of ${parent.archivePath}: documents since ${startTime.toISOString()}`,
+        );
+        if (preset.selectionMode !== 'include') {
+          collections = await this.resolvePresetCollections(preset, source);
+        }
+        if (oplog) {
+          this.logger.info('The oplog is only captured by the full backup of an incremental chain.');
+          oplog = false;
+        }
+      } else if (preset.selectionMode === 'include' && collections.length > 0) {
+        startTime = this.parsePresetTime(preset, 'queryStartTime');
+        endTime = this.parsePresetTime(preset, 'queryEndTime');
+      }
+      const timeField = startTime || endTime ? preset.queryTimeField : undefined;
+      const filters: BackupFilters = { startTime, endTime, timeField, queries };
+
       ({ actualMode, actualSelected, actualExcluded } = await this.getActualBackupParams(
         preset.selectionMode,
         collections,
         collections,
-        startTime,
+        filters,
         source,
         `preset:${preset.name}`,
       ));
-      collectionsListForMetadata = collections;
+      if (oplog) {
+        await this.assertOplogSupported(source);
+      }
+
+      if (dryRun) {
+        this.logger.stopSpinner();
+        await this.printBackupPlan(source, {
+          mode: actualMode,
+          selectedCollections: actualSelected,
+          excludedCollections: actualExcluded,
+          ...filters,
+          oplog,
+        });
+        return undefined;
+      }
+
+      this.logger.updateSpinner(`Collecting collection statistics for ${source.name}...`);
+      const collectionStats = await this.collectionStats.capture(source, {
+        mode: actualMode,
+        selectedCollections: actualSelected,
+        excludedCollections: actualExcluded,
+        ...filters,
+      });
 
       this.logger.stopSpinner();
       this.logger.info('Creating backup with preset');
       this.logger.info(preset);
-      const backupFilename = await this.backupService.createBackup(
-        source,
-        actualSelected,
-        actualExcluded,
-        actualMode,
-        startTime,
-      );
+      const dumpStartedAt = new Date();
+      const {
+        archivePath: backupFilename,
+        parts,
+        sha256,
+        size,
+      } = await this.backupService.createBackup(source, actualSelected, actualExcluded, actualMode, filters, oplog);
 
       this.logger.startSpinner(`Saving metadata for preset backup ${backupFilename}...`);
       const now = new Date();
@@ -171,14 +275,52 @@ export class BackupController {
         archivePath: path.basename(backupFilename),
         presetName: preset.name,
         queryStartTime: startTime?.toISOString(),
+        queryEndTime: endTime?.toISOString(),
+        queryTimeField: timeField,
+        queries,
+        parts,
+        sha256,
+        size,
+        collections: collectionStats,
+        parent: parent?.archivePath,
+        dumpStartedAt: dumpStartedAt.toISOString(),
+        oplog: oplog ? { startedAt: dumpStartedAt.toISOString(), finishedAt: now.toISOString() } : undefined,
       };
       const metadataPath = `${backupFilename}.json`;
       fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
 
+      this.recordInJournal(
+        startedAt,
+        source.name,
+        {
+          ...this.describeJournalOptions(preset.selectionMode, collectionsListForMetadata, filters, preset.name),
+          parent: parent?.archivePath,
+          oplog: oplog || undefined,
+        },
+        { archive: metadata.archivePath },
+      );
       this.logger.succeedSpinner(
         `Preset backup "${preset.name}" created successfully: ${backupFilename} | Metadata saved: ${metadataPath}`,
       );
+      return metadata;
     } catch (error: any) {
+      if (!dryRun) {
+        this.recordInJournal(
+          startedAt,
+          preset.sourceName,
+          {
+            ...this.describeJournalOptions(
+              preset.selectionMode,
+              preset.collections ?? [],
+              { startTime, endTime },
+              preset.name,
+            ),
+            parent: parent?.archivePath,
+            oplog: oplog || undefined,
+          },
+          { error: error.message },
+        );
+      }
       this.logger.failSpinner(`Backup from preset "${preset.name}" failed: ${error.message}`);
       throw error; // Re-throw for handling in mongodb-app.ts
     } finally {
@@ -194,39 +336,72 @@ export class BackupController {
    * @param sourceName - Name of the source connection.
    * @param backupMode - The mode specified ('all', 'include', 'exclude').
    * @param collections - The list of collections specified (for include/exclude).
-   * @param startTime - Optional start time filter (requires mode=include, collections.length=1).
+   * @param filters - Optional time window and Extended JSON filters per collection (require mode=include).
+   * @param dryRun - Only print the resolved collections, mongodump invocation and archive path.
+   * @param oplog - Take a consistent snapshot with the oplog (mongodump --oplog); replica set sources, mode 'all' only.
+   * @returns The metadata of the created backup, or undefined for a dry run.
    */
   async backupFromArgs(
     sourceName: string,
     backupMode: 'all' | 'include' | 'exclude',
     collections: string[],
-    startTime?: Date,
-  ): Promise<void> {
+    filters: BackupFilters = {},
+    dryRun: boolean = false,
+    oplog: boolean = false,
+  ): Promise<BackupMetadata | undefined> {
     this.logger.startSpinner(`Starting backup from arguments for ${sourceName}...`);
     const source = this.config.connections.find((conn) => conn.name === sourceName);
     if (!source) {
       this.logger.failSpinner(`Source connection "${sourceName}" not found.`);
-      throw new Error(`Source connection "${sourceName}" not found.`);
+      throw new ConfigError(`Source connection "${sourceName}" not found.`);
     }
+    const startedAt = new Date().toISOString();
+    const journalOptions = {
+      ...this.describeJournalOptions(backupMode, collections, filters),
+      oplog: oplog || undefined,
+    };
 
     try {
       const { actualMode, actualSelected, actualExcluded } = await this.getActualBackupParams(
         backupMode,
         collections,
         collections,
-        startTime,
+        filters,
         source,
         'args',
       );
+      if (oplog) {
+        await this.assertOplogSupported(source);
+      }
+
+      if (dryRun) {
+        this.logger.stopSpinner();
+        await this.printBackupPlan(source, {
+          mode: actualMode,
+          selectedCollections: actualSelected,
+          excludedCollections: actualExcluded,
+          ...filters,
+          oplog,
+        });
+        return;
+      }
+
+      this.logger.updateSpinner(`Collecting collection statistics for ${source.name}...`);
+      const collectionStats = await this.collectionStats.capture(source, {
+        mode: actualMode,
+        selectedCollections: actualSelected,
+        excludedCollections: actualExcluded,
+        ...filters,
+      });
 
       this.logger.startSpinner(`Running backup process for ${source.name}...`);
-      const backupFilename = await this.backupService.createBackup(
-        source,
-        actualSelected,
-        actualExcluded,
-        actualMode,
-        startTime,
-      );
+      const dumpStartedAt = new Date();
+      const {
+        archivePath: backupFilename,
+        parts,
+        sha256,
+        size,
+      } = await this.backupService.createBackup(source, actualSelected, actualExcluded, actualMode, filters, oplog);
 
       this.logger.updateSpinner(`Saving metadata for ${backupFilename}...`);
       const now = new Date();
@@ -240,13 +415,26 @@ export class BackupController {
         date: now.toISOString(),
         archivePath: path.basename(backupFilename),
         presetName: undefined, // Not using preset here
-        queryStartTime: startTime ? startTime.toISOString() : undefined,
+        queryStartTime: filters.startTime?.toISOString(),
+        queryEndTime: filters.endTime?.toISOString(),
+        queryTimeField: filters.timeField,
+        queries: filters.queries,
+        parts,
+        sha256,
+        size,
+        collections: collectionStats,
+        oplog: oplog ? { startedAt: dumpStartedAt.toISOString(), finishedAt: now.toISOString() } : undefined,
       };
       const metadataPath = `${backupFilename}.json`;
       fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
 
+      this.recordInJournal(startedAt, source.name, journalOptions, { archive: metadata.archivePath });
       this.logger.succeedSpinner(`Backup created successfully: ${backupFilename} | Metadata saved: ${metadataPath}`);
+      return metadata;
     } catch (error: any) {
+      if (!dryRun) {
+        this.recordInJournal(startedAt, source.name, journalOptions, { error: error.message });
+      }
       this.logger.failSpinner(`Backup from arguments failed: ${error.message}`);
       throw error; // Re-throw error to be caught by the caller (mongodb-app.ts)
     } finally {
@@ -270,14 +458,15 @@ export class BackupController {
     mode: 'all' | 'include' | 'exclude',
     included: string[],
     excluded: string[],
-    startTime: Date | undefined,
+    filters: BackupFilters,
     source: ConnectionConfig,
     contextLabel: string,
   ): Promise<{ actualMode: 'all' | 'include' | 'exclude'; actualSelected: string[]; actualExcluded: string[] }> {
-    // Time filter always means include mode for a single collection
-    if (startTime) {
+    const { startTime, endTime, queries } = filters;
+    // Query filters (time filter or custom query) always mean include mode: mongodump runs per collection
+    if (startTime || endTime || queries) {
       this.logger.updateSpinner(
-        `[${contextLabel}] Backup single collection with time filter: ${included[0]} (>= ${startTime.toISOString()})...`,
+        `[${contextLabel}] Backup collections with query filter: ${included.join(', ')}${startTime ? ` (>= ${startTime.toISOString()})` : ''}${endTime ? ` (< ${endTime.toISOString()})` : ''}...`,
       );
       return {
         actualMode: 'include',
@@ -358,4 +547,160 @@ export class BackupController {
       actualExcluded: [],
     };
   }
+
+  /**
+   * Checks that the source can be dumped with --oplog: only replica set members keep an oplog,
+   * and mongodump cannot capture it through a mongos router.
+   * @throws A `ConfigError` naming the kind of server otherwise.
+   */
+  private async assertOplogSupported(source: ConnectionConfig): Promise<void> {
+    this.logger.updateSpinner(`Checking that ${source.name} is a replica set member...`);
+    let kind: 'replicaSet' | 'mongos' | 'standalone';
+    try {
+      await this.mongoService.connect(source);
+      kind = await this.mongoService.getServerKind();
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+    if (kind === 'standalone') {
+      throw new ConfigError(
+        `Source "${source.name}" is a standalone server, which has no oplog. --oplog needs a replica set member.`,
+      );
+    }
+    if (kind === 'mongos') {
+      throw new ConfigError(
+        `Source "${source.name}" is a mongos router. --oplog needs a replica set member; back up each shard instead.`,
+      );
+    }
+  }
+
+  /**
+   * Lists the collections an 'all' or 'exclude' preset covers, so an incremental backup can filter each of them
+   * (mongodump applies a time filter per collection).
+   * @throws A `ConfigError` if no collection remains; connection errors if the source cannot be listed.
+   */
+  private async resolvePresetCollections(preset: BackupPreset, source: ConnectionConfig): Promise<string[]> {
+    this.logger.updateSpinner(`[preset:${preset.name}] Listing collections of ${source.name}...`);
+    try {
+      await this.mongoService.connect(source);
+      const allCollections = await this.mongoService.getCollections(source.database);
+      const collections = new Dump(this.config, this.logger).resolveDumpedCollections(allCollections, {
+        mode: preset.selectionMode,
+        selectedCollections: [],
+        excludedCollections: preset.selectionMode === 'exclude' ? (preset.collections ?? []) : [],
+      });
+      if (collections.length === 0) {
+        throw new ConfigError(`No collections to back up in ${source.database}.`);
+      }
+      return collections;
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+
+  /**
+   * Records a finished backup in the operation journal: the archive for a success, the error for a failure.
+   */
+  private recordInJournal(
+    startedAt: string,
+    sourceName: string,
+    options: Record<string, unknown>,
+    result: { archive: string } | { error: string },
+  ): void {
+    this.journal.record({
+      operation: 'backup',
+      startedAt,
+      outcome: 'archive' in result ? 'success' : 'failure',
+      source: sourceName,
+      ...result,
+      options,
+    });
+  }
+
+  /** Summarizes the selection and filters of a backup for its journal entry. */
+  private describeJournalOptions(
+    mode: 'all' | 'include' | 'exclude',
+    collections: string[],
+    filters: BackupFilters,
+    presetName?: string,
+  ): Record<string, unknown> {
+    return {
+      mode,
+      collections: mode !== 'all' && collections.length > 0 ? collections : undefined,
+      preset: presetName,
+      since: filters.startTime?.toISOString(),
+      until: filters.endTime?.toISOString(),
+      timeField: filters.timeField,
+      queries: filters.queries ? Object.keys(filters.queries) : undefined,
+    };
+  }
+
+  /**
+   * Prints what a backup would do: the collections mongodump would dump (listed from the source),
+   * the filters, the archive path and the mongodump invocations with passwords masked.
+   * Nothing is written.
+   */
+  private async printBackupPlan(source: ConnectionConfig, args: BackupArgs): Promise<void> {
+    const plan = this.backupService.planBackup(
+      source,
+      args.selectedCollections,
+      args.excludedCollections,
+      args.mode,
+      args,
+      args.oplog,
+    );
+
+    let dumped: string[] | undefined;
+    try {
+      await this.mongoService.connect(source);
+      const allCollections = await this.mongoService.getCollections(source.database);
+      dumped = new Dump(this.config, this.logger).resolveDumpedCollections(allCollections, args);
+    } catch (error: any) {
+      this.logger.warn(`[${source.name}] Could not list collections: ${error.message}`);
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+
+    this.logger.logRaw('--- Backup Plan ---');
+    this.logger.logRaw(`Source:      ${source.name} (Database: ${source.database})`);
+    this.logger.logRaw(`Collections: ${dumped ? `${dumped.join(', ') || '(none)'}` : 'unknown'}`);
+    if (args.startTime || args.endTime) {
+      this.logger.logRaw(
+        `Window:      ${describeTimeWindow(args.startTime?.toISOString(), args.endTime?.toISOString(), args.timeField)}`,
+      );
+    }
+    Object.entries(args.queries ?? {}).forEach(([coll, query]) =>
+      this.logger.logRaw(`Query:       ${coll}: ${JSON.stringify(query)}`),
+    );
+    if (args.oplog) {
+      this.logger.logRaw('Oplog:       yes (every database of the source, consistent as of the end of the dump)');
+    }
+    this.logger.logRaw(`Archive:     ${plan.archivePath}`);
+    plan.parts?.forEach((part) => this.logger.logRaw(`  part:      ${part.archivePath} (${part.collection})`));
+    plan.commands.forEach((command) => this.logger.snippet(command));
+    this.logger.logRaw('--------------------------------');
+  }
+
+  /**
+   * Parses a time bound stored in a preset.
+   * @returns The parsed date, or undefined (with a warning) if the value is missing or invalid.
+   */
+  private parsePresetTime(preset: BackupPreset, field: 'queryStartTime' | 'queryEndTime'): Date | undefined {
+    const value = preset[field];
+    if (!value) {
+      return undefined;
+    }
+    const date = parseISO(value);
+    if (!isValid(date)) {
+      this.logger.warn(`Invalid ${field} format "${value}" in preset "${preset.name}". Ignoring time filter bound.`);
+      return undefined;
+    }
+    return date;
+  }
 }
@@ -1,11 +1,12 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { AppConfig, ConnectionConfig } from '@ts-types/mixed';
+import type { AppConfig, CollectionQueries, ConnectionConfig } from '@ts-types/mixed';
 
 import { formattedTimestamp } from '@utils/formatted-timestamp';
 import { objectIdFromTimestamp } from '@utils/object-id-from-timestamp';
 import { formatFilename } from '@utils/format-filename';
 import { Logger } from '@infrastructure/logger';
+import { AppError, MongodumpError } from '@infrastructure/errors';
 import { BackupArgs } from '../interfaces/backup-args.interface';
 
 export class Dump {
@@ -16,16 +17,23 @@ export class Dump {
 
   buildArgs(source: ConnectionConfig, args: BackupArgs): { baseArgs: string[]; queryValue?: string } {
     const baseArgs: string[] = [];
-    const { selectedCollections, excludedCollections, mode, startTime } = args;
+    const { selectedCollections, excludedCollections, mode, startTime, endTime, timeField, queries } = args;
     let queryValue: string | undefined = undefined;
 
+    if (args.oplog && (mode !== 'all' || startTime || endTime || Object.keys(queries ?? {}).length > 0)) {
+      // mongodump only captures the oplog of full dumps
+      throw new Error('--oplog requires a backup of all collections without query filters.');
+    }
+
     // --- Connection Arguments ---
     if (source.ssh) {
       // SSH mode: always use --db and separate fields
       if (!source.database) {
         throw new Error(`[${source.name}] Database name ('database') is required in config for SSH backup.`);
       }
-      baseArgs.push(`--db=${source.database}`);
+      if (!args.oplog) {
+        baseArgs.push(`--db=${source.database}`);
+      }
 
       let mongoHost = source.host;
       let mongoPort = source.port;
@@ -80,8 +88,8 @@ export class Dump {
     } else {
       // Local mode: use URI if available
       if (source.uri) {
-        baseArgs.push(`--uri="${source.uri}"`);
-        if (source.database) {
+        baseArgs.push(`--uri="${args.oplog ? this.stripUriDatabase(source.uri) : source.uri}"`);
+        if (source.database && !args.oplog) {
           baseArgs.push(`--db=${source.database}`);
         }
       } else {
@@ -90,7 +98,9 @@ export class Dump {
             `[${source.name}] Database name ('database') is required for local backup if URI is not provided.`,
           );
         }
-        baseArgs.push(`--db=${source.database}`);
+        if (!args.oplog) {
+          baseArgs.push(`--db=${source.database}`);
+        }
         if (source.host) baseArgs.push(`--host=${source.host}`);
         if (source.port) baseArgs.push(`--port=${source.port}`);
         if (source.username) baseArgs.push(`--username=${source.username}`);
@@ -102,31 +112,46 @@ export class Dump {
     // --- End Connection Arguments ---
 
     // --- Filtering Arguments ---
-    if (startTime) {
+    const queriedCollections = Object.keys(queries ?? {});
+    if (startTime || endTime || queriedCollections.length > 0) {
+      // mongodump applies --query to a single --collection only
       if (mode !== 'include' || selectedCollections.length !== 1) {
         throw new Error(
-          'Internal error: startTime provided but mode is not "include" or selectedCollections count is not 1.',
+          'Query filters (time filter or custom query) require mode "include" with exactly one collection.',
         );
       }
       const collectionName = selectedCollections[0];
+      this.assertQueriesMatchCollections(selectedCollections, queries);
       baseArgs.push('--collection', collectionName);
+
+      let query: Record<string, any> | undefined;
       try {
-        const startObjectId = objectIdFromTimestamp(startTime);
-        queryValue = JSON.stringify({ _id: { $gte: { $oid: startObjectId } } });
-        if (!source.ssh) {
-          baseArgs.push('--query', queryValue);
-        }
-        this.logger.info(
-          `Applying time filter to collection "${collectionName}": including documents with _id >= ${startObjectId} (time >= ${startTime.toISOString()})`,
-        );
+        query = this.buildCollectionQuery(collectionName, args);
       } catch (e: any) {
-        this.logger.error(`Error generating ObjectId for time filter: ${e.message}`);
+        this.logger.error(`Error building time filter: ${e.message}`);
         throw new Error('Failed to create time filter query.');
       }
+      if (startTime || endTime) {
+        this.logger.info(
+          `Applying time filter to collection "${collectionName}" on "${timeField || '_id'}" (time >= ${startTime?.toISOString() ?? '-∞'}, < ${endTime?.toISOString() ?? 'now'})`,
+        );
+      }
+      const customQuery = queries?.[collectionName];
+      if (customQuery) {
+        this.logger.info(`Applying query filter to collection "${collectionName}": ${JSON.stringify(customQuery)}`);
+      }
+
+      queryValue = JSON.stringify(query);
+      if (!source.ssh) {
+        baseArgs.push('--query', queryValue);
+      }
     } else {
       if (mode === 'exclude' && excludedCollections.length > 0) {
         excludedCollections.forEach((coll) => baseArgs.push('--excludeCollection', coll));
         this.logger.info(`[${source.name}] Backup mode: excluding ${excludedCollections.length} collection(s)`);
+      } else if (args.oplog) {
+        baseArgs.push('--oplog');
+        this.logger.info(`[${source.name}] Backup mode: all databases with the oplog (consistent snapshot)`);
       } else {
         this.logger.info(`[${source.name}] Backup mode: all collections`);
       }
@@ -141,8 +166,94 @@ export class Dump {
     return queryValue ? { baseArgs, queryValue } : { baseArgs };
   }
 
-  buildBackupFilePath(source: ConnectionConfig): string {
-    this.ensureBackupDir();
+  /**
+   * Builds the Extended JSON filter mongodump applies to a collection: the time window and the
+   * collection's custom query, combined with `$and` when both are set.
+   *
+   * @param collection - The collection name.
+   * @param args - The backup arguments holding the time window and queries.
+   * @returns The filter, or undefined if the collection is dumped unfiltered.
+   */
+  buildCollectionQuery(collection: string, args: BackupArgs): Record<string, any> | undefined {
+    const filters: Record<string, any>[] = [];
+    if (args.startTime || args.endTime) {
+      filters.push(this.buildTimeFilter(args.timeField || '_id', args.startTime, args.endTime));
+    }
+    const customQuery = args.queries?.[collection];
+    if (customQuery) {
+      filters.push(customQuery);
+    }
+    if (filters.length === 0) {
+      return undefined;
+    }
+    return filters.length === 1 ? filters[0] : { $and: filters };
+  }
+
+  /**
+   * Checks whether the arguments need one mongodump run per collection.
+   * mongodump applies --query to a single --collection only, so query filters on several
+   * included collections produce a backup set instead of a single archive.
+   */
+  isBackupSet(args: BackupArgs): boolean {
+    const hasFilters = !!args.startTime || !!args.endTime || Object.keys(args.queries ?? {}).length > 0;
+    return hasFilters && args.mode === 'include' && args.selectedCollections.length > 1;
+  }
+
+  /**
+   * Splits the arguments of a backup set into single-collection arguments, one per included collection.
+   * Each part keeps the time filter and only its own collection's query.
+   *
+   * @param args - The backup set arguments (mode 'include' with query filters).
+   * @param setPath - Optional path of the backup set; parts are written next to it.
+   * @returns The collection and mongodump arguments of every part.
+   * @throws An error if a query targets a collection that is not included.
+   */
+  splitBackupSet(args: BackupArgs, setPath?: string): { collection: string; args: BackupArgs }[] {
+    this.assertQueriesMatchCollections(args.selectedCollections, args.queries);
+    return args.selectedCollections.map((collection) => {
+      const query = args.queries?.[collection];
+      return {
+        collection,
+        args: {
+          mode: 'include',
+          selectedCollections: [collection],
+          excludedCollections: [],
+          startTime: args.startTime,
+          endTime: args.endTime,
+          timeField: args.timeField,
+          queries: query ? { [collection]: query } : undefined,
+          outputPath: setPath ? this.buildPartFilePath(setPath, collection) : undefined,
+        },
+      };
+    });
+  }
+
+  /**
+   * Resolves the collections mongodump dumps for the given arguments.
+   * @param allCollections - The collections of the source database.
+   * @param args - The effective mongodump arguments.
+   * @returns The included collections that exist, or every non-system collection that is not excluded.
+   */
+  resolveDumpedCollections(allCollections: string[], args: BackupArgs): string[] {
+    return args.mode === 'include'
+      ? args.selectedCollections.filter((coll) => allCollections.includes(coll))
+      : allCollections.filter((coll) => !coll.startsWith('system.') && !args.excludedCollections.includes(coll));
+  }
+
+  /** Builds the archive path of one collection's part of a backup set. */
+  buildPartFilePath(setPath: string, collection: string): string {
+    return `${setPath}.${collection}.part`;
+  }
+
+  /**
+   * Builds the path of a new backup archive from `filenameFormat`.
+   * @param source - The source connection, used in the filename.
+   * @param ensureDir - Create the backup directory if it is missing (disable for dry runs).
+   */
+  buildBackupFilePath(source: ConnectionConfig, ensureDir: boolean = true): string {
+    if (ensureDir) {
+      this.ensureBackupDir();
+    }
 
     const now = new Date();
     const { date, time, datetime } = formattedTimestamp(now);
@@ -164,7 +275,47 @@ export class Dump {
       this.logger.error(`Failed command (approximate): ${commandStringForLog}`);
     }
     this.cleanupFile(filePath);
-    throw new Error(`Backup failed for ${source.name}.`);
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new MongodumpError(`Backup failed for ${source.name}: ${error.message}`);
+  }
+
+  /**
+   * Builds the range filter of a time window. `_id` is compared by ObjectId creation time,
+   * any other field as a date.
+   */
+  private buildTimeFilter(field: string, startTime?: Date, endTime?: Date): Record<string, any> {
+    const toBound = (date: Date) =>
+      field === '_id' ? { $oid: objectIdFromTimestamp(date) } : { $date: date.toISOString() };
+    const range: Record<string, any> = {};
+    if (startTime) range.$gte = toBound(startTime);
+    if (endTime) range.$lt = toBound(endTime);
+    return { [field]: range };
+  }
+
+  /**
+   * Removes the database from a connection string: mongodump treats it like --db, which --oplog rejects.
+   * The database stays the authentication database unless the URI names one.
+   */
+  private stripUriDatabase(uri: string): string {
+    const match = uri.match(/^(mongodb(?:\+srv)?:\/\/[^/?]+)(?:\/([^?]*))?(?:\?(.*))?$/);
+    if (!match?.[2]) {
+      return uri;
+    }
+    const [, prefix, database, query] = match;
+    const params = new URLSearchParams(query ?? '');
+    if (!params.has('authSource')) {
+      params.set('authSource', database);
+    }
+    return `${prefix}/?${params.toString()}`;
+  }
+
+  private assertQueriesMatchCollections(collections: string[], queries?: CollectionQueries): void {
+    const foreignQueries = Object.keys(queries ?? {}).filter((coll) => !collections.includes(coll));
+    if (foreignQueries.length > 0) {
+      throw new Error(`Query filters given for collections that are not backed up: ${foreignQueries.join(', ')}`);
+    }
   }
 
   private ensureBackupDir(): string {
@@ -0,0 +1,17 @@
+export interface ArchiveVerification {
+  /** The archive filename, relative to the backup directory. */
+  archivePath: string;
+  /**
+   * `ok` if checksum and size match the metadata, `mismatch` if they differ, `missing` if the file is gone,
+   * `unrecorded` if the metadata predates checksums.
+   */
+  status: 'ok' | 'mismatch' | 'missing' | 'unrecorded';
+  /** The checksum recorded in the metadata. */
+  expectedSha256?: string;
+  /** The checksum of the file on disk. */
+  actualSha256?: string;
+  /** The size recorded in the metadata. */
+  expectedSize?: number;
+  /** The size of the file on disk. */
+  actualSize?: number;
+}
@@ -1,6 +1,20 @@
+import type { CollectionQueries } from '@ts-types/mixed';
+
 export interface BackupArgs {
   selectedCollections: string[];
   excludedCollections: string[];
   mode: 'all' | 'include' | 'exclude';
   startTime?: Date;
+  /** Exclusive upper bound of the time filter. */
+  endTime?: Date;
+  /** Date field the time filter applies to; defaults to `_id` (ObjectId creation time). */
+  timeField?: string;
+  queries?: CollectionQueries;
+  /** Explicit archive path; defaults to a path built from `filenameFormat`. */
+  outputPath?: string;
+  /** Dump every database with the oplog entries written meanwhile (mongodump --oplog); replica sets only. */
+  oplog?: boolean;
 }
+
+/** Document-level filters applied with mongodump --query. */
+export type BackupFilters = Pick<BackupArgs, 'startTime' | 'endTime' | 'timeField' | 'queries'>;
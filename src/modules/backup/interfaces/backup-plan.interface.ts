@@ -0,0 +1,8 @@
+export interface BackupPlan {
+  /** Absolute path the archive (or backup set) would be written to. */
+  archivePath: string;
+  /** The mongodump invocations, one per part for a backup set, with passwords masked. */
+  commands: string[];
+  /** The part archives of a backup set, if the backup would produce one. */
+  parts?: { collection: string; archivePath: string }[];
+}
@@ -0,0 +1,12 @@
+import type { BackupPart } from '@ts-types/mixed';
+
+export interface BackupResult {
+  /** Absolute path of the created archive, or of the backup set when `parts` is present. */
+  archivePath: string;
+  /** The per-collection archives of a backup set. */
+  parts?: BackupPart[];
+  /** SHA-256 checksum of the archive (absent for backup sets, whose parts carry their own). */
+  sha256?: string;
+  /** Size of the archive in bytes (absent for backup sets). */
+  size?: number;
+}
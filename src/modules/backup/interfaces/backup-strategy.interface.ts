@@ -10,4 +10,12 @@ export interface BackupStrategy {
    * @throws An error if the backup process fails.
    */
   createBackup(source: ConnectionConfig, args: BackupArgs): Promise<string>;
+
+  /**
+   * Describes the mongodump invocation `createBackup` would run, without running it or creating any file.
+   * @param source - The configuration of the source MongoDB connection.
+   * @param args - Arguments for backup filtering and configuration.
+   * @returns The command line (passwords included; mask before displaying) and the archive path it would write.
+   */
+  describeBackup(source: ConnectionConfig, args: BackupArgs): { command: string; archivePath: string };
 }
@@ -1,10 +1,19 @@
 /* eslint-disable quotes */
 import * as fs from 'fs';
 import * as path from 'path';
-import type { AppConfig, BackupMetadata, ConnectionConfig } from '@ts-types/mixed';
+import type { AppConfig, BackupMetadata, BackupPart, ConnectionConfig } from '@ts-types/mixed';
 import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
+import { matchesPattern } from '@utils/match-pattern';
+import { checksumFile } from '@utils/checksum-file';
+import { maskSecrets } from '@utils/mask-secrets';
 
 import { BackupStrategySelector } from '../strategies/backup-strategy-selector';
+import { Dump } from '../domain/dump';
+import type { BackupArgs, BackupFilters } from '../interfaces/backup-args.interface';
+import type { BackupResult } from '../interfaces/backup-result.interface';
+import type { ArchiveVerification } from '../interfaces/archive-verification.interface';
+import type { BackupPlan } from '../interfaces/backup-plan.interface';
 
 /**
  * Handles the execution of mongodump command for creating MongoDB backups.
@@ -19,14 +28,17 @@ export class BackupService {
   /**
    * Executes the mongodump command to create a backup archive (.gz).
    * Determines whether to run mongodump locally or remotely via SSH based on the source configuration.
-   * Handles collection filtering based on provided arguments.
+   * Handles collection filtering based on provided arguments. Query filters on several included collections
+   * run one mongodump per collection and produce a backup set (see `BackupResult.parts`).
    *
    * @param source - The configuration of the source MongoDB connection.
    * @param selectedCollections - An array of collection names for the `--collection` flag (should be empty if mode is 'exclude' or 'all').
    * @param excludedCollections - An array of collection names for the `--excludeCollection` flag (used when mode is 'exclude').
    * @param mode - Specifies the effective mode for the mongodump command ('all', 'include', 'exclude').
-   * @param startTime - Optional start time to filter documents using --query on _id.
-   * @returns A promise that resolves with the absolute path to the created backup archive file.
+   * @param filters - Optional time window and Extended JSON filters per collection, applied with --query.
+   * @param oplog - Dump the whole instance with the oplog (mongodump --oplog) for a consistent snapshot (mode 'all').
+   * @returns A promise that resolves with the absolute path to the created backup archive (or set) and its parts,
+   * each with the SHA-256 checksum and size of the archive file.
    * @throws An error if the backup process fails.
    */
   async createBackup(
@@ -34,43 +46,162 @@ export class BackupService {
     selectedCollections: string[],
     excludedCollections: string[],
     mode: 'all' | 'include' | 'exclude',
-    startTime?: Date,
-  ): Promise<string> {
-    const args = { selectedCollections, excludedCollections, mode, startTime };
+    filters: BackupFilters = {},
+    oplog: boolean = false,
+  ): Promise<BackupResult> {
+    const args: BackupArgs = { selectedCollections, excludedCollections, mode, ...filters, oplog };
 
     const strategy = new BackupStrategySelector(this.config, this.logger).select(source);
-    return strategy.createBackup(source, args);
+    const dump = new Dump(this.config, this.logger);
+    if (!dump.isBackupSet(args)) {
+      const archivePath = await strategy.createBackup(source, args);
+      return { archivePath, ...(await checksumFile(archivePath)) };
+    }
+
+    const setPath = dump.buildBackupFilePath(source);
+    const partArgs = dump.splitBackupSet(args, setPath);
+    const parts: BackupPart[] = [];
+    this.logger.info(`[${source.name}] Backing up ${partArgs.length} collections as a backup set: ${setPath}`);
+    try {
+      // Sequential on purpose: parallel dumps would compete for the same source (and SSH connection)
+      for (const part of partArgs) {
+        const partPath = await strategy.createBackup(source, part.args);
+        parts.push({
+          collection: part.collection,
+          archivePath: path.basename(partPath),
+          ...(await checksumFile(partPath)),
+        });
+      }
+    } catch (error) {
+      this.removeParts(parts);
+      throw error;
+    }
+    return { archivePath: setPath, parts };
+  }
+
+  /**
+   * Describes what `createBackup` would do with the same arguments, without running mongodump
+   * or creating any file or directory.
+   *
+   * @param source - The configuration of the source MongoDB connection.
+   * @param selectedCollections - Collections for the `--collection` flag (mode 'include').
+   * @param excludedCollections - Collections for the `--excludeCollection` flag (mode 'exclude').
+   * @param mode - The effective mode for the mongodump command.
+   * @param filters - Optional time window and Extended JSON filters per collection.
+   * @param oplog - Dump the whole instance with the oplog (mode 'all').
+   * @returns The archive path and the mongodump invocations with passwords masked.
+   * @throws An error if the arguments are invalid (e.g., a query for a collection that is not backed up).
+   */
+  planBackup(
+    source: ConnectionConfig,
+    selectedCollections: string[],
+    excludedCollections: string[],
+    mode: 'all' | 'include' | 'exclude',
+    filters: BackupFilters = {},
+    oplog: boolean = false,
+  ): BackupPlan {
+    const args: BackupArgs = { selectedCollections, excludedCollections, mode, ...filters, oplog };
+
+    const strategy = new BackupStrategySelector(this.config, this.logger).select(source);
+    const dump = new Dump(this.config, this.logger);
+    if (!dump.isBackupSet(args)) {
+      const { command, archivePath } = strategy.describeBackup(source, args);
+      return { archivePath, commands: [maskSecrets(command)] };
+    }
+
+    const setPath = dump.buildBackupFilePath(source, false);
+    const parts = dump.splitBackupSet(args, setPath).map((part) => ({
+      collection: part.collection,
+      ...strategy.describeBackup(source, part.args),
+    }));
+    return {
+      archivePath: setPath,
+      commands: parts.map((part) => maskSecrets(part.command)),
+      parts: parts.map(({ collection, archivePath }) => ({ collection, archivePath })),
+    };
   }
 
   /**
    * Loads backup metadata from the .json file corresponding to a backup archive.
    * @param backupFilename - The filename of the backup archive (e.g., backup_....gz).
    * @returns The parsed BackupMetadata object.
-   * @throws An error if the metadata file is not found or cannot be parsed.
+   * @throws A `ConfigError` if the metadata file is not found or cannot be parsed.
    */
   loadBackupMetadata(backupFilename: string): BackupMetadata {
     const metadataPath = path.join(this.config.backupDir, `${backupFilename}.json`);
     if (!fs.existsSync(metadataPath)) {
       this.logger.warn(`Metadata file not found: ${metadataPath}`);
-      throw new Error(`Metadata file not found: ${metadataPath}`);
+      throw new ConfigError(`Metadata file not found: ${metadataPath}`);
     }
     try {
       const metadataContent = fs.readFileSync(metadataPath, 'utf-8');
       const metadata = JSON.parse(metadataContent) as BackupMetadata;
       if (!metadata.source || !metadata.timestamp || !metadata.archivePath) {
         this.logger.error(`Metadata file ${metadataPath} is missing required fields.`);
-        throw new Error('Metadata file is missing required fields (source, timestamp, archivePath).');
+        throw new ConfigError('Metadata file is missing required fields (source, timestamp, archivePath).');
       }
       metadata.archivePath = path.basename(metadata.archivePath);
       return metadata;
     } catch (error: any) {
       this.logger.error(`Failed to load or parse metadata file ${metadataPath}: ${error.message}`);
-      throw new Error(`Failed to load or parse metadata file ${metadataPath}.`);
+      throw new ConfigError(`Failed to load or parse metadata file ${metadataPath}.`);
     }
   }
 
   /**
-   * Lists backup archive files (.gz) in the backup directory, sorted newest first.
+   * Resolves the archive files that make up a backup: the archive itself, or every part of a backup set.
+   * @param metadata - The metadata of the backup.
+   * @returns The absolute paths of the archive files.
+   */
+  getArchivePaths(metadata: BackupMetadata): string[] {
+    const backupDir = path.resolve(this.config.backupDir);
+    const archives = metadata.parts?.length ? metadata.parts.map((part) => part.archivePath) : [metadata.archivePath];
+    return archives.map((archive) => path.join(backupDir, archive));
+  }
+
+  /**
+   * Sums the size of the archive files of a backup that exist on disk.
+   * @param metadata - The metadata of the backup.
+   * @returns The total size in bytes.
+   */
+  getArchiveSize(metadata: BackupMetadata): number {
+    return this.getArchivePaths(metadata)
+      .filter((archivePath) => fs.existsSync(archivePath))
+      .reduce((sum, archivePath) => sum + fs.statSync(archivePath).size, 0);
+  }
+
+  /**
+   * Recomputes the SHA-256 checksum and size of every archive file of a backup and compares them
+   * with the values recorded in its metadata.
+   * @param metadata - The metadata of the backup.
+   * @returns One result per archive file (the archive itself, or every part of a backup set).
+   */
+  async verifyArchives(metadata: BackupMetadata): Promise<ArchiveVerification[]> {
+    const backupDir = path.resolve(this.config.backupDir);
+    const archives = metadata.parts?.length ? metadata.parts : [metadata];
+
+    const results: ArchiveVerification[] = [];
+    for (const { archivePath, sha256: expectedSha256, size: expectedSize } of archives) {
+      const filePath = path.join(backupDir, archivePath);
+      if (!fs.existsSync(filePath)) {
+        results.push({ archivePath, status: 'missing', expectedSha256, expectedSize });
+        continue;
+      }
+      const { sha256: actualSha256, size: actualSize } = await checksumFile(filePath);
+      let status: ArchiveVerification['status'] = 'ok';
+      if (!expectedSha256) {
+        status = 'unrecorded';
+      } else if (expectedSha256 !== actualSha256 || (expectedSize !== undefined && expectedSize !== actualSize)) {
+        status = 'mismatch';
+      }
+      results.push({ archivePath, status, expectedSha256, actualSha256, expectedSize, actualSize });
+    }
+    return results;
+  }
+
+  /**
+   * Lists backups in the backup directory, sorted newest first: archive files (.gz) and
+   * backup sets, which only exist as a metadata file listing their parts.
    * @returns An array of backup filenames.
    */
   getBackupFiles(): string[] {
@@ -80,11 +211,16 @@ export class BackupService {
     }
     try {
       const files = fs.readdirSync(backupDir);
-      return files
-        .filter((file) => file.endsWith('.gz') && !file.startsWith('.'))
+      const archives = files.filter((file) => file.endsWith('.gz') && !file.startsWith('.'));
+      const backupSets = files
+        .filter((file) => file.endsWith('.gz.json') && !file.startsWith('.'))
+        .map((file) => file.slice(0, -'.json'.length))
+        .filter((name) => !archives.includes(name) && this.isBackupSet(path.join(backupDir, `${name}.json`)));
+      return [...archives, ...backupSets]
         .map((file) => {
           try {
-            return { name: file, time: fs.statSync(path.join(backupDir, file)).mtime.getTime() };
+            const statPath = backupSets.includes(file) ? `${file}.json` : file;
+            return { name: file, time: fs.statSync(path.join(backupDir, statPath)).mtime.getTime() };
           } catch (e: any) {
             this.logger.warn(`Could not stat file ${file} in backup dir: ${e.message}`);
             return { name: file, time: 0 };
@@ -97,4 +233,128 @@ export class BackupService {
       return [];
     }
   }
+
+  /**
+   * Finds the newest backup archive whose filename matches the given glob pattern.
+   * Pre-restore snapshots are ignored, so a recurring restore never restores the target's own snapshot.
+   * @param pattern - Optional glob pattern (`*` and `?` wildcards). If omitted, the newest backup is returned.
+   * @returns The matching backup filename, or undefined if none matches.
+   */
+  findLatestBackupFile(pattern?: string): string | undefined {
+    const backupDir = path.resolve(this.config.backupDir);
+    return this.getBackupFiles().find(
+      (file) =>
+        (!pattern || matchesPattern(file, pattern)) && !this.isPreRestoreSnapshot(path.join(backupDir, `${file}.json`)),
+    );
+  }
+
+  /**
+   * Finds the newest backup a preset created of a source: the parent of the preset's next incremental backup.
+   * Pre-restore snapshots and backups without readable metadata are ignored.
+   * @returns The metadata of that backup, or undefined if the preset has no backup yet.
+   */
+  findLatestPresetBackup(presetName: string, sourceName: string): BackupMetadata | undefined {
+    return this.readAllMetadata()
+      .filter(
+        (metadata) =>
+          metadata.presetName === presetName && metadata.source === sourceName && !metadata.preRestoreSnapshot,
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)[0];
+  }
+
+  /**
+   * Resolves the incremental chain to restore for a backup, oldest first: the full backup, then its
+   * incremental backups in order. For a full backup the chain runs to the newest incremental backup
+   * built on it; for an incremental backup it ends with that backup.
+   *
+   * @param metadata - The metadata of the backup to restore.
+   * @returns The metadata of every backup in the chain (just the backup itself if it has no chain).
+   * @throws A `ConfigError` if a parent backup is missing or the parent references form a cycle.
+   */
+  resolveBackupChain(metadata: BackupMetadata): BackupMetadata[] {
+    const chain = [metadata];
+    const seen = new Set([metadata.archivePath]);
+
+    for (let current = metadata; current.parent; current = chain[0]) {
+      if (seen.has(current.parent)) {
+        throw new ConfigError(`The incremental chain of ${metadata.archivePath} refers to ${current.parent} twice.`);
+      }
+      try {
+        chain.unshift(this.loadBackupMetadata(current.parent));
+      } catch {
+        throw new ConfigError(
+          `The incremental chain of ${metadata.archivePath} is broken: parent backup ${current.parent} of ${current.archivePath} is missing.`,
+        );
+      }
+      seen.add(current.parent);
+    }
+    if (metadata.parent) {
+      return chain;
+    }
+
+    const allMetadata = this.readAllMetadata();
+    const childrenOf = (backup: BackupMetadata) =>
+      allMetadata.filter((child) => child.parent === backup.archivePath).sort((a, b) => a.timestamp - b.timestamp);
+    for (let children = childrenOf(metadata); children.length > 0; children = childrenOf(chain[chain.length - 1])) {
+      // Siblings share the parent's start time, so the newest one holds everything the others hold
+      const next = children[children.length - 1];
+      if (children.length > 1) {
+        this.logger.warn(
+          `Backup ${chain[chain.length - 1].archivePath} has several incremental backups (${children.map((child) => child.archivePath).join(', ')}); following ${next.archivePath}.`,
+        );
+      }
+      if (seen.has(next.archivePath)) {
+        throw new ConfigError(`The incremental chain of ${metadata.archivePath} refers to ${next.archivePath} twice.`);
+      }
+      chain.push(next);
+      seen.add(next.archivePath);
+    }
+    return chain;
+  }
+
+  /** Reads the metadata of every backup in the backup directory, skipping backups without readable metadata. */
+  private readAllMetadata(): BackupMetadata[] {
+    const backupDir = path.resolve(this.config.backupDir);
+    return this.getBackupFiles().flatMap((file) => {
+      try {
+        const metadata = JSON.parse(fs.readFileSync(path.join(backupDir, `${file}.json`), 'utf-8')) as BackupMetadata;
+        return metadata.archivePath ? [{ ...metadata, archivePath: path.basename(metadata.archivePath) }] : [];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  /** Checks whether a metadata file describes a backup set (a backup made of per-collection parts). */
+  private isBackupSet(metadataPath: string): boolean {
+    try {
+      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as BackupMetadata;
+      return !!metadata.parts?.length;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Checks whether a metadata file describes a snapshot taken before a restore. */
+  private isPreRestoreSnapshot(metadataPath: string): boolean {
+    try {
+      const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8')) as BackupMetadata;
+      return !!metadata.preRestoreSnapshot;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Removes the parts of an incomplete backup set. */
+  private removeParts(parts: BackupPart[]): void {
+    const backupDir = path.resolve(this.config.backupDir);
+    parts.forEach((part) => {
+      try {
+        fs.unlinkSync(path.join(backupDir, part.archivePath));
+        this.logger.info(`Cleaned up part of incomplete backup set: ${part.archivePath}`);
+      } catch (error: any) {
+        this.logger.warn(`Failed to clean up part ${part.archivePath}: ${error.message}`);
+      }
+    });
+  }
 }
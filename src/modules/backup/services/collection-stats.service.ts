@@ -0,0 +1,52 @@
+import type { AppConfig, CollectionQueries, CollectionStats, ConnectionConfig } from '@ts-types/mixed';
+import type { BackupArgs } from '../interfaces/backup-args.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+import { Dump } from '../domain/dump';
+
+/**
+ * Captures what the source holds for the collections a backup dumps, for the metadata sidecar.
+ */
+export class CollectionStatsService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly mongoService: MongoDBService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Resolves the collections mongodump will dump for the given arguments and collects their
+   * document counts, storage sizes, indexes and options. Filtered collections count the matching documents.
+   * Failures are logged and never fail the backup.
+   *
+   * @param source - The configuration of the source MongoDB connection.
+   * @param args - The effective mongodump arguments (mode, collections and filters).
+   * @returns The statistics per dumped collection, or undefined if they could not be collected.
+   */
+  async capture(source: ConnectionConfig, args: BackupArgs): Promise<CollectionStats[] | undefined> {
+    const dump = new Dump(this.config, this.logger);
+    try {
+      await this.mongoService.connect(source);
+      const allCollections = await this.mongoService.getCollections(source.database);
+      const dumped = dump.resolveDumpedCollections(allCollections, args);
+
+      const queries: CollectionQueries = {};
+      dumped.forEach((coll) => {
+        const query = dump.buildCollectionQuery(coll, args);
+        if (query) {
+          queries[coll] = query;
+        }
+      });
+
+      return await this.mongoService.getCollectionStats(source.database, dumped.sort(), queries);
+    } catch (error: any) {
+      this.logger.warn(`[${source.name}] Could not collect collection statistics for the metadata: ${error.message}`);
+      return undefined;
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+}
@@ -2,9 +2,11 @@
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
+import type { Readable, Writable } from 'stream';
 import { NodeSSH } from 'node-ssh';
 import type { SSHConfig } from '@ts-types/mixed';
 import { Logger } from '@infrastructure/logger';
+import { ConfigError, ConnectionError } from '@infrastructure/errors';
 
 export class SshBackupRunner {
   constructor(private readonly logger: Logger) {}
@@ -24,67 +26,10 @@ export class SshBackupRunner {
     queryValue?: string,
     outputPath?: string,
   ): Promise<void> {
-    const sshConnectionOptions: any = {
-      host: sshConfig.host,
-      port: sshConfig.port || 22,
-      username: sshConfig.username,
-    };
-
-    if (sshConfig.password) {
-      sshConnectionOptions.password = sshConfig.password;
-    } else if (sshConfig.privateKey) {
-      const privateKeyPath = sshConfig.privateKey.startsWith('~')
-        ? path.join(os.homedir(), sshConfig.privateKey.substring(1))
-        : sshConfig.privateKey;
-      try {
-        sshConnectionOptions.privateKey = fs.readFileSync(privateKeyPath, 'utf-8');
-        if (sshConfig.passphrase) {
-          sshConnectionOptions.passphrase = sshConfig.passphrase;
-        }
-      } catch (err: any) {
-        throw new Error(`Failed to read private key at ${privateKeyPath}: ${err.message}`);
-      }
-    } else {
-      throw new Error('SSH configuration must include either password or privateKey.');
-    }
-
-    const ssh = new NodeSSH();
-    await ssh.connect(sshConnectionOptions);
+    const ssh = await this.connect(sshConfig);
 
     try {
-      // Prepare command with arguments
-      const remoteCommandParts = [command];
-      args.forEach((arg) => {
-        if (
-          arg.includes(' ') ||
-          arg.includes('"') ||
-          arg.includes("'") ||
-          arg.includes('$') ||
-          arg.includes('=') ||
-          arg.includes('{')
-        ) {
-          // eslint-disable-next-line prettier/prettier
-          if (arg.startsWith("'") && arg.endsWith("'") && arg.includes('{')) {
-            remoteCommandParts.push(arg);
-          } else if (arg.startsWith('--password=') || arg.startsWith('--username=')) {
-            const [key, ...valueParts] = arg.split('=');
-            const value = valueParts.join('=');
-            remoteCommandParts.push(`${key}='${value.replace(/['$`\\]/g, '\\$&')}'`);
-          } else if (arg.startsWith('--uri=')) {
-            remoteCommandParts.push(`${arg.replace(/^(--uri=)/, "$1'")}'`);
-          } else {
-            remoteCommandParts.push(`'${arg.replace(/['$`\\]/g, '\\$&')}'`);
-          }
-        } else {
-          remoteCommandParts.push(arg);
-        }
-      });
-
-      if (queryValue) {
-        remoteCommandParts.push('--query', `'${queryValue}'`);
-      }
-
-      const remoteCommand = remoteCommandParts.join(' ');
+      const remoteCommand = this.buildRemoteCommand(command, args, queryValue);
       // Log the final mongodump command
 
       this.logger.info(`Running mongodump command: 
@@ -163,4 +108,283 @@ export class SshBackupRunner {
       ssh.dispose();
     }
   }
+
+  /**
+   * Runs a short command over SSH and collects its output (e.g. `mongodump --version`).
+   * @param sshConfig - SSH connection configuration
+   * @param command - Base command to execute (e.g., 'mongodump')
+   * @param args - Command arguments
+   * @returns Exit code, stdout and stderr of the remote command
+   */
+  async runCommand(
+    sshConfig: SSHConfig,
+    command: string,
+    args: string[],
+  ): Promise<{ code: number | null; stdout: string; stderr: string }> {
+    const ssh = await this.connect(sshConfig);
+    try {
+      const { code, stdout, stderr } = await ssh.execCommand(this.buildRemoteCommand(command, args));
+      return { code, stdout, stderr };
+    } finally {
+      ssh.dispose();
+    }
+  }
+
+  /**
+   * Executes a command over SSH and streams a local file into its stdin.
+   * Used for restores, where the archive is piped into a remote mongorestore.
+   * @param sshConfig - SSH connection configuration
+   * @param command - Base command to execute (e.g., 'mongorestore')
+   * @param args - Command arguments
+   * @param inputPath - Path of the local file to pipe into the command
+   * @returns Collected stdout and stderr of the remote command
+   */
+  async streamFileToCommand(
+    sshConfig: SSHConfig,
+    command: string,
+    args: string[],
+    inputPath: string,
+  ): Promise<{ stdout: string; stderr: string }> {
+    return this.streamInputToCommand(sshConfig, command, args, fs.createReadStream(inputPath));
+  }
+
+  /**
+   * Executes a command over SSH and pipes a readable stream into its stdin.
+   * @param sshConfig - SSH connection configuration
+   * @param command - Base command to execute (e.g., 'mongorestore')
+   * @param args - Command arguments
+   * @param input - Stream to pipe into the command (e.g., a local archive or a live mongodump stream)
+   * @returns Collected stdout and stderr of the remote command
+   */
+  async streamInputToCommand(
+    sshConfig: SSHConfig,
+    command: string,
+    args: string[],
+    input: Readable,
+  ): Promise<{ stdout: string; stderr: string }> {
+    const ssh = await this.connect(sshConfig);
+
+    try {
+      const remoteCommand = this.buildRemoteCommand(command, args);
+
+      this.logger.info(`Running ${command} command: 
+      -------------------
+      ${remoteCommand}
+      -------------------
+      `);
+
+      let stdout = '';
+      let stderr = '';
+
+      await new Promise<void>((resolve, reject) => {
+        ssh.connection?.exec(remoteCommand, {}, (err, stream) => {
+          if (err) {
+            reject(new Error(`Failed to execute command: ${err.message}`));
+            return;
+          }
+
+          input.on('error', (inputErr) => {
+            stream.close();
+            reject(new Error(`Failed reading input stream: ${inputErr.message}`));
+          });
+
+          input.pipe(stream);
+
+          stream.on('data', (data: Buffer) => {
+            const msg = data.toString('utf8');
+            stdout += msg;
+            this.logger.info(`[SSH:${command}][stdout] ${msg.trim()}`);
+          });
+
+          stream.stderr.on('data', (data: Buffer) => {
+            const msg = data.toString('utf8');
+            stderr += msg;
+            this.logger.warn(`[SSH:${command}][stderr] ${msg.trim()}`);
+          });
+
+          stream.on('close', (code: number) => {
+            if (code !== 0) {
+              reject(new Error(`Command failed with code ${code}. stderr: ${stderr}`));
+            } else {
+              resolve();
+            }
+          });
+
+          stream.on('error', (streamErr: Error) => {
+            reject(new Error(`Stream error: ${streamErr.message}`));
+          });
+        });
+      });
+
+      return { stdout, stderr };
+    } finally {
+      ssh.dispose();
+    }
+  }
+
+  /**
+   * Executes a command over SSH and pipes its stdout into a writable stream.
+   * The output stream is ended when the remote command finishes.
+   * @param sshConfig - SSH connection configuration
+   * @param command - Base command to execute (e.g., 'mongodump')
+   * @param args - Command arguments
+   * @param queryValue - Optional query value for mongodump
+   * @param output - Stream receiving the command output (e.g., a mongorestore stdin)
+   * @param signal - Optional signal that closes the channel when aborted
+   */
+  async streamCommandToOutput(
+    sshConfig: SSHConfig,
+    command: string,
+    args: string[],
+    queryValue: string | undefined,
+    output: Writable,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const ssh = await this.connect(sshConfig);
+
+    try {
+      const remoteCommand = this.buildRemoteCommand(command, args, queryValue);
+
+      this.logger.info(`Running ${command} command: 
+      -------------------
+      ${remoteCommand}
+      -------------------
+      `);
+
+      let stderr = '';
+
+      await new Promise<void>((resolve, reject) => {
+        ssh.connection?.exec(remoteCommand, {}, (err, stream) => {
+          if (err) {
+            reject(new Error(`Failed to execute command: ${err.message}`));
+            return;
+          }
+
+          stream.pipe(output);
+
+          signal?.addEventListener('abort', () => {
+            stream.close();
+            reject(new Error(`${command} aborted.`));
+          });
+
+          stream.stderr.on('data', (data: Buffer) => {
+            const msg = data.toString('utf8');
+            stderr += msg;
+            this.logger.warn(`[SSH:${command}][stderr] ${msg.trim()}`);
+          });
+
+          stream.on('close', (code: number) => {
+            if (code !== 0) {
+              reject(new Error(`Command failed with code ${code}. stderr: ${stderr}`));
+            } else {
+              resolve();
+            }
+          });
+
+          stream.on('error', (streamErr: Error) => {
+            reject(new Error(`Stream error: ${streamErr.message}`));
+          });
+        });
+      });
+    } finally {
+      ssh.dispose();
+    }
+  }
+
+  /** Opens an SSH connection; an unreachable host or rejected credentials throw a `ConnectionError`. */
+  private async connect(sshConfig: SSHConfig): Promise<NodeSSH> {
+    const sshConnectionOptions = this.buildConnectionOptions(sshConfig);
+    const ssh = new NodeSSH();
+    try {
+      await ssh.connect(sshConnectionOptions);
+    } catch (error: any) {
+      throw new ConnectionError(`SSH connection to ${sshConfig.host} failed: ${error.message ?? error}`);
+    }
+    return ssh;
+  }
+
+  /**
+   * Opens an SSH connection and closes it again, to check that the host is reachable and accepts the credentials.
+   * @throws A `ConfigError` if the private key cannot be read, a `ConnectionError` if the connection fails.
+   */
+  async testConnection(sshConfig: SSHConfig): Promise<void> {
+    const ssh = await this.connect(sshConfig);
+    ssh.dispose();
+  }
+
+  /**
+   * Builds the node-ssh connection options, reading the private key if no password is configured.
+   * @throws A `ConfigError` if the key cannot be read or neither a password nor a key is configured.
+   */
+  buildConnectionOptions(sshConfig: SSHConfig): Record<string, any> {
+    const sshConnectionOptions: Record<string, any> = {
+      host: sshConfig.host,
+      port: sshConfig.port || 22,
+      username: sshConfig.username,
+    };
+
+    if (sshConfig.password) {
+      sshConnectionOptions.password = sshConfig.password;
+    } else if (sshConfig.privateKey) {
+      const privateKeyPath = sshConfig.privateKey.startsWith('~')
+        ? path.join(os.homedir(), sshConfig.privateKey.substring(1))
+        : sshConfig.privateKey;
+      try {
+        sshConnectionOptions.privateKey = fs.readFileSync(privateKeyPath, 'utf-8');
+        if (sshConfig.passphrase) {
+          sshConnectionOptions.passphrase = sshConfig.passphrase;
+        }
+      } catch (err: any) {
+        throw new ConfigError(`Failed to read private key at ${privateKeyPath}: ${err.message}`);
+      }
+    } else {
+      throw new ConfigError('SSH configuration must include either password or privateKey.');
+    }
+
+    return sshConnectionOptions;
+  }
+
+  /**
+   * Builds the shell command line run on the remote host, quoting arguments for the remote shell.
+   * @param command - Base command (e.g., 'mongodump')
+   * @param args - Command arguments
+   * @param queryValue - Optional query value for mongodump, passed as a single-quoted --query
+   * @returns The remote command line
+   */
+  buildRemoteCommand(command: string, args: string[], queryValue?: string): string {
+    // Prepare command with arguments
+    const remoteCommandParts = [command];
+    args.forEach((arg) => {
+      if (
+        arg.includes(' ') ||
+        arg.includes('"') ||
+        arg.includes("'") ||
+        arg.includes('$') ||
+        arg.includes('=') ||
+        arg.includes('{')
+      ) {
+        // eslint-disable-next-line prettier/prettier
+        if (arg.startsWith("'") && arg.endsWith("'") && arg.includes('{')) {
+          remoteCommandParts.push(arg);
+        } else if (arg.startsWith('--password=') || arg.startsWith('--username=')) {
+          const [key, ...valueParts] = arg.split('=');
+          const value = valueParts.join('=');
+          remoteCommandParts.push(`${key}='${value.replace(/['$`\\]/g, '\\$&')}'`);
+        } else if (arg.startsWith('--uri=')) {
+          remoteCommandParts.push(`${arg.replace(/^(--uri=)/, "$1'")}'`);
+        } else {
+          remoteCommandParts.push(`'${arg.replace(/['$`\\]/g, '\\$&')}'`);
+        }
+      } else {
+        remoteCommandParts.push(arg);
+      }
+    });
+
+    if (queryValue) {
+      // Single quotes inside the JSON (e.g. {"name": "O'Brien"}) must close, escape and reopen the quoted string
+      remoteCommandParts.push('--query', `'${queryValue.replace(/'/g, "'\\''")}'`);
+    }
+
+    return remoteCommandParts.join(' ');
+  }
 }
@@ -5,6 +5,7 @@ import type { BackupArgs } from '../interfaces/backup-args.interface';
 import { BackupStrategy } from '../interfaces/backup-strategy.interface';
 import { Dump } from '../domain/dump';
 import { Logger } from '@infrastructure/logger';
+import { resolveToolPath } from '@utils/resolve-tool-path';
 
 export class LocalBackupStrategy implements BackupStrategy {
   private readonly backupCommand: Dump;
@@ -16,14 +17,25 @@ export class LocalBackupStrategy implements BackupStrategy {
     this.backupCommand = new Dump(this.config, this.logger);
   }
 
+  describeBackup(source: ConnectionConfig, args: BackupArgs): { command: string; archivePath: string } {
+    const { baseArgs } = this.backupCommand.buildArgs(source, args);
+    const archivePath = args.outputPath ?? this.backupCommand.buildBackupFilePath(source, false);
+    baseArgs.push(`--archive=${archivePath}`);
+    return {
+      command: `${resolveToolPath(this.config.mongodumpPath)} ${baseArgs.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`,
+      archivePath,
+    };
+  }
+
   async createBackup(source: ConnectionConfig, args: BackupArgs): Promise<string> {
     const { baseArgs } = this.backupCommand.buildArgs(source, args);
-    const filePath = this.backupCommand.buildBackupFilePath(source);
+    const filePath = args.outputPath ?? this.backupCommand.buildBackupFilePath(source);
 
     baseArgs.push(`--archive=${filePath}`);
 
     // Log the final mongodump command
-    const commandString = `mongodump ${baseArgs.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
+    const mongodumpPath = resolveToolPath(this.config.mongodumpPath);
+    const commandString = `${mongodumpPath} ${baseArgs.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
     this.logger.info(`[${source.name}] Running mongodump command: 
       -------------------
       ${commandString}
@@ -35,7 +47,7 @@ export class LocalBackupStrategy implements BackupStrategy {
     //   - stdin is a writable stream (can send query input to mongodump)
     //   - stdout is a readable stream (can read dump output or logs)
     //   - stderr is a readable stream (can read error messages and mongodump logs)
-    const mongodumpProcess = spawn('mongodump', baseArgs, {
+    const mongodumpProcess = spawn(mongodumpPath, baseArgs, {
       stdio: ['pipe', 'pipe', 'pipe'],
     });
 
@@ -62,13 +74,17 @@ export class LocalBackupStrategy implements BackupStrategy {
           const error = new Error(
             `mongodump process exited with code ${code}. stderr: ${stderrData}\nstdout: ${stdoutData}`,
           );
-          this.backupCommand.handleError(error, source, filePath, `mongodump ${baseArgs.join(' ')}`);
+          try {
+            this.backupCommand.handleError(error, source, filePath, `${mongodumpPath} ${baseArgs.join(' ')}`);
+          } catch (error) {
+            reject(error);
+          }
         }
       });
 
       mongodumpProcess.on('error', (error) => {
         try {
-          this.backupCommand.handleError(error, source, filePath, `mongodump ${baseArgs.join(' ')}`);
+          this.backupCommand.handleError(error, source, filePath, `${mongodumpPath} ${baseArgs.join(' ')}`);
         } catch (error) {
           reject(error);
         }
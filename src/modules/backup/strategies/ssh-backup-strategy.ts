@@ -17,19 +17,38 @@ export class SshBackupStrategy implements BackupStrategy {
     this.backupCommand = new Dump(this.config, this.logger);
   }
 
+  describeBackup(source: ConnectionConfig, args: BackupArgs): { command: string; archivePath: string } {
+    if (!source.ssh) {
+      throw new Error(`[${source.name}] SSH configuration is required for SSH backup strategy.`);
+    }
+    const { baseArgs, queryValue } = this.backupCommand.buildArgs(source, args);
+    const archivePath = args.outputPath ?? this.backupCommand.buildBackupFilePath(source, false);
+    baseArgs.push('--archive');
+    const remoteCommand = this.sshService.buildRemoteCommand(
+      source.ssh.remoteMongodumpPath || 'mongodump',
+      baseArgs,
+      queryValue,
+    );
+    return {
+      command: `ssh ${source.ssh.username}@${source.ssh.host} -p ${source.ssh.port || 22} ${remoteCommand} > ${archivePath}`,
+      archivePath,
+    };
+  }
+
   async createBackup(source: ConnectionConfig, args: BackupArgs): Promise<string> {
     if (!source.ssh) {
       throw new Error(`[${source.name}] SSH configuration is required for SSH backup strategy.`);
     }
 
     const { baseArgs, queryValue } = this.backupCommand.buildArgs(source, args);
-    const filePath = this.backupCommand.buildBackupFilePath(source);
+    const filePath = args.outputPath ?? this.backupCommand.buildBackupFilePath(source);
 
     const tempFilePath = `${filePath}.tmp`;
+    const mongodumpPath = source.ssh.remoteMongodumpPath || 'mongodump';
     baseArgs.push('--archive');
 
     try {
-      await this.sshService.executeCommand(source.ssh, 'mongodump', baseArgs, queryValue, tempFilePath);
+      await this.sshService.executeCommand(source.ssh, mongodumpPath, baseArgs, queryValue, tempFilePath);
 
       // Rename temp file to final name
       fs.renameSync(tempFilePath, filePath);
@@ -37,7 +56,7 @@ export class SshBackupStrategy implements BackupStrategy {
 
       return filePath;
     } catch (error: any) {
-      this.backupCommand.handleError(error, source, tempFilePath, `mongodump ${baseArgs.join(' ')}`);
+      this.backupCommand.handleError(error, source, tempFilePath, `${mongodumpPath} ${baseArgs.join(' ')}`);
     }
   }
 }
@@ -0,0 +1,91 @@
+import { formatDistanceToNowStrict } from 'date-fns';
+
+import type { BackupMetadata } from '@ts-types/mixed';
+import type { CatalogEntry, CatalogFilter } from '../interfaces/catalog-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { describeTimeWindow } from '@utils/describe-time-window';
+import { formatSize } from '@utils/format-size';
+import { formatTable } from '@utils/format-table';
+import { CatalogService } from '../services/catalog.service';
+
+/** Longest collections cell before it is truncated. */
+const MAX_COLLECTIONS_WIDTH = 40;
+
+/**
+ * Prints the backup catalog as a table or as JSON.
+ */
+export class CatalogController {
+  constructor(
+    private readonly catalogService: CatalogService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Lists backups based on non-interactive arguments.
+   * @param filter - Source, preset and time filters.
+   * @param json - Print the entries as a JSON array (for scripting) instead of a table.
+   * @returns The listed entries.
+   */
+  async listFromArgs(filter: CatalogFilter, json: boolean): Promise<CatalogEntry[]> {
+    const entries = this.catalogService.listBackups(filter);
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+      return entries;
+    }
+
+    if (entries.length === 0) {
+      this.logger.info('No backups found.');
+      return entries;
+    }
+
+    const rows = entries.map((entry) => [
+      entry.backupFile,
+      entry.metadata?.source ?? '?',
+      entry.metadata?.database ?? '?',
+      entry.metadata ? `${entry.metadata.selectionMode}${entry.metadata.oplog ? ' + oplog' : ''}` : '?',
+      this.describeCollections(entry.metadata),
+      entry.metadata?.collections
+        ? entry.metadata.collections.reduce((sum, stats) => sum + stats.documentCount, 0).toLocaleString('en-US')
+        : '',
+      entry.metadata?.presetName
+        ? `${entry.metadata.presetName}${entry.metadata.parent ? ' (incremental)' : ''}`
+        : entry.metadata?.preRestoreSnapshot
+          ? 'pre-restore snapshot'
+          : '',
+      entry.metadata?.queryStartTime || entry.metadata?.queryEndTime
+        ? describeTimeWindow(entry.metadata.queryStartTime, entry.metadata.queryEndTime, entry.metadata.queryTimeField)
+        : '',
+      formatSize(entry.size),
+      formatDistanceToNowStrict(entry.timestamp, { addSuffix: true }),
+    ]);
+    this.logger.print(
+      formatTable(
+        ['FILE', 'SOURCE', 'DATABASE', 'MODE', 'COLLECTIONS', 'DOCS', 'PRESET', 'WINDOW', 'SIZE', 'AGE'],
+        rows,
+      ),
+    );
+    const totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    this.logger.info(`${entries.length} backup(s), ${formatSize(totalSize)} in total.`);
+    return entries;
+  }
+
+  private describeCollections(metadata?: BackupMetadata): string {
+    if (!metadata) {
+      return '?';
+    }
+    let collections = 'all';
+    if (metadata.selectionMode === 'include') {
+      collections = metadata.includedCollections?.join(',') ?? '';
+    } else if (metadata.collections) {
+      // The recorded statistics name exactly what 'all' or 'exclude' dumped
+      collections = metadata.collections.map((stats) => stats.name).join(',');
+    } else if (metadata.selectionMode === 'exclude' && metadata.excludedCollections?.length) {
+      collections = `all except ${metadata.excludedCollections.join(',')}`;
+    }
+    return collections.length > MAX_COLLECTIONS_WIDTH
+      ? `${collections.slice(0, MAX_COLLECTIONS_WIDTH - 1)}…`
+      : collections;
+  }
+}
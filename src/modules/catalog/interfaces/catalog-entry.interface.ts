@@ -0,0 +1,21 @@
+import type { BackupMetadata } from '@ts-types/mixed';
+
+export interface CatalogEntry {
+  /** The backup filename (archive or backup set) in the backup directory. */
+  backupFile: string;
+  /** Total size of the archive files in bytes. */
+  size: number;
+  /** Unix timestamp (milliseconds) of the backup: from the metadata, or the file modification time. */
+  timestamp: number;
+  /** The metadata sidecar, if it exists and is readable. */
+  metadata?: BackupMetadata;
+}
+
+export interface CatalogFilter {
+  /** Only backups of this source connection. */
+  source?: string;
+  /** Only backups created with this backup preset. */
+  preset?: string;
+  /** Only backups created at or after this time. */
+  since?: Date;
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { AppConfig, BackupMetadata } from '@ts-types/mixed';
+import type { CatalogEntry, CatalogFilter } from '../interfaces/catalog-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { BackupService } from '@modules/backup/services/backup.service';
+
+/**
+ * Builds the catalog of backups in the backup directory from their metadata sidecars.
+ */
+export class CatalogService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly backupService: BackupService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Lists the backups in the backup directory, newest first.
+   * Backups without readable metadata are listed with file information only and never match a source or preset filter.
+   *
+   * @param filter - Optional source, preset and time filters.
+   * @returns The matching catalog entries.
+   */
+  listBackups(filter: CatalogFilter = {}): CatalogEntry[] {
+    return this.backupService
+      .getBackupFiles()
+      .map((backupFile) => this.describeBackup(backupFile))
+      .filter(
+        (entry) =>
+          (!filter.source || entry.metadata?.source === filter.source) &&
+          (!filter.preset || entry.metadata?.presetName === filter.preset) &&
+          (!filter.since || entry.timestamp >= filter.since.getTime()),
+      )
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  private describeBackup(backupFile: string): CatalogEntry {
+    const backupDir = path.resolve(this.config.backupDir);
+    const metadataPath = path.join(backupDir, `${backupFile}.json`);
+
+    let metadata: BackupMetadata | undefined;
+    if (fs.existsSync(metadataPath)) {
+      try {
+        metadata = this.backupService.loadBackupMetadata(backupFile);
+      } catch {
+        this.logger.warn(`Listing ${backupFile} without metadata because its metadata is unreadable.`);
+      }
+    }
+
+    if (metadata) {
+      return {
+        backupFile,
+        size: this.backupService.getArchiveSize(metadata),
+        timestamp: metadata.timestamp,
+        metadata,
+      };
+    }
+    const archivePath = path.join(backupDir, backupFile);
+    if (!fs.existsSync(archivePath)) {
+      return { backupFile, size: 0, timestamp: fs.statSync(metadataPath).mtime.getTime() };
+    }
+    const stats = fs.statSync(archivePath);
+    return { backupFile, size: stats.size, timestamp: stats.mtime.getTime() };
+  }
+}
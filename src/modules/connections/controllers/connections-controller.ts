@@ -0,0 +1,68 @@
+import type { AppConfig, ConnectionConfig } from '@ts-types/mixed';
+import type { ConnectionEntry } from '../interfaces/connection-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { formatTable } from '@utils/format-table';
+import { maskSecrets } from '@utils/mask-secrets';
+
+/**
+ * Prints the connections of the config as a table or as JSON, without their credentials.
+ */
+export class ConnectionsController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Lists connections based on non-interactive arguments.
+   * @param json - Print the entries as a JSON array (for scripting) instead of a table.
+   * @returns The listed entries.
+   */
+  async listFromArgs(json: boolean): Promise<ConnectionEntry[]> {
+    const entries = this.config.connections.map((connection) => this.describeConnection(connection));
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+      return entries;
+    }
+
+    if (entries.length === 0) {
+      this.logger.info('No connections configured.');
+      return entries;
+    }
+
+    const rows = entries.map((entry) => [
+      entry.name,
+      entry.database,
+      entry.replicaSet ? `${entry.address} (${entry.replicaSet})` : entry.address,
+      entry.ssh ?? '',
+      [entry.protected ? 'protected' : undefined, entry.allowDrop ? undefined : 'no drop'].filter(Boolean).join(', '),
+    ]);
+    this.logger.print(formatTable(['NAME', 'DATABASE', 'ADDRESS', 'SSH', 'FLAGS'], rows));
+    this.logger.info(`${entries.length} connection(s).`);
+    return entries;
+  }
+
+  private describeConnection(connection: ConnectionConfig): ConnectionEntry {
+    let address = '?';
+    if (connection.uri) {
+      address = maskSecrets(connection.uri);
+    } else if (connection.hosts?.length) {
+      address = connection.hosts.map((member) => `${member.host}:${member.port ?? 27017}`).join(',');
+    } else if (connection.host) {
+      address = `${connection.host}:${connection.port ?? 27017}`;
+    }
+    return {
+      name: connection.name,
+      database: connection.database,
+      address,
+      replicaSet: connection.replicaSet,
+      ssh: connection.ssh
+        ? `${connection.ssh.username}@${connection.ssh.host}:${connection.ssh.port ?? 22}`
+        : undefined,
+      protected: connection.protected ?? false,
+      allowDrop: connection.allowDrop ?? true,
+    };
+  }
+}
@@ -0,0 +1,12 @@
+/** A configured connection as listed by `connections`; passwords and keys are left out. */
+export interface ConnectionEntry {
+  name: string;
+  database: string;
+  /** The connection string with its password masked, or the host:port of each server. */
+  address: string;
+  replicaSet?: string;
+  /** The SSH host the connection goes through, as user@host:port. */
+  ssh?: string;
+  protected: boolean;
+  allowDrop: boolean;
+}
@@ -0,0 +1,239 @@
+import path from 'path';
+import fs from 'fs';
+
+import type { AppConfig, BackupMetadata, CollectionStats, ConnectionConfig } from '@ts-types/mixed';
+import type { BackupArgs, BackupFilters } from '@modules/backup/interfaces/backup-args.interface';
+import type { PromptService } from '@modules/prompt/services/prompt-service';
+import type { CopyOptions } from '../interfaces/copy-options.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+import { CollectionStatsService } from '@modules/backup/services/collection-stats.service';
+import { CopyService } from '../services/copy.service';
+import { ProtectedTargetGuard } from '@modules/restore/services/protected-target-guard';
+import { JournalService } from '@modules/journal/services/journal.service';
+
+/**
+ * Manages copying collections between connections, coordinating user prompts and the CopyService.
+ */
+export class CopyController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly promptService: PromptService,
+    private readonly mongoService: MongoDBService,
+    private readonly copyService: CopyService,
+    private readonly logger: Logger,
+    private readonly collectionStats: CollectionStatsService = new CollectionStatsService(config, mongoService, logger),
+    private readonly protectedTargetGuard: ProtectedTargetGuard = new ProtectedTargetGuard(promptService, logger),
+    private readonly journal: JournalService = new JournalService(config, logger),
+  ) {}
+
+  /**
+   * Initiates the interactive copy process.
+   * Prompts the user for source, collections, target and options, then streams the copy.
+   */
+  async copyInteractively(): Promise<void> {
+    try {
+      const { source, target, selectedCollections, excludedCollections, selectionMode, options, ...filters } =
+        await this.promptService.askCopyConfig();
+
+      await this.runCopy(
+        source,
+        target,
+        selectionMode,
+        selectedCollections,
+        excludedCollections,
+        filters,
+        options,
+        true,
+      );
+    } catch (error: any) {
+      if (this.logger.spinner?.isSpinning) {
+        this.logger.failSpinner(`Interactive copy failed: ${error.message}`);
+      } else {
+        this.logger.error(`Interactive copy failed: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Performs a copy based on non-interactive arguments.
+   * @param sourceName - Name of the source connection.
+   * @param targetName - Name of the target connection.
+   * @param mode - The mode specified ('all', 'include', 'exclude').
+   * @param collections - The list of collections specified (for include/exclude).
+   * @param filters - Optional time window and query filters (require mode=include).
+   * @param options - Restore options and whether to keep a copy of the archive on disk.
+   */
+  async copyFromArgs(
+    sourceName: string,
+    targetName: string,
+    mode: 'all' | 'include' | 'exclude',
+    collections: string[],
+    filters: BackupFilters,
+    options: CopyOptions,
+  ): Promise<void> {
+    const source = this.config.connections.find((conn) => conn.name === sourceName);
+    if (!source) {
+      throw new ConfigError(`Source connection "${sourceName}" not found.`);
+    }
+    const target = this.config.connections.find((conn) => conn.name === targetName);
+    if (!target) {
+      throw new ConfigError(`Target connection "${targetName}" not found.`);
+    }
+
+    await this.runCopy(source, target, mode, collections, collections, filters, options);
+  }
+
+  private async runCopy(
+    source: ConnectionConfig,
+    target: ConnectionConfig,
+    mode: 'all' | 'include' | 'exclude',
+    included: string[],
+    excluded: string[],
+    filters: BackupFilters,
+    options: CopyOptions,
+    interactive: boolean = false,
+  ): Promise<void> {
+    if (source.name === target.name) {
+      throw new ConfigError('Source and target connections must differ for copy.');
+    }
+    this.protectedTargetGuard.assertAllowed(target, options, !interactive);
+    if (interactive && !(await this.protectedTargetGuard.confirmInteractively(target))) {
+      this.logger.info('Copy cancelled.');
+      return;
+    }
+
+    this.logger.startSpinner(`Preparing copy from ${source.name} to ${target.name}...`);
+    const startedAt = new Date().toISOString();
+    const journalEntry = {
+      operation: 'copy' as const,
+      startedAt,
+      source: source.name,
+      target: target.name,
+      options: {
+        mode,
+        collections: mode === 'include' ? included : mode === 'exclude' ? excluded : undefined,
+        since: filters.startTime?.toISOString(),
+        until: filters.endTime?.toISOString(),
+        queries: filters.queries ? Object.keys(filters.queries) : undefined,
+        drop: options.drop,
+        rename: options.renameCollections,
+        saveArchive: options.saveArchive,
+      },
+    };
+    try {
+      const args = await this.resolveBackupArgs(source, mode, included, excluded, filters);
+      let collectionStats: CollectionStats[] | undefined;
+      if (options.saveArchive) {
+        this.logger.updateSpinner(`Collecting collection statistics for ${source.name}...`);
+        collectionStats = await this.collectionStats.capture(source, args);
+      }
+      this.logger.stopSpinner();
+
+      const saved = await this.copyService.copy(source, target, args, options);
+
+      if (saved) {
+        const { archivePath, parts, sha256, size } = saved;
+        const now = new Date();
+        const metadata: BackupMetadata = {
+          source: source.name,
+          database: source.database,
+          selectionMode: mode,
+          includedCollections: mode === 'include' ? included : undefined,
+          excludedCollections: mode === 'exclude' ? excluded : undefined,
+          timestamp: now.getTime(),
+          date: now.toISOString(),
+          archivePath: path.basename(archivePath),
+          presetName: undefined,
+          queryStartTime: filters.startTime?.toISOString(),
+          queryEndTime: filters.endTime?.toISOString(),
+          queryTimeField: filters.timeField,
+          queries: filters.queries,
+          parts,
+          sha256,
+          size,
+          collections: collectionStats,
+        };
+        const metadataPath = `${archivePath}.json`;
+        fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
+        this.logger.info(`Archive saved: ${archivePath} | Metadata saved: ${metadataPath}`);
+      }
+
+      this.journal.record({
+        ...journalEntry,
+        outcome: 'success',
+        archive: saved ? path.basename(saved.archivePath) : undefined,
+      });
+      this.logger.info(
+        `Copy from "${source.name}" to "${target.name}" (Database: ${target.database}) completed successfully.`,
+      );
+    } catch (error: any) {
+      this.journal.record({ ...journalEntry, outcome: 'failure', error: error.message });
+      this.logger.failSpinner(`Copy failed: ${error.message}`);
+      throw error;
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+
+  /**
+   * Translates the intended selection into mongodump arguments.
+   * mongodump cannot include several collections at once, so 'include' is turned into
+   * 'exclude' of every other collection. Unlike backups, a failed listing is not
+   * downgraded to 'all': copying unintended collections into a target is not acceptable.
+   */
+  private async resolveBackupArgs(
+    source: ConnectionConfig,
+    mode: 'all' | 'include' | 'exclude',
+    included: string[],
+    excluded: string[],
+    filters: BackupFilters,
+  ): Promise<BackupArgs> {
+    if (filters.startTime || filters.endTime || filters.queries) {
+      return {
+        mode: 'include',
+        selectedCollections: included,
+        excludedCollections: [],
+        ...filters,
+      };
+    }
+
+    if (mode === 'include' && included.length > 0) {
+      this.logger.updateSpinner(`Fetching collections from ${source.name}...`);
+      await this.mongoService.connect(source);
+      const allCollections = await this.mongoService.getCollections(source.database);
+      await this.mongoService.close();
+
+      const missing = included.filter((coll) => !allCollections.includes(coll));
+      if (missing.length === included.length) {
+        throw new ConfigError(`None of the specified collections (${included.join(', ')}) found in ${source.name}.`);
+      }
+      if (missing.length > 0) {
+        this.logger.warn(`Collections not found in ${source.name}, skipping: ${missing.join(', ')}`);
+      }
+
+      const actualExcluded = allCollections.filter((coll) => !included.includes(coll));
+      return actualExcluded.length === 0
+        ? { mode: 'all', selectedCollections: [], excludedCollections: [] }
+        : {
+            mode: 'exclude',
+            selectedCollections: [],
+            excludedCollections: actualExcluded,
+          };
+    }
+
+    if (mode === 'exclude') {
+      return {
+        mode: 'exclude',
+        selectedCollections: [],
+        excludedCollections: excluded,
+      };
+    }
+
+    return { mode: 'all', selectedCollections: [], excludedCollections: [] };
+  }
+}
@@ -0,0 +1,6 @@
+import { RestoreOptions } from '@modules/restore/interfaces/restore-options.interface';
+
+export interface CopyOptions extends RestoreOptions {
+  /** Also write the streamed archive to `backupDir` (with a metadata sidecar). */
+  saveArchive?: boolean;
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { PassThrough, Readable, Writable } from 'stream';
+
+import type { AppConfig, BackupPart, ConnectionConfig } from '@ts-types/mixed';
+import type { BackupArgs } from '@modules/backup/interfaces/backup-args.interface';
+import type { BackupResult } from '@modules/backup/interfaces/backup-result.interface';
+import type { CopyOptions } from '../interfaces/copy-options.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { AppError, MongodumpError } from '@infrastructure/errors';
+import { Dump } from '@modules/backup/domain/dump';
+import { SshBackupRunner } from '@modules/backup/services/ssh-backup-runner';
+import { RestoreService } from '@modules/restore/services/restore.service';
+import { checksumFile } from '@utils/checksum-file';
+import { resolveToolPath } from '@utils/resolve-tool-path';
+
+/**
+ * Copies collections between two connections by piping the mongodump archive stream
+ * straight into mongorestore, without writing an intermediate archive to disk.
+ */
+export class CopyService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly restoreService: RestoreService,
+    private readonly logger: Logger,
+    private readonly sshRunner: SshBackupRunner = new SshBackupRunner(logger),
+  ) {}
+
+  /**
+   * Streams a mongodump of the source into mongorestore on the target.
+   * The source side is built by `Dump.buildArgs`, the target side by `RestoreService.buildRestoreArgs`,
+   * so filtering and namespace mapping behave exactly like a backup followed by a restore.
+   * Query filters on several collections copy one collection at a time, like a backup set.
+   *
+   * @param source - The configuration of the source MongoDB connection.
+   * @param target - The configuration of the target MongoDB connection.
+   * @param args - Collection filtering arguments for mongodump.
+   * @param options - Restore options plus `saveArchive` to tee the stream to disk.
+   * @returns The saved archive (or backup set and its parts) with checksums if `saveArchive` was set, otherwise undefined.
+   * @throws An error if either side of the pipe fails.
+   */
+  async copy(
+    source: ConnectionConfig,
+    target: ConnectionConfig,
+    args: BackupArgs,
+    options: CopyOptions,
+  ): Promise<BackupResult | undefined> {
+    const dump = new Dump(this.config, this.logger);
+    const archivePath = options.saveArchive ? dump.buildBackupFilePath(source) : undefined;
+
+    if (!dump.isBackupSet(args)) {
+      await this.copyArchive(dump, source, target, args, options, archivePath);
+      return archivePath ? { archivePath, ...(await checksumFile(archivePath)) } : undefined;
+    }
+
+    const parts: BackupPart[] = [];
+    for (const part of dump.splitBackupSet(args, archivePath)) {
+      this.logger.info(`Copying collection "${part.collection}"...`);
+      await this.copyArchive(dump, source, target, part.args, options, part.args.outputPath);
+      if (part.args.outputPath) {
+        parts.push({
+          collection: part.collection,
+          archivePath: path.basename(part.args.outputPath),
+          ...(await checksumFile(part.args.outputPath)),
+        });
+      }
+    }
+    return archivePath ? { archivePath, parts } : undefined;
+  }
+
+  /**
+   * Pipes a single mongodump run into mongorestore, optionally teeing the archive to `archivePath`.
+   */
+  private async copyArchive(
+    dump: Dump,
+    source: ConnectionConfig,
+    target: ConnectionConfig,
+    args: BackupArgs,
+    options: CopyOptions,
+    archivePath: string | undefined,
+  ): Promise<void> {
+    const { baseArgs, queryValue } = dump.buildArgs(source, args);
+    // No value: mongodump writes the archive to stdout
+    baseArgs.push('--archive');
+
+    // mongorestore may attach to its input later (e.g. after the SSH handshake);
+    // a PassThrough buffers the dump output until then instead of dropping it.
+    const restoreInput = new PassThrough();
+    let dumpOutput: Writable = restoreInput;
+    let archiveWritten: Promise<void> = Promise.resolve();
+    if (archivePath) {
+      const tee = new PassThrough();
+      tee.pipe(restoreInput);
+      archiveWritten = this.writeArchive(tee, archivePath);
+      dumpOutput = tee;
+    }
+
+    const abortController = new AbortController();
+
+    this.logger.info(
+      `Copying ${source.name} (${source.database}) -> ${target.name} (${target.database})${archivePath ? `, saving archive to ${archivePath}` : ''}`,
+    );
+
+    try {
+      await Promise.all([
+        this.startDump(source, baseArgs, queryValue, dumpOutput, abortController.signal),
+        this.restoreService.restoreFromStream(source.database, target, options, restoreInput),
+        archiveWritten,
+      ]);
+    } catch (error: any) {
+      abortController.abort();
+      restoreInput.destroy();
+      if (archivePath) {
+        try {
+          dump.handleError(error, source, archivePath, `mongodump ${baseArgs.join(' ')}`);
+        } catch {
+          // The incomplete archive is removed; the original failure is rethrown below
+        }
+      }
+      // mongodump and mongorestore failures keep their class (and exit code)
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new Error(`Copy from ${source.name} to ${target.name} failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Runs mongodump (locally or via SSH) and pipes the archive stream into the given output.
+   */
+  private startDump(
+    source: ConnectionConfig,
+    args: string[],
+    queryValue: string | undefined,
+    output: Writable,
+    signal: AbortSignal,
+  ): Promise<void> {
+    if (source.ssh) {
+      return this.sshRunner
+        .streamCommandToOutput(
+          source.ssh,
+          source.ssh.remoteMongodumpPath || 'mongodump',
+          args,
+          queryValue,
+          output,
+          signal,
+        )
+        .catch((error: Error) =>
+          Promise.reject(
+            error instanceof AppError ? error : new MongodumpError(`mongodump via SSH failed: ${error.message}`),
+          ),
+        );
+    }
+
+    const mongodumpPath = resolveToolPath(this.config.mongodumpPath);
+    const commandString = `${mongodumpPath} ${args.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
+    this.logger.info(`[${source.name}] Running mongodump command:`);
+    this.logger.snippet(commandString);
+
+    const mongodumpProcess = spawn(mongodumpPath, args, { stdio: ['ignore', 'pipe', 'pipe'], signal });
+    mongodumpProcess.stdout.pipe(output);
+
+    return new Promise<void>((resolve, reject) => {
+      let stderrData = '';
+
+      mongodumpProcess.stderr.on('data', (data) => {
+        stderrData += data.toString();
+        this.logger.warn(`[${source.name}] mongodump: ${data.toString().trim()}`);
+      });
+
+      mongodumpProcess.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new MongodumpError(`mongodump process exited with code ${code}. stderr: ${stderrData}`));
+        }
+      });
+
+      mongodumpProcess.on('error', (error) => {
+        reject(new MongodumpError(`Failed to start mongodump process: ${error.message}`));
+      });
+    });
+  }
+
+  private writeArchive(input: Readable, filePath: string): Promise<void> {
+    const fileStream = fs.createWriteStream(filePath);
+    input.pipe(fileStream);
+    return new Promise<void>((resolve, reject) => {
+      fileStream.on('finish', resolve);
+      fileStream.on('error', reject);
+    });
+  }
+}
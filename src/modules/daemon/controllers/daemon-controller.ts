@@ -0,0 +1,156 @@
+import type { AppConfig, BackupPreset } from '@ts-types/mixed';
+import type { ScheduledRunLog } from '../interfaces/scheduled-run.interface';
+
+import { Clock, systemClock } from '@infrastructure/clock';
+import { ConfigError } from '@infrastructure/errors';
+import { Logger } from '@infrastructure/logger';
+import { BackupController } from '@modules/backup/controllers/backup-controller';
+import { RetentionService } from '@modules/retention/services/retention.service';
+import { ScheduleService } from '../services/schedule.service';
+
+/**
+ * Runs the backup presets with a `schedule` whenever their cron expression fires (`--daemon`).
+ * Runs of different sources may overlap; a run whose source is still being backed up is skipped.
+ */
+export class DaemonController {
+  /** The run in progress per source connection. */
+  private readonly running = new Map<string, Promise<void>>();
+
+  /**
+   * @param createBackupController - Creates the controller for a run; runs of different sources need their own
+   * MongoDB connection, so every source gets its own controller.
+   * @param clock - The time source, replaceable by a fake clock.
+   */
+  constructor(
+    private readonly config: AppConfig,
+    private readonly scheduleService: ScheduleService,
+    private readonly retentionService: RetentionService,
+    private readonly createBackupController: (sourceName: string) => BackupController,
+    private readonly logger: Logger,
+    private readonly clock: Clock = systemClock,
+  ) {}
+
+  /**
+   * Checks the schedules at the start of every minute until the signal is aborted,
+   * then waits for the runs in progress.
+   *
+   * @param signal - Stops the daemon (e.g. on SIGINT or SIGTERM).
+   * @throws A `ConfigError` if no backup preset has a schedule.
+   */
+  async start(signal?: AbortSignal): Promise<void> {
+    const presets = this.scheduleService.getScheduledPresets();
+    if (presets.length === 0) {
+      throw new ConfigError(
+        'No backup preset has a "schedule". Add a cron expression such as "0 3 * * *" to a preset.',
+      );
+    }
+
+    let lastCheck = this.clock.now();
+    presets.forEach((preset) => {
+      const next = this.scheduleService.getNextRun(preset, lastCheck);
+      if (next) {
+        this.logger.info(`Preset "${preset.name}" (${preset.schedule}) next runs at ${next.toISOString()}`);
+      }
+    });
+    this.logger.info(`Daemon started with ${presets.length} scheduled preset(s).`);
+
+    while (!signal?.aborted) {
+      // Wake up at the start of the next minute
+      await this.clock.sleep(60_000 - (this.clock.now().getTime() % 60_000), signal);
+      if (signal?.aborted) {
+        break;
+      }
+      const now = this.clock.now();
+      this.tick(lastCheck, now);
+      lastCheck = now;
+    }
+
+    if (this.running.size > 0) {
+      this.logger.info(`Stopping: waiting for ${this.running.size} running backup(s) to finish...`);
+    }
+    await Promise.allSettled([...this.running.values()]);
+    this.logger.info('Daemon stopped.');
+  }
+
+  /**
+   * Starts the presets that fired in the interval (`from`, `to`].
+   * A preset whose source is still being backed up is skipped and logged as such.
+   *
+   * @param from - The end of the previous check (exclusive).
+   * @param to - The current time (inclusive).
+   * @returns The started runs; they never reject.
+   */
+  tick(from: Date, to: Date): Promise<void>[] {
+    return this.scheduleService.getDueRuns(from, to).map(({ preset, scheduledFor }) => {
+      if (this.running.has(preset.sourceName)) {
+        this.writeRunLog({
+          time: this.clock.now().toISOString(),
+          preset: preset.name,
+          source: preset.sourceName,
+          scheduledFor: scheduledFor.toISOString(),
+          outcome: 'skipped',
+          error: `A backup of "${preset.sourceName}" is still running.`,
+        });
+        return Promise.resolve();
+      }
+      const run = this.runPreset(preset, scheduledFor).then((log) => {
+        this.running.delete(preset.sourceName);
+        // Runs still in progress have incomplete archives; the last run to finish prunes for the others
+        if (this.running.size === 0) {
+          log.pruned = this.applyRetention();
+        }
+        log.time = this.clock.now().toISOString();
+        this.writeRunLog(log);
+      });
+      this.running.set(preset.sourceName, run);
+      return run;
+    });
+  }
+
+  /**
+   * Backs up a preset.
+   * @returns The run log, without `time` and `pruned`; a failed backup is recorded in it, not thrown.
+   */
+  private async runPreset(preset: BackupPreset, scheduledFor: Date): Promise<ScheduledRunLog> {
+    const startedAt = this.clock.now();
+    const log: ScheduledRunLog = {
+      time: '',
+      preset: preset.name,
+      source: preset.sourceName,
+      scheduledFor: scheduledFor.toISOString(),
+      outcome: 'success',
+      startedAt: startedAt.toISOString(),
+    };
+
+    try {
+      log.archive = (await this.createBackupController(preset.sourceName).useBackupPreset(preset))?.archivePath;
+    } catch (error: any) {
+      log.outcome = 'failure';
+      log.error = error.message;
+    }
+    log.durationMs = this.clock.now().getTime() - startedAt.getTime();
+    return log;
+  }
+
+  /**
+   * Prunes the backup directory with the configured retention policy.
+   * @returns The number of removed backups, or undefined if no policy is configured or pruning failed.
+   */
+  private applyRetention(): number | undefined {
+    if (!this.config.retention) {
+      return undefined;
+    }
+    try {
+      return this.retentionService.applyPrune(this.retentionService.planPrune(this.config.retention, this.clock.now()))
+        .removed;
+    } catch (error: any) {
+      this.logger.warn(`Applying the retention policy failed: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /** Writes one JSON line per scheduled run to stdout. */
+  private writeRunLog(log: ScheduledRunLog): void {
+    process.stdout.write(`${JSON.stringify(log)}\n`);
+  }
+}
@@ -0,0 +1,32 @@
+import type { BackupPreset } from '@ts-types/mixed';
+
+/** A scheduled preset whose cron expression fired. */
+export interface DueRun {
+  preset: BackupPreset;
+  /** The minute the cron expression fired for. */
+  scheduledFor: Date;
+}
+
+/** The structured line `--daemon` writes to stdout for every scheduled run (one JSON object per line). */
+export interface ScheduledRunLog {
+  /** ISO 8601 string of when the line was written. */
+  time: string;
+  /** The preset name. */
+  preset: string;
+  /** The source connection of the preset. */
+  source: string;
+  /** ISO 8601 string of the minute the run was scheduled for. */
+  scheduledFor: string;
+  /** `skipped` when a run for the same source was still in progress. */
+  outcome: 'success' | 'failure' | 'skipped';
+  /** ISO 8601 string of when the backup started (not for skipped runs). */
+  startedAt?: string;
+  /** How long the backup took, in milliseconds (not for skipped runs). */
+  durationMs?: number;
+  /** The backup file written, relative to the backup directory. */
+  archive?: string;
+  /** The error message of a failed run, or why a run was skipped. */
+  error?: string;
+  /** How many backups the retention policy removed after the run. */
+  pruned?: number;
+}
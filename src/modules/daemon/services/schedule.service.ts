@@ -0,0 +1,58 @@
+import type { AppConfig, BackupPreset } from '@ts-types/mixed';
+import type { DueRun } from '../interfaces/scheduled-run.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { nextCronRun, parseCronExpression } from '@utils/cron-expression';
+
+/**
+ * Works out when the backup presets with a `schedule` are due.
+ */
+export class ScheduleService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  /** The backup presets that have a cron schedule. */
+  getScheduledPresets(): BackupPreset[] {
+    return (this.config.backupPresets ?? []).filter((preset) => !!preset.schedule);
+  }
+
+  /**
+   * Finds the next time a preset's schedule fires.
+   * @param preset - A preset with a schedule.
+   * @param after - The reference time; the result is strictly later.
+   * @returns The start of the next matching minute, or undefined (with a warning) if the schedule never fires.
+   */
+  getNextRun(preset: BackupPreset, after: Date): Date | undefined {
+    try {
+      return nextCronRun(parseCronExpression(preset.schedule!), after);
+    } catch (error: any) {
+      this.logger.warn(`Schedule "${preset.schedule}" of preset "${preset.name}" is ignored: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Lists the scheduled presets that fire in the interval (`from`, `to`].
+   * A preset whose schedule fired several times in the interval (e.g. after the host slept) is due once,
+   * for the latest missed minute.
+   *
+   * @param from - The end of the previous check (exclusive).
+   * @param to - The current time (inclusive).
+   * @returns The due presets, in config order.
+   */
+  getDueRuns(from: Date, to: Date): DueRun[] {
+    const due: DueRun[] = [];
+    this.getScheduledPresets().forEach((preset) => {
+      let scheduledFor: Date | undefined;
+      for (let next = this.getNextRun(preset, from); next && next <= to; next = this.getNextRun(preset, next)) {
+        scheduledFor = next;
+      }
+      if (scheduledFor) {
+        due.push({ preset, scheduledFor });
+      }
+    });
+    return due;
+  }
+}
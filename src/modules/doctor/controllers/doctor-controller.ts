@@ -0,0 +1,93 @@
+import type { AppConfig } from '@ts-types/mixed';
+import type { DoctorReport, DoctorStep } from '../interfaces/doctor-report.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { AppError, ConfigError } from '@infrastructure/errors';
+import { formatTable } from '@utils/format-table';
+import { DoctorService } from '../services/doctor.service';
+
+const STATUS_LABELS: Record<DoctorStep['status'], string> = {
+  pass: '✔ pass',
+  warn: '⚠ warn',
+  fail: '✖ fail',
+  skip: '- skip',
+};
+
+/**
+ * Runs the health checks of `doctor` and prints a pass/fail report per connection.
+ */
+export class DoctorController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly doctorService: DoctorService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Checks connections based on non-interactive arguments.
+   * @param connectionName - Only check this connection; every connection if omitted.
+   * @param json - Print the reports as a JSON array (for scripting) instead of tables.
+   * @returns The reports, one per connection; failed checks are reported by `toFailure`.
+   * @throws A `ConfigError` for an unknown connection name.
+   */
+  async doctorFromArgs(connectionName: string | undefined, json: boolean): Promise<DoctorReport[]> {
+    const connections = connectionName
+      ? this.config.connections.filter((conn) => conn.name === connectionName)
+      : this.config.connections;
+    if (connectionName && connections.length === 0) {
+      throw new ConfigError(`Connection "${connectionName}" not found in configuration.`);
+    }
+    if (connections.length === 0) {
+      this.logger.info('No connections configured.');
+      return [];
+    }
+
+    const reports: DoctorReport[] = [];
+    for (const connection of connections) {
+      this.logger.startSpinner(`Checking ${connection.name}...`);
+      const report = await this.doctorService.diagnose(connection);
+      this.logger.stopSpinner();
+      reports.push(report);
+
+      if (!json) {
+        this.logger.print(`\n${connection.name}`);
+        this.logger.print(
+          formatTable(
+            ['STEP', 'STATUS', 'DETAIL'],
+            report.steps.map((step) => [step.step, STATUS_LABELS[step.status], step.detail ?? '']),
+          ),
+        );
+      }
+    }
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(reports, null, 2)}\n`);
+    }
+
+    const passed = reports.filter((report) => report.healthy).length;
+    this.logger.info(`${passed} of ${reports.length} connection(s) passed.`);
+    return reports;
+  }
+
+  /**
+   * Summarizes the failed checks of a `doctor` run as an error, so the command exits non-zero.
+   * @returns An error with the failure class of the first failed check, or undefined if every connection passed.
+   */
+  toFailure(reports: DoctorReport[]): AppError | undefined {
+    const failures = reports.flatMap((report) => {
+      const step = report.steps.find((s) => s.status === 'fail');
+      return step ? [{ connection: report.connection, step }] : [];
+    });
+    if (failures.length === 0) {
+      return undefined;
+    }
+    const [{ step }] = failures;
+    return new AppError(
+      `${failures.length} of ${reports.length} connection(s) failed a check: ${failures
+        .map((failure) => `${failure.connection} (${failure.step.step})`)
+        .join(', ')}.`,
+      step.code!,
+      step.exitCode!,
+    );
+  }
+}
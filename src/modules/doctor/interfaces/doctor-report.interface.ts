@@ -0,0 +1,20 @@
+/** The outcome of one check of `doctor`; `skip` follows a failed check the step depends on. */
+export interface DoctorStep {
+  /** What was checked, e.g. "SSH connection" or "MongoDB ping". */
+  step: string;
+  status: 'pass' | 'warn' | 'fail' | 'skip';
+  /** What was found, or why the check failed. */
+  detail?: string;
+  /** The failure class of a failed check (see the exit codes), e.g. `CONNECTION_ERROR`. */
+  code?: string;
+  /** The exit code of that failure class. */
+  exitCode?: number;
+}
+
+/** The checks of one connection, in the order they ran. */
+export interface DoctorReport {
+  connection: string;
+  /** False if any check failed; warnings do not count. */
+  healthy: boolean;
+  steps: DoctorStep[];
+}
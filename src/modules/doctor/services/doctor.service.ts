@@ -0,0 +1,309 @@
+import { promises as dns } from 'dns';
+
+import type { ConnectionConfig } from '@ts-types/mixed';
+import type { DoctorReport, DoctorStep } from '../interfaces/doctor-report.interface';
+import type { MongoTool } from '@modules/tools/interfaces/tool-check.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+import { ConfigError, ConnectionError, describeError } from '@infrastructure/errors';
+import { SshBackupRunner } from '@modules/backup/services/ssh-backup-runner';
+import { ToolsService } from '@modules/tools/services/tools.service';
+import { parseMongoUri } from '@utils/parse-mongo-uri';
+
+/** Privilege actions on the database that mongodump and mongorestore need. */
+const REQUIRED_ACTIONS = {
+  backup: ['find', 'listCollections', 'listIndexes'],
+  restore: ['insert', 'createCollection', 'createIndex', 'dropCollection'],
+};
+
+/** A privilege as reported by `connectionStatus` with `showPrivileges`. */
+interface Privilege {
+  resource: { db?: string; collection?: string; anyResource?: boolean; cluster?: boolean };
+  actions: string[];
+}
+
+type StepOutcome = Pick<DoctorStep, 'status' | 'detail'>;
+
+/**
+ * Checks a connection step by step the way backups and restores use it: name resolution, the SSH host,
+ * the MongoDB server, authentication, the database, the privileges of the user and the tools.
+ * A failed step skips the steps that depend on it, so the first failure points at the cause.
+ */
+export class DoctorService {
+  constructor(
+    private readonly mongoService: MongoDBService,
+    private readonly toolsService: ToolsService,
+    private readonly logger: Logger,
+    private readonly sshRunner: SshBackupRunner = new SshBackupRunner(logger),
+  ) {}
+
+  /**
+   * Runs every check on a connection.
+   * @param connection - The connection to check.
+   * @returns The report; failures are recorded in it, not thrown.
+   */
+  async diagnose(connection: ConnectionConfig): Promise<DoctorReport> {
+    const steps: DoctorStep[] = [];
+    const ssh = connection.ssh;
+
+    let reachable = await this.runStep(steps, 'DNS', () => this.checkDns(connection));
+    if (ssh) {
+      const keyLoaded = await this.runStep(steps, 'SSH key', async () => this.checkSshKey(connection));
+      reachable = await this.runStep(
+        steps,
+        'SSH connection',
+        async () => {
+          await this.sshRunner.testConnection(ssh);
+          return { status: 'pass', detail: `${ssh.username}@${ssh.host}:${ssh.port || 22} accepted the credentials` };
+        },
+        reachable && keyLoaded,
+      );
+    }
+
+    try {
+      let authError: string | undefined;
+      const connected = await this.runStep(
+        steps,
+        'MongoDB ping',
+        async () => {
+          try {
+            await this.mongoService.connect(connection);
+          } catch (error: any) {
+            // The server answered, but refused the credentials; reported by the authentication step
+            if (/auth/i.test(error.message)) {
+              authError = error.message;
+              return { status: 'pass', detail: 'server reachable' };
+            }
+            throw error;
+          }
+          return this.checkPing();
+        },
+        reachable,
+      );
+      const authenticated = await this.runStep(
+        steps,
+        'Authentication',
+        async () => {
+          if (authError) {
+            throw new ConnectionError(authError);
+          }
+          return this.checkAuthentication(connection);
+        },
+        connected,
+      );
+      const usable = connected && authenticated;
+      await this.runStep(steps, 'Database', () => this.checkDatabase(connection), usable);
+      const privileges = usable ? await this.getPrivileges() : undefined;
+      await this.runStep(
+        steps,
+        'Permissions for backups',
+        async () => this.checkPermissions(connection, privileges, 'backup'),
+        usable,
+      );
+      await this.runStep(
+        steps,
+        'Permissions for restores',
+        async () => this.checkPermissions(connection, privileges, 'restore'),
+        usable,
+      );
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+
+    // Local tools do not depend on the connection, remote ones need the SSH host
+    const toolsReachable = !ssh || reachable;
+    for (const tool of ['mongodump', 'mongorestore'] as MongoTool[]) {
+      await this.runStep(
+        steps,
+        ssh ? `${tool} on ${ssh.host}` : tool,
+        () => this.checkTool(tool, connection),
+        toolsReachable,
+      );
+    }
+
+    return { connection: connection.name, healthy: !steps.some((step) => step.status === 'fail'), steps };
+  }
+
+  /**
+   * Runs a check and records its outcome; a thrown error fails the step with the error's failure class.
+   * @param canRun - False if a step this one depends on failed; the step is skipped.
+   * @returns Whether the step ran and did not fail.
+   */
+  private async runStep(
+    steps: DoctorStep[],
+    step: string,
+    check: () => Promise<StepOutcome>,
+    canRun = true,
+  ): Promise<boolean> {
+    if (!canRun) {
+      steps.push({ step, status: 'skip', detail: 'an earlier check failed' });
+      return false;
+    }
+    try {
+      const outcome = await check();
+      steps.push({ step, ...outcome });
+      return outcome.status !== 'fail';
+    } catch (error) {
+      const { code, exitCode, message } = describeError(error);
+      this.logger.debug(`${step} failed: ${message}`);
+      steps.push({ step, status: 'fail', detail: message, code, exitCode });
+      return false;
+    }
+  }
+
+  /** Resolves the SSH host, or without SSH the MongoDB hosts (SRV records for mongodb+srv URIs). */
+  private async checkDns(connection: ConnectionConfig): Promise<StepOutcome> {
+    if (connection.ssh) {
+      // The MongoDB host is resolved on the SSH host
+      return { status: 'pass', detail: await this.lookup(connection.ssh.host) };
+    }
+
+    if (connection.uri?.startsWith('mongodb+srv://')) {
+      const host = new URL(connection.uri).hostname;
+      try {
+        const records = await dns.resolveSrv(`_mongodb._tcp.${host}`);
+        return { status: 'pass', detail: `${host} -> ${records.map((r) => `${r.name}:${r.port}`).join(', ')}` };
+      } catch (error: any) {
+        throw new ConnectionError(`No SRV record for ${host}: ${error.code ?? error.message}`);
+      }
+    }
+
+    let hosts: string[];
+    if (connection.uri) {
+      hosts = parseMongoUri(connection.uri).hosts.map((member) => member.host);
+    } else if (connection.hosts?.length) {
+      hosts = connection.hosts.map((member) => member.host);
+    } else if (connection.host) {
+      hosts = connection.host.split(',').map((member) => member.trim().split(':')[0]);
+    } else {
+      throw new ConfigError(`[${connection.name}] Connection must have either 'uri', 'hosts', or 'host' defined.`);
+    }
+    const details: string[] = [];
+    for (const host of hosts) {
+      details.push(await this.lookup(host));
+    }
+    return { status: 'pass', detail: details.join(', ') };
+  }
+
+  private async lookup(host: string): Promise<string> {
+    try {
+      const { address } = await dns.lookup(host);
+      return address === host ? host : `${host} -> ${address}`;
+    } catch (error: any) {
+      throw new ConnectionError(`Could not resolve ${host}: ${error.code ?? error.message}`);
+    }
+  }
+
+  private checkSshKey(connection: ConnectionConfig): StepOutcome {
+    const options = this.sshRunner.buildConnectionOptions(connection.ssh!);
+    return {
+      status: 'pass',
+      detail: options.privateKey ? `private key ${connection.ssh!.privateKey} loaded` : 'password authentication',
+    };
+  }
+
+  private async checkPing(): Promise<StepOutcome> {
+    const admin = this.mongoService.getDb('admin');
+    const startedAt = Date.now();
+    await admin.command({ ping: 1 });
+    const roundTrip = Date.now() - startedAt;
+    const { version } = await admin.command({ buildInfo: 1 });
+    const kind = await this.mongoService.getServerKind();
+    return { status: 'pass', detail: `MongoDB ${version} (${kind}), ${roundTrip} ms` };
+  }
+
+  private async checkAuthentication(connection: ConnectionConfig): Promise<StepOutcome> {
+    const status = await this.mongoService.getDb('admin').command({ connectionStatus: 1 });
+    const users: Array<{ user: string; db: string }> = status.authInfo?.authenticatedUsers ?? [];
+    if (users.length > 0) {
+      return { status: 'pass', detail: users.map((user) => `${user.user}@${user.db}`).join(', ') };
+    }
+    if (connection.username || (connection.uri && parseUriUser(connection.uri))) {
+      throw new ConnectionError('Credentials are configured, but the server reports no authenticated user.');
+    }
+    return { status: 'pass', detail: 'no credentials configured' };
+  }
+
+  private async checkDatabase(connection: ConnectionConfig): Promise<StepOutcome> {
+    const collections = await this.mongoService.getCollections(connection.database);
+    if (collections.length === 0) {
+      return {
+        status: 'warn',
+        detail: `"${connection.database}" has no collections (backups are empty, a restore creates it)`,
+      };
+    }
+    return { status: 'pass', detail: `"${connection.database}" has ${collections.length} collection(s)` };
+  }
+
+  /**
+   * Reads the privileges of the authenticated user.
+   * @returns The privileges, or undefined without an authenticated user (e.g. access control is disabled).
+   */
+  private async getPrivileges(): Promise<Privilege[] | undefined> {
+    try {
+      const status = await this.mongoService.getDb('admin').command({ connectionStatus: 1, showPrivileges: true });
+      if (!status.authInfo?.authenticatedUsers?.length) {
+        return undefined;
+      }
+      return status.authInfo.authenticatedUserPrivileges ?? [];
+    } catch (error: any) {
+      this.logger.debug(`Could not read the privileges: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Compares the actions the user may run on the whole database with those mongodump or mongorestore need.
+   * Missing backup privileges fail, missing restore privileges only warn, since sources are often read-only.
+   */
+  private checkPermissions(
+    connection: ConnectionConfig,
+    privileges: Privilege[] | undefined,
+    operation: keyof typeof REQUIRED_ACTIONS,
+  ): StepOutcome {
+    if (!privileges) {
+      return { status: 'skip', detail: 'no authenticated user to check' };
+    }
+    const granted = new Set(
+      privileges
+        .filter(
+          ({ resource }) =>
+            resource.anyResource ||
+            ((resource.db === '' || resource.db === connection.database) && resource.collection === ''),
+        )
+        .flatMap((privilege) => privilege.actions),
+    );
+    const required = REQUIRED_ACTIONS[operation].filter(
+      (action) => action !== 'dropCollection' || connection.allowDrop !== false,
+    );
+    const missing = required.filter((action) => !granted.has(action));
+    if (missing.length === 0) {
+      return { status: 'pass', detail: required.join(', ') };
+    }
+    const detail = `missing ${missing.join(', ')} on "${connection.database}"`;
+    if (operation === 'restore') {
+      return { status: 'warn', detail: `${detail}; restores into this connection will fail` };
+    }
+    throw new ConnectionError(`${detail}; backups of this connection will fail`);
+  }
+
+  private async checkTool(tool: MongoTool, connection: ConnectionConfig): Promise<StepOutcome> {
+    const check = await this.toolsService.check(tool, connection);
+    if (check.problem) {
+      const message = `${check.command}: ${check.problem}`;
+      throw new ConfigError(message);
+    }
+    return { status: 'pass', detail: `${check.version ?? 'unknown version'} (${check.command})` };
+  }
+}
+
+function parseUriUser(uri: string): string | undefined {
+  try {
+    return decodeURIComponent(new URL(uri).username) || undefined;
+  } catch {
+    return undefined;
+  }
+}
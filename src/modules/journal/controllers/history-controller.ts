@@ -0,0 +1,78 @@
+import { format } from 'date-fns';
+
+import type { JournalEntry, JournalFilter } from '../interfaces/journal-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { formatTable } from '@utils/format-table';
+import { JournalService } from '../services/journal.service';
+
+/** Longest options cell before it is truncated. */
+const MAX_OPTIONS_WIDTH = 40;
+
+/**
+ * Prints the operation journal as a table or as JSON.
+ */
+export class HistoryController {
+  constructor(
+    private readonly journalService: JournalService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Lists journal entries based on non-interactive arguments.
+   * @param filter - Operation, connection, time and outcome filters.
+   * @param json - Print the entries as a JSON array (for scripting) instead of a table.
+   * @returns The listed entries.
+   */
+  async historyFromArgs(filter: JournalFilter, json: boolean): Promise<JournalEntry[]> {
+    const entries = this.journalService.readEntries(filter);
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+      return entries;
+    }
+
+    if (entries.length === 0) {
+      this.logger.info('No operations recorded.');
+      return entries;
+    }
+
+    const rows = entries.map((entry) => [
+      format(new Date(entry.startedAt), 'yyyy-MM-dd HH:mm:ss'),
+      entry.operation,
+      entry.outcome === 'success' ? 'ok' : 'FAILED',
+      entry.source ?? '',
+      entry.target ?? '',
+      entry.archive ?? '',
+      this.describeOptions(entry),
+      `${(entry.durationMs / 1000).toFixed(1)}s`,
+      `${entry.user}@${entry.host}`,
+      entry.error ?? '',
+    ]);
+    this.logger.print(
+      formatTable(
+        ['STARTED', 'OPERATION', 'OUTCOME', 'SOURCE', 'TARGET', 'ARCHIVE', 'OPTIONS', 'DURATION', 'BY', 'ERROR'],
+        rows,
+      ),
+    );
+    this.logger.info(`${entries.length} operation(s) from ${this.journalService.getJournalPath()}.`);
+    return entries;
+  }
+
+  private describeOptions(entry: JournalEntry): string {
+    const options = Object.entries(entry.options ?? {})
+      .filter(([, value]) => value !== undefined && value !== false)
+      .map(([key, value]) => {
+        if (value === true) return key;
+        if (Array.isArray(value)) return `${key}=${value.join(',')}`;
+        if (typeof value === 'object' && value !== null) {
+          return `${key}=${Object.entries(value)
+            .map(([from, to]) => `${from}:${to}`)
+            .join(',')}`;
+        }
+        return `${key}=${value}`;
+      })
+      .join(' ');
+    return options.length > MAX_OPTIONS_WIDTH ? `${options.slice(0, MAX_OPTIONS_WIDTH - 1)}…` : options;
+  }
+}
@@ -0,0 +1,42 @@
+export type JournalOperation = 'backup' | 'restore' | 'copy';
+
+/** One line of the operation journal (`journal.jsonl` in the backup directory). */
+export interface JournalEntry {
+  /** The kind of operation. */
+  operation: JournalOperation;
+  /** ISO 8601 string of when the operation started. */
+  startedAt: string;
+  /** How long the operation took, in milliseconds. */
+  durationMs: number;
+  /** Whether the operation completed. */
+  outcome: 'success' | 'failure';
+  /** The error message of a failed operation. */
+  error?: string;
+  /** The source connection (backup and copy). */
+  source?: string;
+  /** The target connection (restore and copy). */
+  target?: string;
+  /** The backup file written or restored, relative to the backup directory. */
+  archive?: string;
+  /** The options the operation ran with, e.g. `{ drop: true, collections: ['users'] }`. */
+  options?: Record<string, unknown>;
+  /** The OS user that ran the operation. */
+  user: string;
+  /** The host the operation ran on. */
+  host: string;
+}
+
+export interface JournalFilter {
+  /** Only entries of this operation. */
+  operation?: JournalOperation;
+  /** Only entries with this source connection. */
+  source?: string;
+  /** Only entries with this target connection. */
+  target?: string;
+  /** Only entries started at or after this time. */
+  since?: Date;
+  /** Only entries started before this time. */
+  until?: Date;
+  /** Only successful or only failed operations. */
+  outcome?: JournalEntry['outcome'];
+}
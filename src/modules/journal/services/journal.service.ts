@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import type { AppConfig } from '@ts-types/mixed';
+import type { JournalEntry, JournalFilter } from '../interfaces/journal-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+
+/** Name of the journal file in the backup directory. */
+const JOURNAL_FILENAME = 'journal.jsonl';
+
+/**
+ * Keeps an append-only journal of backups, restores and copies (one JSON object per line) in the backup directory.
+ */
+export class JournalService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  /** Absolute path of the journal file. */
+  getJournalPath(): string {
+    return path.join(path.resolve(this.config.backupDir), JOURNAL_FILENAME);
+  }
+
+  /**
+   * Appends an entry for a finished operation; duration, user and host are filled in.
+   * Journaling never fails the operation itself: write errors are logged as warnings.
+   *
+   * @param entry - The operation, its start time, outcome and details.
+   */
+  record(entry: Omit<JournalEntry, 'durationMs' | 'user' | 'host'>): void {
+    const journalPath = this.getJournalPath();
+    const line: JournalEntry = {
+      ...entry,
+      durationMs: Date.now() - new Date(entry.startedAt).getTime(),
+      user: this.getUser(),
+      host: os.hostname(),
+    };
+    try {
+      fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+      fs.appendFileSync(journalPath, `${JSON.stringify(line)}\n`);
+    } catch (error: any) {
+      this.logger.warn(`Could not write to the operation journal ${journalPath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads the journal, newest first. Unreadable lines are skipped with a warning.
+   *
+   * @param filter - Optional operation, connection, time and outcome filters.
+   * @returns The matching entries.
+   */
+  readEntries(filter: JournalFilter = {}): JournalEntry[] {
+    const journalPath = this.getJournalPath();
+    if (!fs.existsSync(journalPath)) {
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    let skipped = 0;
+    for (const line of fs.readFileSync(journalPath, 'utf-8').split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        skipped++;
+      }
+    }
+    if (skipped > 0) {
+      this.logger.warn(`Skipped ${skipped} unreadable line(s) in ${journalPath}.`);
+    }
+
+    return entries
+      .filter(
+        (entry) =>
+          (!filter.operation || entry.operation === filter.operation) &&
+          (!filter.source || entry.source === filter.source) &&
+          (!filter.target || entry.target === filter.target) &&
+          (!filter.outcome || entry.outcome === filter.outcome) &&
+          (!filter.since || new Date(entry.startedAt).getTime() >= filter.since.getTime()) &&
+          (!filter.until || new Date(entry.startedAt).getTime() < filter.until.getTime()),
+      )
+      .reverse();
+  }
+
+  private getUser(): string {
+    try {
+      return os.userInfo().username;
+    } catch {
+      // os.userInfo() throws for users without a passwd entry (e.g. some containers)
+      return process.env.USER || process.env.USERNAME || 'unknown';
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import type { AppConfig, BackupPreset } from '@ts-types/mixed';
+import type { RestorePreset } from '@modules/restore/interfaces/restore-preset.interface';
+import type { PresetEntry } from '../interfaces/preset-entry.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { describeTimeWindow } from '@utils/describe-time-window';
+import { formatTable } from '@utils/format-table';
+
+/** Longest selection cell before it is truncated. */
+const MAX_SELECTION_WIDTH = 40;
+
+/**
+ * Prints the backup and restore presets of the config as a table or as JSON.
+ */
+export class PresetsController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Lists presets based on non-interactive arguments.
+   * @param type - Only backup or only restore presets; both when omitted.
+   * @param json - Print the entries as a JSON array (for scripting) instead of a table.
+   * @returns The listed entries.
+   */
+  async listFromArgs(type: PresetEntry['type'] | undefined, json: boolean): Promise<PresetEntry[]> {
+    const entries: PresetEntry[] = [
+      ...(type === 'restore'
+        ? []
+        : (this.config.backupPresets ?? []).map((preset) => ({ type: 'backup' as const, preset }))),
+      ...(type === 'backup'
+        ? []
+        : (this.config.restorePresets ?? []).map((preset) => ({ type: 'restore' as const, preset }))),
+    ];
+
+    if (json) {
+      process.stdout.write(`${JSON.stringify(entries, null, 2)}\n`);
+      return entries;
+    }
+
+    if (entries.length === 0) {
+      this.logger.info('No presets configured.');
+      return entries;
+    }
+
+    const rows = entries.map((entry) =>
+      entry.type === 'backup'
+        ? [
+            'backup',
+            entry.preset.name,
+            entry.preset.sourceName,
+            this.truncate(this.describeBackupSelection(entry.preset)),
+            entry.preset.schedule ?? '',
+            this.describeBackupOptions(entry.preset),
+            entry.preset.description ?? '',
+          ]
+        : [
+            'restore',
+            entry.preset.name,
+            entry.preset.targetName,
+            this.truncate(entry.preset.backupPattern ?? 'latest backup'),
+            '',
+            this.describeRestoreOptions(entry.preset),
+            entry.preset.description ?? '',
+          ],
+    );
+    this.logger.print(
+      formatTable(['TYPE', 'NAME', 'CONNECTION', 'SELECTION', 'SCHEDULE', 'OPTIONS', 'DESCRIPTION'], rows),
+    );
+    this.logger.info(`${entries.length} preset(s).`);
+    return entries;
+  }
+
+  private describeBackupSelection(preset: BackupPreset): string {
+    return preset.collections?.length
+      ? `${preset.selectionMode} ${preset.collections.join(',')}`
+      : preset.selectionMode;
+  }
+
+  private describeBackupOptions(preset: BackupPreset): string {
+    return [
+      preset.incremental ? 'incremental' : undefined,
+      preset.oplog ? 'oplog' : undefined,
+      preset.queryStartTime || preset.queryEndTime
+        ? describeTimeWindow(preset.queryStartTime, preset.queryEndTime, preset.queryTimeField)
+        : undefined,
+      preset.queries ? `query:${Object.keys(preset.queries).join(',')}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private describeRestoreOptions(preset: RestorePreset): string {
+    const options = preset.options ?? {};
+    return [
+      options.drop ? 'drop' : undefined,
+      options.includeCollections?.length ? `only:${options.includeCollections.join(',')}` : undefined,
+      options.excludeCollections?.length ? `skip:${options.excludeCollections.join(',')}` : undefined,
+      options.renameCollections
+        ? `rename:${Object.entries(options.renameCollections)
+            .map(([from, to]) => `${from}->${to}`)
+            .join(',')}`
+        : undefined,
+      options.verifyRestore ? 'verify-restore' : undefined,
+      options.snapshotBeforeRestore ? 'snapshot' : undefined,
+      options.replayChain ? 'chain' : undefined,
+      options.oplogReplay ? 'oplog-replay' : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ');
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_SELECTION_WIDTH ? `${text.slice(0, MAX_SELECTION_WIDTH - 1)}…` : text;
+  }
+}
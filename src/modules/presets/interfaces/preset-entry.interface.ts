@@ -0,0 +1,5 @@
+import type { BackupPreset } from '@ts-types/mixed';
+import type { RestorePreset } from '@modules/restore/interfaces/restore-preset.interface';
+
+/** A backup or restore preset from the config, as listed by `presets`. */
+export type PresetEntry = { type: 'backup'; preset: BackupPreset } | { type: 'restore'; preset: RestorePreset };
@@ -0,0 +1,148 @@
+import type { ConnectionConfig } from '@ts-types/mixed';
+
+import { Logger } from '@infrastructure/logger';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+import { UpdateableConfig } from '@config/updateable-config';
+import { ConnectionConfigSchema } from '@config/zod-schemas/config.schema';
+import { PromptService } from '../services/prompt-service';
+
+/**
+ * Manages the connections of the config interactively: adding, editing, testing and deleting them.
+ */
+export class ConnectionController {
+  constructor(
+    private readonly config: UpdateableConfig,
+    private readonly promptService: PromptService,
+    private readonly mongoService: MongoDBService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Main flow for managing connections; returns when the user cancels the menu.
+   */
+  public async manageConnectionsFlow(): Promise<void> {
+    while (true) {
+      const action = await this.promptService.askConnectionAction();
+      if (!action) break;
+
+      switch (action.type) {
+        case 'add':
+          await this.saveConnectionInteractively();
+          break;
+        case 'edit':
+          await this.saveConnectionInteractively(action.connection);
+          break;
+        case 'test':
+          await this.testConnection(action.connection);
+          break;
+        case 'delete':
+          await this.deleteConnectionInteractively(action.connection);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Connects to the server (through the SSH tunnel, if configured) and lists the collections of the database.
+   * @param connection - The connection to test.
+   * @returns True if the connection works.
+   */
+  public async testConnection(connection: ConnectionConfig): Promise<boolean> {
+    this.logger.startSpinner(`Testing ${connection.name}...`);
+    try {
+      await this.mongoService.connect(connection);
+      const collections = await this.mongoService.getCollections(connection.database);
+      this.logger.succeedSpinner(
+        `Connected to ${connection.name}: database "${connection.database}" has ${collections.length} collection(s).`,
+      );
+      return true;
+    } catch (error: any) {
+      this.logger.failSpinner(`Testing ${connection.name} failed: ${error.message}`);
+      return false;
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+
+  /**
+   * Asks for the details of a new or edited connection, validates them against the config schema,
+   * offers a live test and saves the connection. Presets of a renamed connection are updated.
+   * @param existing - The connection to edit; a new connection is added if omitted.
+   */
+  private async saveConnectionInteractively(existing?: ConnectionConfig): Promise<void> {
+    const draft = await this.promptService.askConnectionDetails(existing);
+
+    const validationResult = ConnectionConfigSchema.safeParse(draft);
+    if (!validationResult.success) {
+      this.logger.error('Connection validation failed:');
+      validationResult.error.errors.forEach((err) => {
+        this.logger.error(`  Path: ${err.path.join('.') || '.'}, Message: ${err.message}`);
+      });
+      this.logger.info('The connection was not saved.');
+      return;
+    }
+    const connection: ConnectionConfig = validationResult.data;
+
+    if (
+      (await this.promptService.askTestConnectionNow()) &&
+      !(await this.testConnection(connection)) &&
+      !(await this.promptService.askSaveUntestedConnection(connection.name))
+    ) {
+      this.logger.info('The connection was not saved.');
+      return;
+    }
+
+    const parsed = this.config.parsed;
+    if (existing) {
+      parsed.connections = parsed.connections.map((conn) => (conn.name === existing.name ? connection : conn));
+      if (existing.name !== connection.name) {
+        this.renamePresetReferences(existing.name, connection.name);
+      }
+    } else {
+      parsed.connections.push(connection);
+    }
+    await this.saveConfig();
+    this.logger.info(`Connection "${connection.name}" ${existing ? 'updated' : 'added'}.`);
+  }
+
+  private async deleteConnectionInteractively(connection: ConnectionConfig): Promise<void> {
+    if (
+      !(await this.promptService.askConfirmDeleteConnection(connection, this.getReferencingPresets(connection.name)))
+    ) {
+      this.logger.info('Deletion cancelled.');
+      return;
+    }
+    this.config.parsed.connections = this.config.parsed.connections.filter((conn) => conn.name !== connection.name);
+    await this.saveConfig();
+    this.logger.info(`Connection "${connection.name}" deleted.`);
+  }
+
+  // --- Private methods ---
+
+  /** The names of the backup presets reading from and the restore presets writing into a connection. */
+  private getReferencingPresets(connectionName: string): string[] {
+    return [
+      ...this.config.parsed.backupPresets.filter((p) => p.sourceName === connectionName).map((p) => p.name),
+      ...this.config.parsed.restorePresets.filter((p) => p.targetName === connectionName).map((p) => p.name),
+    ];
+  }
+
+  private renamePresetReferences(oldName: string, newName: string): void {
+    const presetNames = this.getReferencingPresets(oldName);
+    this.config.parsed.backupPresets.forEach((p) => {
+      if (p.sourceName === oldName) p.sourceName = newName;
+    });
+    this.config.parsed.restorePresets.forEach((p) => {
+      if (p.targetName === oldName) p.targetName = newName;
+    });
+    if (presetNames.length > 0) {
+      this.logger.info(`Updated the connection of preset(s): ${presetNames.join(', ')}`);
+    }
+  }
+
+  private async saveConfig(): Promise<void> {
+    this.config.update(this.config.parsed);
+  }
+}
@@ -1,11 +1,12 @@
 import type { BackupPreset } from '@ts-types/mixed';
+import type { RestorePreset } from '@modules/restore/interfaces/restore-preset.interface';
 
 import { Logger } from '@infrastructure/logger';
 import { UpdateableConfig } from '@config/updateable-config';
 import { PromptService } from '../services/prompt-service';
 
 /**
- * Manages backup presets: creation, listing, deletion, and execution.
+ * Manages backup and restore presets: creation, listing, deletion, and execution.
  */
 export class PresetController {
   constructor(
@@ -16,18 +17,19 @@ export class PresetController {
 
   /**
    * Main flow for managing presets.
+   * @returns The preset selected for execution, tagged with its kind, or undefined if none was selected.
    */
-  public async managePresetsFlow(): Promise<BackupPreset | undefined> {
-    let preset: BackupPreset | undefined;
-
+  public async managePresetsFlow(): Promise<
+    { type: 'backup'; preset: BackupPreset } | { type: 'restore'; preset: RestorePreset } | undefined
+  > {
     while (true) {
       const action = await this.promptService.askPresetAction();
       if (!action) break;
 
       switch (action.type) {
         case 'backup':
-          preset = action.preset;
-          return preset;
+        case 'restore':
+          return action;
         case 'view':
           this.logger.info('--- Preset details ---');
           this.logger.info(JSON.stringify(action.preset, null, 2));
@@ -35,13 +37,20 @@ export class PresetController {
           break;
         case 'delete':
           if (await this.promptService.askConfirmDeletePreset(action.preset)) {
-            this.removePreset(action.preset.name);
+            if (action.kind === 'backup') {
+              this.removePreset(action.preset.name);
+            } else {
+              this.removeRestorePreset(action.preset.name);
+            }
             await this.saveConfig();
             this.logger.info(`Preset "${action.preset.name}" deleted.`);
           } else {
             this.logger.info('Deletion cancelled.');
           }
           break;
+        case 'create_restore':
+          await this.createRestorePresetInteractively();
+          break;
       }
     }
   }
@@ -68,20 +77,54 @@ export class PresetController {
     return preset;
   }
 
+  /**
+   * Interactive restore preset creation.
+   */
+  public async createRestorePresetInteractively(): Promise<RestorePreset | undefined> {
+    let preset: RestorePreset | undefined;
+
+    try {
+      preset = await this.promptService.askRestorePresetDetails();
+      if (this.isRestorePresetNameDuplicate(preset.name)) {
+        this.logger.warn(`Restore preset with name "${preset.name}" already exists.`);
+        return;
+      }
+      this.addRestorePreset(preset);
+      await this.saveConfig();
+      this.logger.succeedSpinner(`Restore preset "${preset.name}" created!`);
+    } catch (error: any) {
+      this.logger.failSpinner(`Error creating restore preset: ${error.message}`);
+    }
+
+    return preset;
+  }
+
   // --- Private methods ---
 
   private isPresetNameDuplicate(name: string): boolean {
     return this.config.parsed.backupPresets?.some((p) => p.name === name) ?? false;
   }
 
+  private isRestorePresetNameDuplicate(name: string): boolean {
+    return this.config.parsed.restorePresets?.some((p) => p.name === name) ?? false;
+  }
+
   private addPreset(preset: BackupPreset): void {
     this.config.parsed.backupPresets.push(preset);
   }
 
+  private addRestorePreset(preset: RestorePreset): void {
+    this.config.parsed.restorePresets.push(preset);
+  }
+
   private removePreset(name: string): void {
     this.config.parsed.backupPresets = this.config.parsed.backupPresets.filter((p) => p.name !== name);
   }
 
+  private removeRestorePreset(name: string): void {
+    this.config.parsed.restorePresets = this.config.parsed.restorePresets.filter((p) => p.name !== name);
+  }
+
   private async saveConfig(): Promise<void> {
     this.config.update(this.config.parsed);
   }
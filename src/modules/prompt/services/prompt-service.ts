@@ -1,11 +1,24 @@
 import inquirer from 'inquirer';
-import type { ConnectionConfig, BackupMetadata, BackupPreset } from '@ts-types/mixed';
+import type {
+  ConnectionConfig,
+  BackupMetadata,
+  BackupPreset,
+  CollectionQueries,
+  CollectionStats,
+} from '@ts-types/mixed';
+import type { RestorePreset } from '@modules/restore/interfaces/restore-preset.interface';
+import type { CopyOptions } from '@modules/copy/interfaces/copy-options.interface';
 
 import { subDays, parseISO, isValid, subHours, subWeeks, subMonths, formatISO, format } from 'date-fns';
 import { Logger } from '@infrastructure/logger';
 import { UpdateableConfig } from '@config/updateable-config';
 import { BackupService } from '@modules/backup/services/backup.service';
 import { MongoDBService } from '@infrastructure/mongodb.service';
+import { parseRenameRules } from '@utils/parse-rename-rules';
+import { parseQueryFilter } from '@utils/parse-query-filter';
+import { describeTimeWindow } from '@utils/describe-time-window';
+import { describeCollectionStats } from '@utils/describe-collection-stats';
+import { parseCronExpression } from '@utils/cron-expression';
 
 /**
  * Provides services for interacting with the user via command-line prompts (inquirer).
@@ -22,9 +35,12 @@ export class PromptService {
    * Prompts the user to select an action.
    * @returns The selected action.
    */
-  async askStartAction(): Promise<'backup' | 'restore' | 'preset_create' | 'preset_manage' | 'exit'> {
+  async askStartAction(): Promise<
+    'backup' | 'restore' | 'copy' | 'prune' | 'preset_create' | 'preset_manage' | 'connection_manage' | 'exit'
+  > {
     const { action } = await inquirer.prompt<{
-      action: 'backup' | 'restore' | 'preset_create' | 'preset_manage' | 'exit';
+      action:
+        'backup' | 'restore' | 'copy' | 'prune' | 'preset_create' | 'preset_manage' | 'connection_manage' | 'exit';
     }>({
       type: 'list',
       name: 'action',
@@ -32,8 +48,11 @@ export class PromptService {
       choices: [
         { name: 'Create Backup', value: 'backup' },
         { name: 'Restore from Backup', value: 'restore' },
+        { name: 'Copy between connections', value: 'copy' },
+        { name: 'Prune old backups (retention policy)', value: 'prune' },
         { name: 'Create Backup Preset', value: 'preset_create' },
-        { name: 'Manage Presets (Use/View/Delete)', value: 'preset_manage' },
+        { name: 'Manage Presets (Use/View/Delete, Restore Presets)', value: 'preset_manage' },
+        { name: 'Manage Connections (Add/Edit/Test/Delete)', value: 'connection_manage' },
         new inquirer.Separator(),
         { name: 'Exit', value: 'exit' },
       ],
@@ -68,6 +87,9 @@ export class PromptService {
     excludedCollections: string[];
     selectionMode: 'all' | 'include' | 'exclude';
     startTime?: Date;
+    endTime?: Date;
+    timeField?: string;
+    queries?: CollectionQueries;
   }> {
     if (!this.config.parsed.connections || this.config.parsed.connections.length === 0) {
       throw new Error('No connections found in the configuration.');
@@ -104,7 +126,8 @@ export class PromptService {
 
     let selectedCollections: string[] = [];
     let excludedCollections: string[] = [];
-    let startTime: Date | undefined = undefined;
+    let timeWindow: { startTime?: Date; endTime?: Date; timeField?: string } = {};
+    let queries: CollectionQueries | undefined = undefined;
 
     if (selectionMode === 'include' || selectionMode === 'exclude') {
       let collections: string[] = [];
@@ -116,7 +139,7 @@ export class PromptService {
         this.logger.succeedSpinner(`Fetched ${collections.length} collections from ${source.name}.`);
 
         if (collections.length === 0) {
-          return { source, selectedCollections: [], excludedCollections: [], selectionMode: 'all', startTime };
+          return { source, selectedCollections: [], excludedCollections: [], selectionMode: 'all' };
         }
 
         if (selectionMode === 'include') {
@@ -135,10 +158,9 @@ export class PromptService {
             },
           ]);
           selectedCollections = chosenCollections;
-          if (selectedCollections.length === 1) {
-            startTime = await this.askTimeFilter();
-          } else if (selectedCollections.length > 1) {
-          }
+          // Several filtered collections are dumped one by one into a backup set
+          timeWindow = await this.askTimeWindow();
+          queries = await this.askQueryFilters(selectedCollections);
         } else {
           const { excluded } = await inquirer.prompt<{ excluded: string[] }>({
             type: 'checkbox',
@@ -154,7 +176,203 @@ export class PromptService {
       }
     }
 
-    return { source, selectedCollections, excludedCollections, selectionMode, startTime };
+    return { source, selectedCollections, excludedCollections, selectionMode, ...timeWindow, queries };
+  }
+
+  /**
+   * Prompts the user for copy configuration: source and collections (as for a backup),
+   * then the target connection and restore options.
+   * @returns A promise resolving to the user's copy configuration choices.
+   */
+  async askCopyConfig(): Promise<{
+    source: ConnectionConfig;
+    target: ConnectionConfig;
+    selectedCollections: string[];
+    excludedCollections: string[];
+    selectionMode: 'all' | 'include' | 'exclude';
+    startTime?: Date;
+    endTime?: Date;
+    timeField?: string;
+    queries?: CollectionQueries;
+    options: CopyOptions;
+  }> {
+    const backupConfig = await this.askBackupConfig();
+    const { source } = backupConfig;
+
+    const availableTargets = this.config.parsed.connections.filter((conn) => conn.name !== source.name);
+    if (availableTargets.length === 0) {
+      throw new Error('No available target connections found (excluding the source).');
+    }
+
+    const { target } = await inquirer.prompt<{ target: ConnectionConfig }>({
+      type: 'list',
+      name: 'target',
+      message: 'Select target connection for copy:',
+      choices: availableTargets.map((conn) => ({
+        name: `${conn.name} (${conn.database})`,
+        value: conn,
+      })),
+    });
+
+    const { drop, saveArchive } = await inquirer.prompt<{ drop: boolean; saveArchive: boolean }>([
+      {
+        type: 'confirm',
+        name: 'drop',
+        message: `Drop existing collections in target database "${target.database}" before restore?`,
+        default: false,
+      },
+      {
+        type: 'confirm',
+        name: 'saveArchive',
+        message: 'Also save the archive to the backup directory?',
+        default: false,
+      },
+    ]);
+
+    return { ...backupConfig, target, options: { drop, saveArchive } };
+  }
+
+  /**
+   * Helper function to prompt for an optional Extended JSON query filter for a collection.
+   * @param collection - The collection the filter applies to.
+   * @param defaultValue - Optional existing filter to pre-fill the input.
+   * @returns The parsed filter object, or undefined if no filter is entered.
+   */
+  private async askQueryFilter(
+    collection: string,
+    defaultValue?: Record<string, any>,
+  ): Promise<Record<string, any> | undefined> {
+    const { query } = await inquirer.prompt<{ query: string }>([
+      {
+        type: 'input',
+        name: 'query',
+        message: `Query filter for "${collection}" (Extended JSON, e.g. {"tenantId": "acme"}; empty = none):`,
+        default: defaultValue ? JSON.stringify(defaultValue) : undefined,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          try {
+            parseQueryFilter(input);
+            return true;
+          } catch (error: any) {
+            return error.message;
+          }
+        },
+      },
+    ]);
+    return query ? parseQueryFilter(query) : undefined;
+  }
+
+  /**
+   * Prompts for an optional query filter for each collection.
+   * @param collections - The included collections.
+   * @param defaults - Optional existing filters to pre-fill.
+   * @returns The filters that were entered, or undefined if none.
+   */
+  private async askQueryFilters(
+    collections: string[],
+    defaults?: CollectionQueries,
+  ): Promise<CollectionQueries | undefined> {
+    const queries: CollectionQueries = {};
+    for (const collection of collections) {
+      const filter = await this.askQueryFilter(collection, defaults?.[collection]);
+      if (filter) {
+        queries[collection] = filter;
+      }
+    }
+    return Object.keys(queries).length > 0 ? queries : undefined;
+  }
+
+  /**
+   * Prompts for an optional cron schedule on which `--daemon` runs a backup preset.
+   * @param defaultValue - Optional existing schedule to pre-fill.
+   * @returns The cron expression, or undefined if none is entered.
+   */
+  private async askSchedule(defaultValue?: string): Promise<string | undefined> {
+    const { schedule } = await inquirer.prompt<{ schedule: string }>([
+      {
+        type: 'input',
+        name: 'schedule',
+        message: 'Schedule for --daemon (cron expression, e.g. "0 3 * * *"; empty = not scheduled):',
+        default: defaultValue,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          try {
+            parseCronExpression(input);
+            return true;
+          } catch (error: any) {
+            return error.message;
+          }
+        },
+      },
+    ]);
+    return schedule || undefined;
+  }
+
+  /**
+   * Asks whether a backup preset backs up only the documents added since its previous backup.
+   * @param defaultValue - The current setting.
+   * @returns True for an incremental preset, undefined otherwise (the field is left out of the config).
+   */
+  private async askIncremental(defaultValue?: boolean): Promise<true | undefined> {
+    const { incremental } = await inquirer.prompt<{ incremental: boolean }>({
+      type: 'confirm',
+      name: 'incremental',
+      message: 'Incremental backups (only documents added since the previous backup of this preset)?',
+      default: defaultValue ?? false,
+    });
+    return incremental || undefined;
+  }
+
+  /**
+   * Prompts for the time window of a filtered backup: the start time, then the date field
+   * and an optional exclusive end time.
+   * @param defaults - Optional existing window to pre-fill.
+   * @returns The chosen window; empty if no time filter is chosen.
+   */
+  private async askTimeWindow(
+    defaults: { startTime?: Date; endTime?: Date; timeField?: string } = {},
+  ): Promise<{ startTime?: Date; endTime?: Date; timeField?: string }> {
+    const startTime = await this.askTimeFilter(defaults.startTime);
+    if (!startTime) {
+      return {};
+    }
+
+    const { timeField, endTime } = await inquirer.prompt<{ timeField: string; endTime: string }>([
+      {
+        type: 'input',
+        name: 'timeField',
+        message: 'Date field to filter on (_id = ObjectId creation time; e.g. updatedAt to catch updated documents):',
+        default: defaults.timeField || '_id',
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => (input.trim() ? true : 'Field name cannot be empty.'),
+      },
+      {
+        type: 'input',
+        name: 'endTime',
+        message: 'Until (exclusive, YYYY-MM-DD HH:mm:ss or ISO format; empty = no upper bound):',
+        default: defaults.endTime ? format(defaults.endTime, 'yyyy-MM-dd HH:mm:ss') : undefined,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => {
+          if (!input.trim()) return true;
+          const parsed = this.parseDateInput(input.trim());
+          if (!isValid(parsed)) return 'Invalid date/time format. Use YYYY-MM-DD HH:mm:ss or ISO 8601.';
+          return parsed > startTime ? true : 'The end time must be after the start time.';
+        },
+      },
+    ]);
+
+    return {
+      startTime,
+      endTime: endTime ? this.parseDateInput(endTime) : undefined,
+      timeField: timeField === '_id' ? undefined : timeField,
+    };
+  }
+
+  /** Parses a date typed as ISO 8601 or "YYYY-MM-DD HH:mm:ss". */
+  private parseDateInput(input: string): Date {
+    return parseISO(input.includes('T') ? input : input.replace(' ', 'T'));
   }
 
   /**
@@ -167,7 +385,7 @@ export class PromptService {
       {
         type: 'list',
         name: 'timeFilterChoice',
-        message: 'Apply time filter? (Backup documents created/updated after a certain time based on _id):',
+        message: 'Apply time filter? (Backup documents created/updated after a certain time):',
         choices: [
           { name: 'No filter (Full collection backup)', value: 'none' },
           new inquirer.Separator('-- Relative --'),
@@ -231,7 +449,7 @@ export class PromptService {
             filter: (input: string) => input.trim(),
           },
         ]);
-        startTime = parseISO(customDate.includes('T') ? customDate : customDate.replace(' ', 'T'));
+        startTime = this.parseDateInput(customDate);
         break;
       default:
         startTime = undefined;
@@ -253,7 +471,7 @@ export class PromptService {
   async askRestoreConfig(): Promise<{
     target: ConnectionConfig;
     backupFile: string;
-    options: { drop: boolean };
+    options: { drop: boolean; verifyRestore: boolean; snapshotBeforeRestore: boolean };
   }> {
     const backupFiles = this.backupService.getBackupFiles();
 
@@ -290,6 +508,15 @@ export class PromptService {
       ) {
         this.logger.info(`Excluded Collections: ${backupMetadata.excludedCollections.join(', ')}`);
       }
+      if (backupMetadata.queryStartTime || backupMetadata.queryEndTime) {
+        this.logger.info(
+          `Time Window:       ${describeTimeWindow(backupMetadata.queryStartTime, backupMetadata.queryEndTime, backupMetadata.queryTimeField)}`,
+        );
+      }
+      if (backupMetadata.collections?.length) {
+        this.logger.info('Contents:');
+        backupMetadata.collections.forEach((stats) => this.logger.info(`  ${describeCollectionStats(stats)}`));
+      }
       this.logger.info('------------------------------');
     } catch (error: any) {
       this.logger.error(`Error loading metadata for ${backupFile}: ${error.message}`);
@@ -313,13 +540,111 @@ export class PromptService {
       default: false,
     });
 
+    let snapshotBeforeRestore = false;
+    if (drop) {
+      ({ snapshotBeforeRestore } = await inquirer.prompt<{ snapshotBeforeRestore: boolean }>({
+        type: 'confirm',
+        name: 'snapshotBeforeRestore',
+        message: 'Back up the target collections that will be dropped first (pre-restore snapshot)?',
+        default: this.config.parsed.snapshotBeforeRestore ?? true,
+      }));
+    }
+
+    let verifyRestore = false;
+    if (backupMetadata.collections?.length) {
+      ({ verifyRestore } = await inquirer.prompt<{ verifyRestore: boolean }>({
+        type: 'confirm',
+        name: 'verifyRestore',
+        message: 'Verify document counts and indexes in the target against the backup metadata afterwards?',
+        default: true,
+      }));
+    }
+
     return {
       backupFile,
       target,
-      options: { drop },
+      options: { drop, verifyRestore, snapshotBeforeRestore },
     };
   }
 
+  /**
+   * Prompts the user to cherry-pick collections to restore from an archive.
+   * @param collections - The collections available in the archive.
+   * @param stats - Optional statistics from the backup metadata, shown next to each collection.
+   * @returns The selected collections, or undefined to restore everything.
+   */
+  async askRestoreCollections(collections: string[], stats: CollectionStats[] = []): Promise<string[] | undefined> {
+    const { restoreAll } = await inquirer.prompt<{ restoreAll: boolean }>({
+      type: 'confirm',
+      name: 'restoreAll',
+      message: `Restore all ${collections.length} collections from the archive?`,
+      default: true,
+    });
+    if (restoreAll) {
+      return undefined;
+    }
+
+    const { chosenCollections } = await inquirer.prompt<{ chosenCollections: string[] }>({
+      type: 'checkbox',
+      name: 'chosenCollections',
+      message: 'Select collections to RESTORE:',
+      choices: collections.map((coll) => {
+        const collStats = stats.find((s) => s.name === coll);
+        return { name: collStats ? describeCollectionStats(collStats) : coll, value: coll };
+      }),
+      validate: (answer) => {
+        if (answer.length === 0) {
+          return 'Please select at least one collection to restore.';
+        }
+        return true;
+      },
+    });
+    return chosenCollections;
+  }
+
+  /**
+   * Prompts the user for optional per-collection rename rules on restore.
+   * @param collections - The collections that will be restored.
+   * @returns A map of source to target collection names, or undefined if nothing is renamed.
+   */
+  async askRestoreRenames(collections: string[]): Promise<Record<string, string> | undefined> {
+    const { rename } = await inquirer.prompt<{ rename: boolean }>({
+      type: 'confirm',
+      name: 'rename',
+      message: 'Restore any collection under a different name?',
+      default: false,
+    });
+    if (!rename) {
+      return undefined;
+    }
+
+    const { toRename } = await inquirer.prompt<{ toRename: string[] }>({
+      type: 'checkbox',
+      name: 'toRename',
+      message: 'Select collections to rename:',
+      choices: collections.map((coll) => ({ name: coll, value: coll })),
+    });
+
+    const renameCollections: Record<string, string> = {};
+    for (const collection of toRename) {
+      const { newName } = await inquirer.prompt<{ newName: string }>({
+        type: 'input',
+        name: 'newName',
+        message: `Restore "${collection}" as:`,
+        validate: (input: string) => {
+          const trimmedInput = input.trim();
+          if (!trimmedInput) return 'Collection name cannot be empty.';
+          if (trimmedInput === collection) return 'New name must differ from the original name.';
+          return true;
+        },
+        filter: (input: string) => input.trim(),
+      });
+      renameCollections[collection] = newName;
+    }
+
+    return Object.keys(renameCollections).length > 0 ? renameCollections : undefined;
+  }
+
   /**
    * Prompts the user to select a target connection for restore.
    * @param backupMetadata - The metadata of the backup file to restore.
@@ -468,6 +793,9 @@ export class PromptService {
       }
     }
 
+    const schedule = await this.askSchedule();
+    const incremental = await this.askIncremental();
+
     this.logger.info('--- Preset Configuration Summary ---');
     this.logger.info(`Name: ${name.trim()}`);
     this.logger.info(`Source: ${source.name} (${source.database})`);
@@ -481,6 +809,12 @@ export class PromptService {
         `Excluded Collections: ${collections.length > 0 ? collections.join(', ') : '(None - all collections will be backed up)'}`,
       );
     }
+    if (schedule) {
+      this.logger.info(`Schedule: ${schedule}`);
+    }
+    if (incremental) {
+      this.logger.info('Incremental: yes');
+    }
     this.logger.info('----------------------------------');
 
     return {
@@ -490,36 +824,51 @@ export class PromptService {
       selectionMode,
       collections: selectionMode !== 'all' && collections.length > 0 ? collections : undefined,
       createdAt: new Date().toISOString(),
+      schedule,
+      incremental,
     };
   }
 
   /**
    * Shows the preset management menu and returns the selected action and preset.
+   * Lists both backup and restore presets and offers creating a restore preset.
    * Does not change the config, does not delete or save presets.
    */
   async askPresetAction(): Promise<
     | { type: 'backup'; preset: BackupPreset }
-    | { type: 'view'; preset: BackupPreset }
-    | { type: 'delete'; preset: BackupPreset }
+    | { type: 'restore'; preset: RestorePreset }
+    | { type: 'view'; preset: BackupPreset | RestorePreset }
+    | { type: 'delete'; kind: 'backup' | 'restore'; preset: BackupPreset | RestorePreset }
+    | { type: 'create_restore' }
     | undefined
   > {
     const backupPresets = this.config.parsed.backupPresets || [];
+    const restorePresets = this.config.parsed.restorePresets || [];
 
-    if (backupPresets.length === 0) {
-      this.logger.info('No saved presets found. Please create a preset first.');
-      return undefined;
+    if (backupPresets.length === 0 && restorePresets.length === 0) {
+      this.logger.info('No saved presets found.');
     }
 
+    type PresetChoice =
+      | { kind: 'backup'; preset: BackupPreset }
+      | { kind: 'restore'; preset: RestorePreset }
+      | { kind: 'create_restore' };
+
     const choices = [
       ...backupPresets.map((preset) => ({
         name: `[Backup] ${preset.name}${preset.description ? ` - ${preset.description}` : ''}`,
-        value: preset,
+        value: { kind: 'backup', preset } as PresetChoice,
+      })),
+      ...restorePresets.map((preset) => ({
+        name: `[Restore] ${preset.name}${preset.description ? ` - ${preset.description}` : ''}`,
+        value: { kind: 'restore', preset } as PresetChoice,
       })),
       new inquirer.Separator(),
+      { name: 'Create Restore Preset', value: { kind: 'create_restore' } as PresetChoice },
       { name: 'Cancel', value: null },
     ];
 
-    const { selected } = await inquirer.prompt<{ selected: BackupPreset | null }>({
+    const { selected } = await inquirer.prompt<{ selected: PresetChoice | null }>({
       type: 'list',
       name: 'selected',
       message: 'Select a preset to manage:',
@@ -532,10 +881,14 @@ export class PromptService {
       return undefined;
     }
 
+    if (selected.kind === 'create_restore') {
+      return { type: 'create_restore' };
+    }
+
     const { action } = await inquirer.prompt({
       type: 'list',
       name: 'action',
-      message: `Action for preset "${selected.name}":`,
+      message: `Action for preset "${selected.preset.name}":`,
       choices: [
         { name: 'Use preset', value: 'use' },
         { name: 'View details', value: 'view' },
@@ -546,11 +899,13 @@ export class PromptService {
 
     switch (action) {
       case 'use':
-        return { type: 'backup', preset: selected };
+        return selected.kind === 'backup'
+          ? { type: 'backup', preset: selected.preset }
+          : { type: 'restore', preset: selected.preset };
       case 'view':
-        return { type: 'view', preset: selected };
+        return { type: 'view', preset: selected.preset };
       case 'delete':
-        return { type: 'delete', preset: selected };
+        return { type: 'delete', kind: selected.kind, preset: selected.preset };
       case 'cancel':
       default:
         this.logger.info('Action cancelled.');
@@ -558,6 +913,112 @@ export class PromptService {
     }
   }
 
+  /**
+   * Prompts the user for details needed to create a restore preset.
+   * @returns A promise that resolves with the new restore preset configuration.
+   */
+  async askRestorePresetDetails(): Promise<RestorePreset> {
+    this.logger.info('--- Creating New Restore Preset ---');
+
+    if (!this.config.parsed.connections || this.config.parsed.connections.length === 0) {
+      throw new Error('No connections found in the configuration.');
+    }
+
+    const { name, description } = await inquirer.prompt<{ name: string; description: string }>([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Restore preset name:',
+        validate: (input: string) => (input.trim() ? true : 'Preset name cannot be empty.'),
+      },
+      {
+        type: 'input',
+        name: 'description',
+        message: 'Enter preset description (optional):',
+      },
+    ]);
+
+    const { target } = await inquirer.prompt<{ target: ConnectionConfig }>({
+      type: 'list',
+      name: 'target',
+      message: 'Select target connection for this preset:',
+      choices: this.config.parsed.connections.map((conn) => ({
+        name: `${conn.name} (${conn.database})`,
+        value: conn,
+      })),
+    });
+
+    const { backupPattern } = await inquirer.prompt<{ backupPattern: string }>({
+      type: 'input',
+      name: 'backupPattern',
+      message: 'Backup filename pattern (glob, e.g. "backup_*_production.gz"; empty = newest backup):',
+      filter: (input: string) => input.trim(),
+    });
+
+    const { renameRules } = await inquirer.prompt<{ renameRules: string }>({
+      type: 'input',
+      name: 'renameRules',
+      message: 'Collection rename rules (optional, e.g. "users:users_old,orders:orders_old"):',
+      filter: (input: string) => input.trim(),
+      validate: (input: string) => {
+        try {
+          parseRenameRules(input);
+          return true;
+        } catch (error: any) {
+          return error.message;
+        }
+      },
+    });
+    const renameCollections = renameRules ? parseRenameRules(renameRules) : undefined;
+
+    const { drop } = await inquirer.prompt<{ drop: boolean }>({
+      type: 'confirm',
+      name: 'drop',
+      message: `Drop existing collections in target database "${target.database}" before restore?`,
+      default: false,
+    });
+
+    const { verifyRestore } = await inquirer.prompt<{ verifyRestore: boolean }>({
+      type: 'confirm',
+      name: 'verifyRestore',
+      message: 'Verify document counts and indexes in the target against the backup metadata after each restore?',
+      default: false,
+    });
+
+    let snapshotBeforeRestore = false;
+    if (drop) {
+      ({ snapshotBeforeRestore } = await inquirer.prompt<{ snapshotBeforeRestore: boolean }>({
+        type: 'confirm',
+        name: 'snapshotBeforeRestore',
+        message: 'Back up the target collections that will be dropped before each restore (pre-restore snapshot)?',
+        default: this.config.parsed.snapshotBeforeRestore ?? true,
+      }));
+    }
+
+    this.logger.info('--- Restore Preset Summary ---');
+    this.logger.info(`Name: ${name.trim()}`);
+    this.logger.info(`Target: ${target.name} (${target.database})`);
+    this.logger.info(`Backup Pattern: ${backupPattern || '(newest backup)'}`);
+    if (renameCollections) {
+      this.logger.info(`Rename: ${renameRules}`);
+    }
+    this.logger.info(`Drop: ${drop ? 'yes' : 'no'}`);
+    this.logger.info(`Verify after restore: ${verifyRestore ? 'yes' : 'no'}`);
+    if (drop) {
+      this.logger.info(`Pre-restore snapshot: ${snapshotBeforeRestore ? 'yes' : 'no'}`);
+    }
+    this.logger.info('------------------------------');
+
+    return {
+      name: name.trim(),
+      description: description.trim() || undefined,
+      targetName: target.name,
+      backupPattern: backupPattern || undefined,
+      options: { drop, renameCollections, verifyRestore, snapshotBeforeRestore },
+      createdAt: formatISO(new Date()),
+    };
+  }
+
   /**
    * Confirm running preset immediately after creation.
    */
@@ -618,6 +1079,9 @@ export class PromptService {
 
     let collections: string[] = existingPreset?.collections || [];
     let queryStartTime: string | undefined = existingPreset?.queryStartTime;
+    let queryEndTime: string | undefined = existingPreset?.queryEndTime;
+    let queryTimeField: string | undefined = existingPreset?.queryTimeField;
+    let queries: CollectionQueries | undefined = existingPreset?.queries;
 
     if (selectionMode === 'include' || selectionMode === 'exclude') {
       this.logger.startSpinner(`Fetching collections from ${source.name}...\n`);
@@ -644,33 +1108,48 @@ export class PromptService {
         collections = collectionAnswer.collections;
 
         if (selectionMode === 'include') {
-          if (collections.length === 1) {
+          if (collections.length > 0) {
             this.logger.info('--- Time Filter (Optional) ---');
             this.logger.info('Applies only when using this preset.');
             const applyTimeFilterAnswer = await inquirer.prompt<{ apply: boolean }>([
               {
                 type: 'confirm',
                 name: 'apply',
-                message: `Apply time filter to collection "${collections[0]}"? (Backup documents created/updated after a specific time)`,
+                message: `Apply time filter to ${collections.map((coll) => `"${coll}"`).join(', ')}? (Backup documents created/updated after a specific time)`,
                 default: !!queryStartTime,
               },
             ]);
 
             if (applyTimeFilterAnswer.apply) {
-              const startTimeDate = await this.askTimeFilter(queryStartTime ? parseISO(queryStartTime) : undefined);
-              queryStartTime = startTimeDate ? formatISO(startTimeDate) : undefined;
+              const timeWindow = await this.askTimeWindow({
+                startTime: queryStartTime ? parseISO(queryStartTime) : undefined,
+                endTime: queryEndTime ? parseISO(queryEndTime) : undefined,
+                timeField: queryTimeField,
+              });
+              queryStartTime = timeWindow.startTime ? formatISO(timeWindow.startTime) : undefined;
+              queryEndTime = timeWindow.endTime ? formatISO(timeWindow.endTime) : undefined;
+              queryTimeField = timeWindow.timeField;
               if (queryStartTime) {
-                this.logger.info(`Time filter set to: >= ${queryStartTime}`);
+                this.logger.info(
+                  `Time filter set to: ${describeTimeWindow(queryStartTime, queryEndTime, queryTimeField)}`,
+                );
               } else {
                 this.logger.info('No time filter applied.');
               }
             } else {
               queryStartTime = undefined;
+              queryEndTime = undefined;
+              queryTimeField = undefined;
               this.logger.info('No time filter applied.');
             }
-          } else if (queryStartTime) {
-            this.logger.info('Info: Time filter cleared because more/less than one collection is selected.');
+
+            queries = await this.askQueryFilters(collections, queries);
+          } else if (queryStartTime || queries) {
+            this.logger.info('Info: Query filters cleared because no collection is selected.');
             queryStartTime = undefined;
+            queryEndTime = undefined;
+            queryTimeField = undefined;
+            queries = undefined;
           }
         }
       } catch (error: any) {
@@ -695,12 +1174,18 @@ export class PromptService {
       }
     } else {
       collections = [];
-      if (queryStartTime) {
-        this.logger.info('Info: Time filter cleared because mode is not "include".');
+      if (queryStartTime || queries) {
+        this.logger.info('Info: Query filters cleared because mode is not "include".');
         queryStartTime = undefined;
+        queryEndTime = undefined;
+        queryTimeField = undefined;
+        queries = undefined;
       }
     }
 
+    const schedule = await this.askSchedule(existingPreset?.schedule);
+    const incremental = await this.askIncremental(existingPreset?.incremental);
+
     this.logger.info('--- Preset Configuration Summary ---');
     this.logger.info(`Name: ${name}`);
     this.logger.info(`Source: ${source.name} (${source.database})`);
@@ -709,7 +1194,16 @@ export class PromptService {
       this.logger.info(`Collections: ${collections.length > 0 ? collections.join(', ') : '(none)'}`);
     }
     if (queryStartTime) {
-      this.logger.info(`Time Filter: >= ${queryStartTime}`);
+      this.logger.info(`Time Filter: ${describeTimeWindow(queryStartTime, queryEndTime, queryTimeField)}`);
+    }
+    if (queries) {
+      this.logger.info(`Query Filters: ${JSON.stringify(queries)}`);
+    }
+    if (schedule) {
+      this.logger.info(`Schedule: ${schedule}`);
+    }
+    if (incremental) {
+      this.logger.info('Incremental: yes');
     }
 
     return {
@@ -719,15 +1213,20 @@ export class PromptService {
       collections,
       createdAt: existingPreset?.createdAt || formatISO(new Date()),
       queryStartTime,
+      queryEndTime,
+      queryTimeField,
+      queries,
+      schedule,
+      incremental,
     };
   }
 
   /**
-   * Prompts the user to confirm if they want to delete a backup preset.
+   * Prompts the user to confirm if they want to delete a backup or restore preset.
    * @param preset - The preset to delete.
    * @returns A promise that resolves with the user's confirmation.
    */
-  async askConfirmDeletePreset(preset: BackupPreset): Promise<boolean> {
+  async askConfirmDeletePreset(preset: BackupPreset | RestorePreset): Promise<boolean> {
     const { confirmDelete } = await inquirer.prompt({
       type: 'confirm',
       name: 'confirmDelete',
@@ -736,4 +1235,400 @@ export class PromptService {
     });
     return confirmDelete;
   }
+
+  /**
+   * Shows the connection management menu and returns the selected action and connection.
+   * Does not change the config.
+   */
+  async askConnectionAction(): Promise<
+    { type: 'add' } | { type: 'edit' | 'test' | 'delete'; connection: ConnectionConfig } | undefined
+  > {
+    const connections = this.config.parsed.connections;
+    if (connections.length === 0) {
+      this.logger.info('No connections configured.');
+    }
+
+    const { selected } = await inquirer.prompt<{ selected: ConnectionConfig | 'add' | null }>({
+      type: 'list',
+      name: 'selected',
+      message: 'Select a connection to manage:',
+      choices: [
+        ...connections.map((conn) => ({
+          name: `${conn.name} (${conn.database}${conn.ssh ? `, via SSH ${conn.ssh.host}` : ''})`,
+          value: conn,
+        })),
+        new inquirer.Separator(),
+        { name: 'Add Connection', value: 'add' },
+        { name: 'Cancel', value: null },
+      ],
+      loop: false,
+    });
+
+    if (!selected) {
+      this.logger.info('Connection management cancelled.');
+      return undefined;
+    }
+    if (selected === 'add') {
+      return { type: 'add' };
+    }
+
+    const { action } = await inquirer.prompt<{ action: 'edit' | 'test' | 'delete' | 'cancel' }>({
+      type: 'list',
+      name: 'action',
+      message: `Action for connection "${selected.name}":`,
+      choices: [
+        { name: 'Test connection', value: 'test' },
+        { name: 'Edit connection', value: 'edit' },
+        { name: 'Delete connection', value: 'delete' },
+        { name: 'Cancel', value: 'cancel' },
+      ],
+    });
+
+    if (action === 'cancel') {
+      this.logger.info('Action cancelled.');
+      return undefined;
+    }
+    return { type: action, connection: selected };
+  }
+
+  /**
+   * Prompts the user for the details of a new or edited connection: the address (URI or host/port),
+   * credentials, an optional SSH block and the safety flags.
+   * The answers are not validated against the config schema; the caller does that before saving.
+   * @param existing - The connection being edited; its values are the defaults, empty secrets keep the current ones.
+   * @returns The connection as entered.
+   */
+  async askConnectionDetails(existing?: ConnectionConfig): Promise<ConnectionConfig> {
+    this.logger.info(existing ? `--- Editing Connection "${existing.name}" ---` : '--- Adding New Connection ---');
+    const otherNames = this.config.parsed.connections
+      .map((conn) => conn.name)
+      .filter((name) => name !== existing?.name);
+    const keepHint = existing ? ' (empty keeps the current one)' : '';
+
+    const { name, database, addressType } = await inquirer.prompt<{
+      name: string;
+      database: string;
+      addressType: 'uri' | 'host';
+    }>([
+      {
+        type: 'input',
+        name: 'name',
+        message: 'Connection name:',
+        default: existing?.name,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => {
+          if (!input) return 'Connection name cannot be empty.';
+          return otherNames.includes(input) ? `A connection named "${input}" already exists.` : true;
+        },
+      },
+      {
+        type: 'input',
+        name: 'database',
+        message: 'Database name:',
+        default: existing?.database,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) => (input ? true : 'Database name cannot be empty.'),
+      },
+      {
+        type: 'list',
+        name: 'addressType',
+        message: 'How is the server addressed?',
+        choices: [
+          { name: 'Connection URI (mongodb://...)', value: 'uri' },
+          { name: 'Host, port and credentials', value: 'host' },
+        ],
+        default: existing && !existing.uri ? 'host' : 'uri',
+      },
+    ]);
+
+    const connection: ConnectionConfig = { name, database };
+
+    if (addressType === 'uri') {
+      const { uri } = await inquirer.prompt<{ uri: string }>({
+        type: 'input',
+        name: 'uri',
+        message: 'Connection URI:',
+        default: existing?.uri,
+        filter: (input: string) => input.trim(),
+        validate: (input: string) =>
+          /^mongodb(\+srv)?:\/\//.test(input) ? true : 'The URI must start with mongodb:// or mongodb+srv://.',
+      });
+      connection.uri = uri;
+    } else {
+      const answers = await inquirer.prompt<{
+        host: string;
+        port: string;
+        username: string;
+        password: string;
+        authenticationDatabase: string;
+      }>([
+        {
+          type: 'input',
+          name: 'host',
+          message: 'Host:',
+          default: existing?.host ?? 'localhost',
+          filter: (input: string) => input.trim(),
+          validate: (input: string) => (input ? true : 'Host cannot be empty.'),
+        },
+        {
+          type: 'input',
+          name: 'port',
+          message: 'Port:',
+          default: String(existing?.port ?? 27017),
+          validate: (input: string) => (/^\d+$/.test(input.trim()) ? true : 'Port must be a number.'),
+        },
+        {
+          type: 'input',
+          name: 'username',
+          message: 'Username (optional):',
+          default: existing?.username,
+          filter: (input: string) => input.trim(),
+        },
+        {
+          type: 'password',
+          name: 'password',
+          message: `Password${keepHint}:`,
+          mask: '*',
+          when: (current) => !!current.username,
+        },
+        {
+          type: 'input',
+          name: 'authenticationDatabase',
+          message: 'Authentication database (optional, e.g. admin):',
+          default: existing?.authenticationDatabase,
+          filter: (input: string) => input.trim(),
+          when: (current) => !!current.username,
+        },
+      ]);
+      connection.host = answers.host;
+      connection.port = parseInt(answers.port, 10);
+      if (answers.username) {
+        connection.username = answers.username;
+        connection.password =
+          answers.password || (answers.username === existing?.username ? existing?.password : undefined);
+        connection.authenticationDatabase = answers.authenticationDatabase || undefined;
+      }
+    }
+
+    const { useSsh } = await inquirer.prompt<{ useSsh: boolean }>({
+      type: 'confirm',
+      name: 'useSsh',
+      message: 'Connect through an SSH host?',
+      default: !!existing?.ssh,
+    });
+    if (useSsh) {
+      const ssh = await inquirer.prompt<{
+        host: string;
+        port: string;
+        username: string;
+        authType: 'key' | 'password';
+        privateKey: string;
+        passphrase: string;
+        password: string;
+      }>([
+        {
+          type: 'input',
+          name: 'host',
+          message: 'SSH host:',
+          default: existing?.ssh?.host,
+          filter: (input: string) => input.trim(),
+          validate: (input: string) => (input ? true : 'SSH host cannot be empty.'),
+        },
+        {
+          type: 'input',
+          name: 'port',
+          message: 'SSH port:',
+          default: String(existing?.ssh?.port ?? 22),
+          validate: (input: string) => (/^\d+$/.test(input.trim()) ? true : 'Port must be a number.'),
+        },
+        {
+          type: 'input',
+          name: 'username',
+          message: 'SSH username:',
+          default: existing?.ssh?.username,
+          filter: (input: string) => input.trim(),
+          validate: (input: string) => (input ? true : 'SSH username cannot be empty.'),
+        },
+        {
+          type: 'list',
+          name: 'authType',
+          message: 'SSH authentication:',
+          choices: [
+            { name: 'Private key', value: 'key' },
+            { name: 'Password', value: 'password' },
+          ],
+          default: existing?.ssh?.password ? 'password' : 'key',
+        },
+        {
+          type: 'input',
+          name: 'privateKey',
+          message: 'Private key path:',
+          default: existing?.ssh?.privateKey || '~/.ssh/id_rsa',
+          filter: (input: string) => input.trim(),
+          when: (current) => current.authType === 'key',
+        },
+        {
+          type: 'password',
+          name: 'passphrase',
+          message: `Key passphrase (optional)${keepHint}:`,
+          mask: '*',
+          when: (current) => current.authType === 'key',
+        },
+        {
+          type: 'password',
+          name: 'password',
+          message: `SSH password${keepHint}:`,
+          mask: '*',
+          when: (current) => current.authType === 'password',
+        },
+      ]);
+      connection.ssh = {
+        ...existing?.ssh,
+        host: ssh.host,
+        port: parseInt(ssh.port, 10),
+        username: ssh.username,
+        // The schema requires a key path, password logins keep the previous one
+        privateKey: ssh.privateKey ?? existing?.ssh?.privateKey ?? '',
+        passphrase: ssh.authType === 'key' ? ssh.passphrase || existing?.ssh?.passphrase : undefined,
+        password: ssh.authType === 'password' ? ssh.password || existing?.ssh?.password : undefined,
+      };
+    }
+
+    const { isProtected, allowDrop } = await inquirer.prompt<{ isProtected: boolean; allowDrop: boolean }>([
+      {
+        type: 'confirm',
+        name: 'isProtected',
+        message: 'Protect this connection (restores and copies into it need explicit confirmation)?',
+        default: existing?.protected ?? false,
+      },
+      {
+        type: 'confirm',
+        name: 'allowDrop',
+        message: 'Allow restores with --drop into this connection?',
+        default: existing?.allowDrop ?? true,
+      },
+    ]);
+    // Keep the config minimal: only non-default flags are written
+    connection.protected = isProtected || undefined;
+    connection.allowDrop = allowDrop ? undefined : false;
+
+    return connection;
+  }
+
+  /**
+   * Asks whether a connection whose live test failed is saved anyway.
+   * @param name - The name of the connection.
+   * @returns True to save it.
+   */
+  async askSaveUntestedConnection(name: string): Promise<boolean> {
+    const { save } = await inquirer.prompt<{ save: boolean }>({
+      type: 'confirm',
+      name: 'save',
+      message: `The test of "${name}" failed. Save the connection anyway?`,
+      default: false,
+    });
+    return save;
+  }
+
+  /**
+   * Asks whether a new or edited connection is tested before it is saved.
+   * @returns True to test it.
+   */
+  async askTestConnectionNow(): Promise<boolean> {
+    const { test } = await inquirer.prompt<{ test: boolean }>({
+      type: 'confirm',
+      name: 'test',
+      message: 'Test the connection before saving it?',
+      default: true,
+    });
+    return test;
+  }
+
+  /**
+   * Prompts the user to confirm deleting a connection, warning about presets that use it.
+   * @param connection - The connection to delete.
+   * @param presetNames - The backup and restore presets that reference the connection.
+   * @returns A promise that resolves with the user's confirmation.
+   */
+  async askConfirmDeleteConnection(connection: ConnectionConfig, presetNames: string[]): Promise<boolean> {
+    if (presetNames.length > 0) {
+      this.logger.warn(
+        `Connection "${connection.name}" is used by the preset(s) ${presetNames.map((name) => `"${name}"`).join(', ')}. They will fail until they are changed or deleted.`,
+      );
+    }
+    const { confirmDelete } = await inquirer.prompt({
+      type: 'confirm',
+      name: 'confirmDelete',
+      message: `Delete connection "${connection.name}" from the config?`,
+      default: false,
+    });
+    return confirmDelete;
+  }
+
+  /**
+   * Asks for confirmation after the plan of an operation was shown.
+   * @param operation - The operation, e.g. "backup" or "restore".
+   * @returns True if the user wants to proceed.
+   */
+  async askConfirmPlan(operation: string): Promise<boolean> {
+    const { proceed } = await inquirer.prompt<{ proceed: boolean }>({
+      type: 'confirm',
+      name: 'proceed',
+      message: `Proceed with the ${operation}?`,
+      default: true,
+    });
+    return proceed;
+  }
+
+  /**
+   * Asks whether a backup is restored together with its incremental chain: for a full backup, the incremental
+   * backups built on it; for an incremental backup, its full backup and the incremental backups up to it.
+   * @param backupFile - The selected backup.
+   * @param chain - The resolved chain, oldest first (see `BackupService.resolveBackupChain`).
+   * @returns True to replay the chain, false to restore only the selected backup.
+   */
+  async askReplayChain(backupFile: string, chain: BackupMetadata[]): Promise<boolean> {
+    const incrementals = chain.length - 1;
+    const { replayChain } = await inquirer.prompt<{ replayChain: boolean }>({
+      type: 'confirm',
+      name: 'replayChain',
+      message:
+        chain[0].archivePath === backupFile
+          ? `${backupFile} has ${incrementals} incremental backup(s) built on it. Replay them on top of it (up to ${chain[incrementals].archivePath})?`
+          : `${backupFile} is an incremental backup. Restore its full backup and every incremental backup up to it?`,
+      default: true,
+    });
+    return replayChain;
+  }
+
+  /**
+   * Asks the user to type the database name of a protected connection before writing into it.
+   * @param target - The protected target connection.
+   * @returns True if the typed name matches the connection's database.
+   */
+  async askProtectedTargetConfirmation(target: ConnectionConfig): Promise<boolean> {
+    const { typedName } = await inquirer.prompt<{ typedName: string }>({
+      type: 'input',
+      name: 'typedName',
+      message: `Connection "${target.name}" is protected. Type the database name "${target.database}" to continue:`,
+      filter: (input: string) => input.trim(),
+    });
+    return typedName === target.database;
+  }
+
+  /**
+   * Prompts the user to confirm removing the backups selected by the retention policy.
+   * @param count - The number of backups to remove.
+   * @param size - The formatted total size that will be freed.
+   * @returns A promise that resolves with the user's confirmation.
+   */
+  async askConfirmPrune(count: number, size: string): Promise<boolean> {
+    const { confirmPrune } = await inquirer.prompt({
+      type: 'confirm',
+      name: 'confirmPrune',
+      message: `Delete ${count} backup(s) (${size}) with their metadata without recovery?`,
+      default: false,
+    });
+    return confirmPrune;
+  }
 }
@@ -2,11 +2,27 @@ import path from 'path';
 import fs from 'fs';
 
 import type { PromptService } from '@modules/prompt/services/prompt-service';
-import type { AppConfig, BackupMetadata } from '@ts-types/mixed';
+import type { AppConfig, BackupMetadata, ConnectionConfig } from '@ts-types/mixed';
+import type { RestorePreset } from '../interfaces/restore-preset.interface';
+import type { RestoreOptions } from '../interfaces/restore-options.interface';
+import type { CollectionVerification } from '../interfaces/restore-verification.interface';
+import type { RestoreResult } from '../interfaces/restore-result.interface';
+import type { JournalEntry } from '@modules/journal/interfaces/journal-entry.interface';
 
 import { Logger } from '@infrastructure/logger';
+import { ConfigError, VerificationError } from '@infrastructure/errors';
+import { MongoDBService } from '@infrastructure/mongodb.service';
 import { RestoreService } from '../services/restore.service';
 import { BackupService } from '@modules/backup/services/backup.service';
+import { CollectionStatsService } from '@modules/backup/services/collection-stats.service';
+import { describeTimeWindow } from '@utils/describe-time-window';
+import { describeCollectionStats } from '@utils/describe-collection-stats';
+import { parseOplogLimit } from '@utils/parse-oplog-limit';
+import { formatTable } from '@utils/format-table';
+import { RestoreVerificationService } from '../services/restore-verification.service';
+import { ProtectedTargetGuard } from '../services/protected-target-guard';
+import { JournalService } from '@modules/journal/services/journal.service';
+import { IncrementalReplayService } from '../services/incremental-replay.service';
 
 /**
  * Manages the restore process, coordinating user prompts (if needed) and the RestoreService.
@@ -17,7 +33,21 @@ export class RestoreController {
     private readonly backupService: BackupService,
     private readonly promptService: PromptService,
     private readonly restoreService: RestoreService,
+    private readonly mongoService: MongoDBService,
     private readonly logger: Logger,
+    private readonly restoreVerification: RestoreVerificationService = new RestoreVerificationService(
+      mongoService,
+      logger,
+    ),
+    private readonly protectedTargetGuard: ProtectedTargetGuard = new ProtectedTargetGuard(promptService, logger),
+    private readonly collectionStats: CollectionStatsService = new CollectionStatsService(config, mongoService, logger),
+    private readonly journal: JournalService = new JournalService(config, logger),
+    private readonly incrementalReplay: IncrementalReplayService = new IncrementalReplayService(
+      config,
+      restoreService,
+      mongoService,
+      logger,
+    ),
   ) {}
 
   /**
@@ -26,19 +56,58 @@ export class RestoreController {
    *
    * @param backupFilename - The filename (relative to backupDir) of the backup archive to restore.
    * @param targetName - The name of the target connection configuration.
-   * @param options - Restoration options (e.g., { drop: true }).
-   * @throws An error if the target connection or backup file is not found, or if metadata loading/restore fails.
+   * @param options - Restoration options (e.g., { drop: true, includeCollections: ['users'] }).
+   * @param plan - `dryRun` only prints the restore plan; `confirm` prints it and asks before restoring
+   * (protected targets then ask for the database name instead of `confirmProtected`); `preflight` checks the
+   * MongoDB Database Tools once the backup, target and options are known to be valid.
+   * @returns Success if the restore succeeded (or the dry run was printed) and, with `verifyRestore`,
+   * the target matches the metadata, with the restored backup and the document counts mongorestore reported.
+   * Failures are logged and returned as `error`, not thrown; a cancelled restore is unsuccessful without an error.
+   * Every restore that is not a dry run or cancelled is recorded in the operation journal.
    */
-  async runRestore(backupFilename: string, targetName: string, options: { drop: boolean }): Promise<void> {
+  async runRestore(
+    backupFilename: string,
+    targetName: string,
+    options: RestoreOptions,
+    {
+      dryRun = false,
+      confirm = false,
+      preflight,
+    }: { dryRun?: boolean; confirm?: boolean; preflight?: () => Promise<void> } = {},
+  ): Promise<RestoreResult> {
     this.logger.startSpinner(`Preparing restore for ${backupFilename} to ${targetName}...`);
+    let startedAt = new Date().toISOString();
+    let snapshot: string | undefined;
+    let chain: BackupMetadata[] = [];
+    const record = (result: Pick<JournalEntry, 'outcome' | 'error'>) =>
+      this.journal.record({
+        operation: 'restore',
+        startedAt,
+        ...result,
+        target: targetName,
+        archive: backupFilename,
+        options: {
+          drop: options.drop,
+          collections: options.includeCollections,
+          exclude: options.excludeCollections,
+          rename: options.renameCollections,
+          skipVerify: options.skipVerify,
+          verifyRestore: options.verifyRestore,
+          snapshot,
+          chain: chain.length > 1 ? chain.map((link) => link.archivePath) : undefined,
+          oplogReplay: options.oplogReplay,
+          oplogLimit: options.oplogLimit,
+        },
+      });
     try {
       const targetConfig = this.config.connections.find((c) => c.name === targetName);
       if (!targetConfig) {
-        throw new Error(`Target connection "${targetName}" not found in configuration.`);
+        throw new ConfigError(`Target connection "${targetName}" not found in configuration.`);
       }
       if (!targetConfig.database) {
-        throw new Error(`Target connection "${targetName}" must have a 'database' field defined for restore.`);
+        throw new ConfigError(`Target connection "${targetName}" must have a 'database' field defined for restore.`);
       }
+      this.protectedTargetGuard.assertAllowed(targetConfig, options, !confirm && !dryRun);
 
       this.logger.updateSpinner(`Loading metadata for ${backupFilename}...`);
       let backupMetadata: BackupMetadata;
@@ -56,28 +125,130 @@ export class RestoreController {
         if (backupMetadata.excludedCollections?.length) {
           this.logger.logRaw(`Excluded: ${backupMetadata.excludedCollections.join(', ')}`);
         }
+        if (backupMetadata.queryStartTime || backupMetadata.queryEndTime) {
+          this.logger.logRaw(
+            `Window:   ${describeTimeWindow(backupMetadata.queryStartTime, backupMetadata.queryEndTime, backupMetadata.queryTimeField)}`,
+          );
+        }
+        if (backupMetadata.parts?.length) {
+          this.logger.logRaw(`Parts:    ${backupMetadata.parts.length} (one archive per collection)`);
+        }
+        if (backupMetadata.oplog) {
+          this.logger.logRaw(`Oplog:    ${backupMetadata.oplog.startedAt} - ${backupMetadata.oplog.finishedAt}`);
+        }
+        if (backupMetadata.collections?.length) {
+          this.logger.logRaw('Contents:');
+          backupMetadata.collections.forEach((stats) => this.logger.logRaw(`  ${describeCollectionStats(stats)}`));
+        }
         this.logger.logRaw('--------------------------------');
       } catch (error: any) {
-        throw new Error(`Failed to load metadata for backup "${backupFilename}": ${error.message}`);
+        throw new ConfigError(`Failed to load metadata for backup "${backupFilename}": ${error.message}`);
       }
 
+      chain = [backupMetadata];
+      if (options.replayChain) {
+        chain = this.backupService.resolveBackupChain(backupMetadata);
+        this.logger.logRaw('--- Incremental Chain ---');
+        chain.forEach((link, index) =>
+          this.logger.logRaw(
+            `${index === 0 ? 'Full:       ' : 'Incremental:'} ${link.archivePath} (${new Date(link.timestamp).toLocaleString()})`,
+          ),
+        );
+        this.logger.logRaw('--------------------------------');
+        if (chain.length === 1) {
+          this.logger.info(`No incremental backups build on ${backupFilename}; restoring it alone.`);
+        }
+      } else if (backupMetadata.parent) {
+        this.logger.warn(
+          `${backupFilename} is an incremental backup: it only holds the documents since ${backupMetadata.queryStartTime}. Use --chain to restore it on top of its full backup.`,
+        );
+      }
+      // The chain starts with the full backup; the incremental backups are replayed on top of it
+      const [baseMetadata, ...incrementals] = chain;
+
       const backupDir = path.resolve(this.config.backupDir);
-      const fullBackupPath = path.join(backupDir, backupMetadata.archivePath);
-      if (!fs.existsSync(fullBackupPath)) {
-        throw new Error(
-          `Backup archive file "${backupMetadata.archivePath}" specified in metadata not found in directory "${backupDir}".`,
+      const missingArchive = chain
+        .flatMap((link) => this.backupService.getArchivePaths(link))
+        .find((archivePath) => !fs.existsSync(archivePath));
+      if (missingArchive) {
+        throw new ConfigError(
+          `Backup archive file "${path.basename(missingArchive)}" specified in metadata not found in directory "${backupDir}".`,
         );
       }
 
+      this.validateCollectionSelection(baseMetadata, options);
+      this.validateOplogReplay(baseMetadata, targetConfig, options);
+      await this.validateRenameRules(baseMetadata, targetConfig, options);
+      await preflight?.();
+
+      if (options.skipVerify) {
+        this.logger.warn('Skipping archive checksum verification.');
+      } else if (!dryRun) {
+        for (const link of chain) {
+          await this.verifyChecksums(link);
+        }
+      }
+
       this.logger.stopSpinner();
-      this.logger.info(`Initiating restore process for ${backupFilename} to ${targetName}...`);
+      if (dryRun || confirm) {
+        await this.printRestorePlan(baseMetadata, targetConfig, options, incrementals);
+        if (dryRun) {
+          this.logger.info('Dry run: nothing was restored.');
+          return { success: true, metadata: baseMetadata };
+        }
+        const proceed = targetConfig.protected
+          ? await this.protectedTargetGuard.confirmInteractively(targetConfig)
+          : await this.promptService.askConfirmPlan('restore');
+        if (!proceed) {
+          this.logger.info('Restore cancelled.');
+          return { success: false, metadata: baseMetadata };
+        }
+        startedAt = new Date().toISOString();
+      }
+
+      if (options.snapshotBeforeRestore ?? this.config.snapshotBeforeRestore) {
+        this.logger.startSpinner(`Taking a pre-restore snapshot of ${targetName}...`);
+        snapshot = await this.takeSnapshot(chain, targetConfig, options);
+      }
 
-      await this.restoreService.restoreBackup(backupMetadata, targetConfig, options);
+      this.logger.info(`Initiating restore process for ${baseMetadata.archivePath} to ${targetName}...`);
+
+      const counts = await this.restoreService.restoreBackup(baseMetadata, targetConfig, options);
+      for (const incremental of incrementals) {
+        this.logger.info(`Replaying incremental backup ${incremental.archivePath}...`);
+        const replayed = await this.incrementalReplay.replay(incremental, targetConfig, options);
+        counts.restored += replayed.restored;
+        counts.failed += replayed.failed;
+      }
 
       this.logger.succeedSpinner(
         `Backup "${backupFilename}" successfully restored to target "${targetName}" (Database: ${targetConfig.database})`,
       );
+
+      if (options.verifyRestore && incrementals.length > 0) {
+        this.logger.warn(
+          'Skipping --verify-restore: the metadata records the counts of each backup of the chain, not of the replayed result.',
+        );
+      } else if (options.verifyRestore && options.oplogReplay) {
+        this.logger.warn(
+          'Skipping --verify-restore: the metadata records the counts before the dump, not after the replayed oplog.',
+        );
+      } else if (options.verifyRestore && !(await this.verifyRestoredData(baseMetadata, targetConfig, options))) {
+        record({ outcome: 'failure', error: 'Restore verification failed.' });
+        return {
+          success: false,
+          metadata: baseMetadata,
+          counts,
+          snapshot,
+          error: new VerificationError('Restore verification failed.'),
+        };
+      }
+      record({ outcome: 'success' });
+      return { success: true, metadata: baseMetadata, counts, snapshot };
     } catch (error: any) {
+      if (!dryRun) {
+        record({ outcome: 'failure', error: error.message });
+      }
       if (this.logger.spinner?.isSpinning) {
         this.logger.failSpinner(`Restore operation failed: ${error.message}`);
       } else {
@@ -86,9 +257,54 @@ export class RestoreController {
       if (this.logger.spinner?.isSpinning) {
         this.logger.stopSpinner();
       }
+      return { success: false, metadata: chain[0], snapshot, error };
     }
   }
 
+  /**
+   * Executes a restore using a predefined preset.
+   * Picks the newest backup matching the preset's `backupPattern` and restores it to the preset's target.
+   * @param preset - The restore preset configuration.
+   * @param plan - Passed to `runRestore`: print the plan only (`dryRun`), ask before restoring (`confirm`)
+   * or check the tools first (`preflight`).
+   * @returns The result of `runRestore`.
+   * @throws A `ConfigError` if no backup matches the preset's pattern; outside a dry run it is recorded
+   * in the operation journal as a failed restore.
+   */
+  async useRestorePreset(
+    preset: RestorePreset,
+    plan: { dryRun?: boolean; confirm?: boolean; preflight?: () => Promise<void> } = {},
+  ): Promise<RestoreResult> {
+    const startedAt = new Date().toISOString();
+    this.logger.startSpinner(`Loading restore preset "${preset.name}"...`);
+
+    const backupFile = this.backupService.findLatestBackupFile(preset.backupPattern);
+    if (!backupFile) {
+      const reason = preset.backupPattern ? `matching pattern "${preset.backupPattern}"` : 'in the backup directory';
+      const message = `No backup found ${reason} for restore preset "${preset.name}".`;
+      this.logger.failSpinner(message);
+      if (!plan.dryRun) {
+        this.journal.record({
+          operation: 'restore',
+          startedAt,
+          outcome: 'failure',
+          error: message,
+          target: preset.targetName,
+          options: { preset: preset.name, backupPattern: preset.backupPattern, drop: preset.options?.drop ?? false },
+        });
+      }
+      throw new ConfigError(message);
+    }
+
+    this.logger.succeedSpinner(`Restore preset "${preset.name}" selected backup: ${backupFile}`);
+    return this.runRestore(
+      backupFile,
+      preset.targetName,
+      { ...preset.options, drop: preset.options?.drop ?? false },
+      plan,
+    );
+  }
+
   /**
    * Initiates the interactive restore process.
    * Prompts the user for backup file and target, then calls runRestore.
@@ -98,11 +314,462 @@ export class RestoreController {
     try {
       this.logger.stopSpinner();
       const { backupFile, target, options } = await this.promptService.askRestoreConfig();
+
+      const backupMetadata = this.backupService.loadBackupMetadata(backupFile);
+      const chain = this.resolveChainQuietly(backupMetadata);
+      const replayChain = chain.length > 1 ? await this.promptService.askReplayChain(backupFile, chain) : undefined;
+      const archiveCollections = await this.getArchiveCollections(backupMetadata, target);
+      const includeCollections =
+        archiveCollections.length > 0
+          ? await this.promptService.askRestoreCollections(archiveCollections, backupMetadata.collections)
+          : undefined;
+      const renameCollections =
+        archiveCollections.length > 0
+          ? await this.promptService.askRestoreRenames(includeCollections ?? archiveCollections)
+          : undefined;
+
       this.logger.startSpinner(`Preparing restore for ${backupFile} to ${target.name}...`);
 
-      await this.runRestore(backupFile, target.name, options);
+      await this.runRestore(
+        backupFile,
+        target.name,
+        { ...options, includeCollections, renameCollections, replayChain },
+        { confirm: true },
+      );
     } catch (error: any) {
       this.logger.failSpinner(`Interactive restore failed: ${error.message}`);
     }
   }
+
+  /**
+   * Resolves the incremental chain of a backup for the interactive restore.
+   * @returns The chain, or just the backup if the chain is broken (the restore then offers the backup alone).
+   */
+  private resolveChainQuietly(backupMetadata: BackupMetadata): BackupMetadata[] {
+    try {
+      return this.backupService.resolveBackupChain(backupMetadata);
+    } catch (error: any) {
+      this.logger.warn(error.message);
+      return [backupMetadata];
+    }
+  }
+
+  /**
+   * Prints what a restore would do: the archives, namespace mappings, collection filters,
+   * the mongorestore invocations with passwords masked and, with `drop`, the target collections
+   * that would be dropped, then the incremental backups replayed on top. Only reads the target's collection list.
+   */
+  private async printRestorePlan(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+    incrementals: BackupMetadata[] = [],
+  ): Promise<void> {
+    const plan = this.restoreService.planRestore(backupMetadata, target, options);
+
+    this.logger.logRaw('--- Restore Plan ---');
+    this.logger.logRaw(
+      `Target:      ${target.name} (Database: ${target.database})${target.protected ? ' [protected]' : ''}`,
+    );
+    plan.archivePaths.forEach((archivePath) => this.logger.logRaw(`Archive:     ${archivePath}`));
+    if (options.oplogReplay) {
+      // The oplog is replayed without --nsFrom/--nsTo, so the namespaces are restored as they are
+      this.logger.logRaw(`Namespaces:  ${backupMetadata.database}.* (unchanged for the oplog replay)`);
+    } else if (backupMetadata.database) {
+      this.logger.logRaw(`Namespaces:  ${backupMetadata.database}.* -> ${target.database}.*`);
+    }
+    if (options.oplogReplay) {
+      this.logger.logRaw(
+        `Oplog:       replayed${options.oplogLimit ? ` up to ${options.oplogLimit} (exclusive)` : ' completely'}`,
+      );
+    }
+    Object.entries(options.renameCollections ?? {}).forEach(([from, to]) =>
+      this.logger.logRaw(`Rename:      ${from} -> ${to}`),
+    );
+    if (options.includeCollections?.length) {
+      this.logger.logRaw(`Include:     ${options.includeCollections.join(', ')}`);
+    }
+    if (options.excludeCollections?.length) {
+      this.logger.logRaw(`Exclude:     ${options.excludeCollections.join(', ')}`);
+    }
+    if (options.drop) {
+      this.logger.logRaw(`Drop:        ${await this.describeDroppedCollections(backupMetadata, target, options)}`);
+    }
+    if (options.snapshotBeforeRestore ?? this.config.snapshotBeforeRestore) {
+      this.logger.logRaw('Snapshot:    the overwritten target collections are backed up first');
+    }
+    incrementals.forEach((incremental) =>
+      this.logger.logRaw(`Replay:      ${incremental.archivePath} (upserted through staging collections)`),
+    );
+    plan.commands.forEach((command) => this.logger.snippet(command));
+    this.logger.logRaw('--------------------------------');
+  }
+
+  /**
+   * Lists the target collections a `--drop` restore would replace. When the metadata does not say
+   * which collections the archive holds, every existing target collection is a candidate.
+   * @returns A one-line description for the restore plan.
+   */
+  private async describeDroppedCollections(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<string> {
+    let existing: string[];
+    try {
+      await this.mongoService.connect(target);
+      existing = await this.mongoService.getCollections(target.database);
+    } catch (error: any) {
+      this.logger.warn(`[${target.name}] Could not list collections: ${error.message}`);
+      return 'unknown (target not reachable)';
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+
+    const restored = this.getRestoredCollections(backupMetadata, options);
+    if (!restored) {
+      return `any of ${existing.join(', ') || '(none)'} contained in the archive`;
+    }
+
+    const dropped = restored.filter((coll) => existing.includes(coll));
+    return dropped.join(', ') || '(none of the restored collections exist yet)';
+  }
+
+  /**
+   * Names the target collections a restore writes to, after collection selection and renames.
+   * @returns The collection names, or undefined if the metadata does not say which collections the archive holds.
+   */
+  private getRestoredCollections(backupMetadata: BackupMetadata, options: RestoreOptions): string[] | undefined {
+    const archived = options.includeCollections?.length
+      ? options.includeCollections
+      : (backupMetadata.collections?.map((stats) => stats.name) ??
+        backupMetadata.parts?.map((part) => part.collection) ??
+        (backupMetadata.selectionMode === 'include' ? backupMetadata.includedCollections : undefined));
+    return archived
+      ?.filter((coll) => !options.excludeCollections?.includes(coll))
+      .map((coll) => options.renameCollections?.[coll] ?? coll);
+  }
+
+  /**
+   * Backs up the target collections the restore is about to overwrite through the regular backup path,
+   * tagging the metadata as a pre-restore snapshot. If the collections of any archive are unknown, every
+   * existing target collection is included.
+   * @param chain - The backups restored, oldest first: the full backup and the incremental backups replayed on it.
+   * @returns The snapshot filename, or undefined if no restored collection exists in the target yet.
+   * @throws An error if the snapshot cannot be taken; the restore must not proceed without it.
+   */
+  private async takeSnapshot(
+    chain: BackupMetadata[],
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<string | undefined> {
+    const [backupMetadata] = chain;
+    let existing: string[];
+    try {
+      await this.mongoService.connect(target);
+      existing = await this.mongoService.getCollections(target.database);
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+
+    // Incremental backups may hold collections the full backup does not
+    const restoredPerLink = chain.map((link) => this.getRestoredCollections(link, options));
+    const restored = restoredPerLink.every(Boolean)
+      ? restoredPerLink.flatMap((collections) => collections!)
+      : undefined;
+    const overwritten = restored ? existing.filter((coll) => restored.includes(coll)) : existing;
+    if (overwritten.length === 0) {
+      this.logger.stopSpinner();
+      this.logger.info(`No restored collection exists in ${target.name} yet; no pre-restore snapshot needed.`);
+      return undefined;
+    }
+
+    // mongodump includes a single collection at most, so larger selections exclude every other collection
+    const mode = overwritten.length === existing.length ? 'all' : overwritten.length === 1 ? 'include' : 'exclude';
+    const selected = mode === 'include' ? overwritten : [];
+    const excluded = mode === 'exclude' ? existing.filter((coll) => !overwritten.includes(coll)) : [];
+
+    this.logger.updateSpinner(`Collecting collection statistics for ${target.name}...`);
+    const collectionStats = await this.collectionStats.capture(target, {
+      mode,
+      selectedCollections: selected,
+      excludedCollections: excluded,
+    });
+
+    // With a coarse filenameFormat the snapshot could land on an existing backup, even the one being restored
+    const { archivePath: plannedPath } = this.backupService.planBackup(target, selected, excluded, mode);
+    if (fs.existsSync(plannedPath) || fs.existsSync(`${plannedPath}.json`)) {
+      throw new ConfigError(
+        `Pre-restore snapshot would overwrite the existing backup ${path.basename(plannedPath)}; use {datetime} in filenameFormat.`,
+      );
+    }
+
+    this.logger.stopSpinner();
+    this.logger.info(`Taking a pre-restore snapshot of ${target.name}: ${overwritten.join(', ')}`);
+    const { archivePath, parts, sha256, size } = await this.backupService.createBackup(
+      target,
+      selected,
+      excluded,
+      mode,
+    );
+
+    const now = new Date();
+    const metadata: BackupMetadata = {
+      source: target.name,
+      database: target.database,
+      selectionMode: mode,
+      includedCollections: mode === 'include' ? selected : undefined,
+      excludedCollections: mode === 'exclude' ? excluded : undefined,
+      timestamp: now.getTime(),
+      date: now.toISOString(),
+      archivePath: path.basename(archivePath),
+      parts,
+      sha256,
+      size,
+      collections: collectionStats,
+      preRestoreSnapshot: { restoredBackup: backupMetadata.archivePath, target: target.name },
+    };
+    fs.writeFileSync(`${archivePath}.json`, JSON.stringify(metadata, null, 2));
+
+    // The rollback has to pass the guards of the target like any other restore
+    const rollbackFlags = [
+      target.allowDrop === false ? undefined : '--drop',
+      target.protected ? '--i-know-what-im-doing' : undefined,
+    ].filter(Boolean);
+    this.logger.info(
+      `Pre-restore snapshot saved: ${metadata.archivePath}. Roll back with: npm run restore -- --file=${metadata.archivePath} --target=${target.name} ${rollbackFlags.join(' ')}`.trimEnd(),
+    );
+    if (target.allowDrop === false) {
+      this.logger.warn(
+        `${target.name} does not allow --drop: a rollback only re-inserts the snapshot's documents and keeps the restored ones.`,
+      );
+    }
+    return metadata.archivePath;
+  }
+
+  /**
+   * Determines which collections an archive contains.
+   * Uses the metadata when it records the dumped collections or the backup was made in 'include' mode,
+   * otherwise lists the archive itself.
+   * @returns The collection names, or an empty list if they cannot be determined.
+   */
+  private async getArchiveCollections(backupMetadata: BackupMetadata, target: ConnectionConfig): Promise<string[]> {
+    if (backupMetadata.collections?.length) {
+      return backupMetadata.collections.map((stats) => stats.name);
+    }
+    if (backupMetadata.selectionMode === 'include' && backupMetadata.includedCollections?.length) {
+      return backupMetadata.includedCollections;
+    }
+
+    this.logger.startSpinner(`Listing collections in ${backupMetadata.archivePath}...`);
+    try {
+      const archivePath = path.join(path.resolve(this.config.backupDir), backupMetadata.archivePath);
+      const collections = await this.restoreService.listArchiveCollections(archivePath, target);
+      this.logger.succeedSpinner(`Found ${collections.length} collections in ${backupMetadata.archivePath}.`);
+      return collections;
+    } catch (error: any) {
+      this.logger.failSpinner(`Could not list archive collections, restoring everything: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Checks that rename rules do not make two collections land in the same target collection.
+   * Without `drop`, a rename target that already exists in the target database is rejected too,
+   * since the restored documents would be mixed into the live collection.
+   * @throws A `ConfigError` describing the first collision found.
+   */
+  private async validateRenameRules(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<void> {
+    const renameRules = Object.entries(options.renameCollections ?? {});
+    if (renameRules.length === 0) {
+      return;
+    }
+
+    const renameTargets = renameRules.map(([, to]) => to);
+    const duplicates = renameTargets.filter((name, index) => renameTargets.indexOf(name) !== index);
+    if (duplicates.length > 0) {
+      throw new ConfigError(`Several collections are renamed to the same name: ${[...new Set(duplicates)].join(', ')}`);
+    }
+
+    const knownCollections =
+      options.includeCollections ??
+      (backupMetadata.selectionMode === 'include' ? backupMetadata.includedCollections : undefined);
+    if (knownCollections) {
+      const unknown = renameRules.map(([from]) => from).filter((from) => !knownCollections.includes(from));
+      if (unknown.length > 0) {
+        throw new ConfigError(`Rename rules refer to collections that are not restored: ${unknown.join(', ')}`);
+      }
+      const shadowed = renameTargets.filter((to) => knownCollections.includes(to) && !options.renameCollections![to]);
+      if (shadowed.length > 0) {
+        throw new ConfigError(
+          `Rename targets clash with restored collections of the same name: ${shadowed.join(', ')}`,
+        );
+      }
+    }
+
+    if (options.drop) {
+      return;
+    }
+
+    this.logger.updateSpinner(`Checking rename targets in ${target.name}...`);
+    try {
+      await this.mongoService.connect(target);
+      const existing = await this.mongoService.getCollections(target.database);
+      const collisions = renameTargets.filter((to) => existing.includes(to));
+      if (collisions.length > 0) {
+        throw new ConfigError(
+          `Rename targets already exist in "${target.database}": ${collisions.join(', ')}. Use --drop to replace them.`,
+        );
+      }
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+
+  /**
+   * Compares the restored collections in the target with the counts and indexes recorded in the metadata
+   * and prints a pass/fail table.
+   * @returns True if every collection passed.
+   */
+  private async verifyRestoredData(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<boolean> {
+    this.logger.startSpinner(`Verifying restored collections in ${target.name}...`);
+    let results: CollectionVerification[];
+    try {
+      results = await this.restoreVerification.verify(backupMetadata, target, options);
+      this.logger.stopSpinner();
+    } catch (error: any) {
+      this.logger.failSpinner(`Restore verification failed: ${error.message}`);
+      return false;
+    }
+
+    const rows = results.map((result) => [
+      result.targetCollection === result.collection
+        ? result.collection
+        : `${result.collection} -> ${result.targetCollection}`,
+      String(result.expectedDocuments),
+      String(result.actualDocuments),
+      result.missingIndexes.length > 0 ? `missing ${result.missingIndexes.join(', ')}` : 'ok',
+      result.passed ? 'PASS' : 'FAIL',
+    ]);
+    this.logger.logRaw('--- Restore Verification ---');
+    this.logger.print(formatTable(['COLLECTION', 'EXPECTED DOCS', 'ACTUAL DOCS', 'INDEXES', 'RESULT'], rows));
+    if (!options.drop) {
+      this.logger.logRaw('Restored without --drop: the target may hold more documents than the backup.');
+    }
+
+    const failed = results.filter((result) => !result.passed);
+    if (failed.length > 0) {
+      this.logger.error(
+        `✖ Restore verification failed for ${failed.length} of ${results.length} collection(s): ${failed.map((result) => result.targetCollection).join(', ')}`,
+      );
+      return false;
+    }
+    this.logger.info(`Restore verification passed for ${results.length} collection(s).`);
+    return true;
+  }
+
+  /**
+   * Recomputes the checksums of the archive files and compares them with the metadata,
+   * so a truncated or corrupted archive is never fed into mongorestore.
+   * @throws An error naming the archives whose checksum or size differs.
+   */
+  private async verifyChecksums(backupMetadata: BackupMetadata): Promise<void> {
+    this.logger.updateSpinner(`Verifying checksums of ${backupMetadata.archivePath}...`);
+    const results = await this.backupService.verifyArchives(backupMetadata);
+
+    const mismatched = results.filter((result) => result.status !== 'ok' && result.status !== 'unrecorded');
+    if (mismatched.length > 0) {
+      throw new VerificationError(
+        `Archive integrity check failed for ${mismatched.map((result) => result.archivePath).join(', ')} (checksum or size differs from the metadata). Use --skip-verify to restore anyway.`,
+      );
+    }
+    if (results.some((result) => result.status === 'unrecorded')) {
+      this.logger.warn(`No checksum recorded for ${backupMetadata.archivePath}; restoring without integrity check.`);
+    } else {
+      this.logger.info(`Checksums of ${backupMetadata.archivePath} verified.`);
+    }
+  }
+
+  /**
+   * Checks that the oplog of a backup can be replayed with the options. Oplog entries are applied to the
+   * namespaces they were recorded for, so the database keeps its name and is restored as a whole.
+   * Warns if the limit lies outside the oplog the backup captured.
+   * @throws A `ConfigError` if the backup has no oplog or the options change the namespaces.
+   */
+  private validateOplogReplay(backupMetadata: BackupMetadata, target: ConnectionConfig, options: RestoreOptions): void {
+    if (!options.oplogReplay) {
+      if (options.oplogLimit) {
+        throw new ConfigError('--oplog-limit only applies together with --oplog-replay.');
+      }
+      return;
+    }
+    if (!backupMetadata.oplog) {
+      throw new ConfigError(
+        `Backup "${backupMetadata.archivePath}" was taken without --oplog; it holds no oplog to replay.`,
+      );
+    }
+    if (target.database !== backupMetadata.database) {
+      throw new ConfigError(
+        `Replaying the oplog requires restoring into a database named "${backupMetadata.database}", but target "${target.name}" uses "${target.database}".`,
+      );
+    }
+    if (
+      options.includeCollections?.length ||
+      options.excludeCollections?.length ||
+      Object.keys(options.renameCollections ?? {}).length > 0
+    ) {
+      throw new ConfigError(
+        'Replaying the oplog restores the whole database: drop the collection selection and renames.',
+      );
+    }
+
+    if (options.oplogLimit) {
+      const limit = new Date(Number(parseOplogLimit(options.oplogLimit).split(':')[0]) * 1000);
+      const { startedAt, finishedAt } = backupMetadata.oplog;
+      if (limit < new Date(startedAt) || limit > new Date(finishedAt)) {
+        this.logger.warn(
+          `Oplog limit ${limit.toISOString()} lies outside the captured oplog (${startedAt} - ${finishedAt}); ${limit < new Date(startedAt) ? 'no entry' : 'every entry'} will be replayed.`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Rejects collection filters that cannot match anything according to the backup metadata.
+   * @throws A `ConfigError` naming the collections that are not part of the backup.
+   */
+  private validateCollectionSelection(backupMetadata: BackupMetadata, options: RestoreOptions): void {
+    const requested = options.includeCollections ?? [];
+    if (requested.length === 0) {
+      return;
+    }
+
+    let missing: string[] = [];
+    if (backupMetadata.collections?.length) {
+      const recorded = backupMetadata.collections.map((stats) => stats.name);
+      missing = requested.filter((coll) => !recorded.includes(coll));
+    } else if (backupMetadata.selectionMode === 'include' && backupMetadata.includedCollections?.length) {
+      missing = requested.filter((coll) => !backupMetadata.includedCollections!.includes(coll));
+    } else if (backupMetadata.selectionMode === 'exclude' && backupMetadata.excludedCollections?.length) {
+      missing = requested.filter((coll) => backupMetadata.excludedCollections!.includes(coll));
+    }
+
+    if (missing.length > 0) {
+      throw new ConfigError(`Collections not present in backup "${backupMetadata.archivePath}": ${missing.join(', ')}`);
+    }
+  }
 }
@@ -1,3 +1,33 @@
 export interface RestoreOptions {
   drop?: boolean;
+  /** Restore only these collections from the archive. */
+  includeCollections?: string[];
+  /** Skip these collections from the archive. */
+  excludeCollections?: string[];
+  /** Restore collections under a different name (source name -> target name). */
+  renameCollections?: Record<string, string>;
+  /** Skip the checksum check of the archive files before restoring. */
+  skipVerify?: boolean;
+  /** After restoring, compare document counts and indexes in the target with the backup metadata. */
+  verifyRestore?: boolean;
+  /**
+   * Back up the target collections the restore overwrites before restoring, as a pre-restore snapshot.
+   * Defaults to the `snapshotBeforeRestore` config setting.
+   */
+  snapshotBeforeRestore?: boolean;
+  /**
+   * Restore the incremental chain of the backup: its full backup, then every incremental backup in order,
+   * upserting their documents. A full backup replays all its incremental backups, an incremental one
+   * stops at itself.
+   */
+  replayChain?: boolean;
+  /**
+   * Replay the oplog of an `--oplog` backup after restoring its collections (mongorestore --oplogReplay),
+   * which brings the target to the consistent state the source had when the dump finished.
+   */
+  oplogReplay?: boolean;
+  /** Stop the oplog replay before this point in time: an ISO 8601 date or `<seconds>[:ordinal]`. */
+  oplogLimit?: string;
+  /** Explicit consent to restore into a connection marked `protected` (CLI `--i-know-what-im-doing`). */
+  confirmProtected?: boolean;
 }
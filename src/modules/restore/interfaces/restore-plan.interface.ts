@@ -0,0 +1,6 @@
+export interface RestorePlan {
+  /** Absolute paths of the archives that would be restored, in order. */
+  archivePaths: string[];
+  /** The mongorestore invocations, one per archive, with passwords masked. */
+  commands: string[];
+}
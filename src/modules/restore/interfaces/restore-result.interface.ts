@@ -0,0 +1,23 @@
+import type { BackupMetadata } from '@ts-types/mixed';
+
+/** The document counts mongorestore reported. */
+export interface RestoreCounts {
+  /** Documents restored successfully. */
+  restored: number;
+  /** Documents that failed to restore (e.g. duplicate keys without `drop`). */
+  failed: number;
+}
+
+/** The outcome of `RestoreController.runRestore`. */
+export interface RestoreResult {
+  /** Whether the restore (or dry run) completed and, with `verifyRestore`, the target matched the metadata. */
+  success: boolean;
+  /** The metadata of the restored backup (the full backup of a replayed chain), once it was loaded. */
+  metadata?: BackupMetadata;
+  /** The summed counts of every mongorestore run of the restore (not set for dry runs). */
+  counts?: RestoreCounts;
+  /** The pre-restore snapshot taken of the target, if any. */
+  snapshot?: string;
+  /** Why the restore failed; not set if it succeeded or was cancelled. */
+  error?: Error;
+}
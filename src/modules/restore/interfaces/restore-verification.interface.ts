@@ -0,0 +1,14 @@
+export interface CollectionVerification {
+  /** The collection name in the backup. */
+  collection: string;
+  /** The collection name in the target database (differs when renamed). */
+  targetCollection: string;
+  /** The document count recorded in the backup metadata. */
+  expectedDocuments: number;
+  /** The document count found in the target. */
+  actualDocuments: number;
+  /** Index names recorded in the backup metadata that are missing in the target. */
+  missingIndexes: string[];
+  /** Whether the counts and indexes match. Without `drop`, the target may hold more documents than the backup. */
+  passed: boolean;
+}
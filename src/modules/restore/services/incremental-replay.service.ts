@@ -0,0 +1,116 @@
+import * as path from 'path';
+
+import type { AppConfig, BackupMetadata, ConnectionConfig } from '@ts-types/mixed';
+import type { RestoreOptions } from '../interfaces/restore-options.interface';
+import type { RestoreCounts } from '../interfaces/restore-result.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+import { RestoreService } from './restore.service';
+
+/** Suffix of the staging collections an incremental backup is restored into before it is merged. */
+const STAGING_SUFFIX = '__incremental_replay';
+
+/**
+ * Applies incremental backups on top of a restored full backup. mongorestore only inserts and skips
+ * documents whose `_id` already exists, so each incremental backup is restored into staging collections
+ * and merged into the target with `$merge` (MongoDB 4.2+), replacing documents that changed.
+ */
+export class IncrementalReplayService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly restoreService: RestoreService,
+    private readonly mongoService: MongoDBService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Upserts the documents of an incremental backup into the target.
+   * Collection selection and rename rules of the restore are applied; `drop` is not, since it would
+   * discard the documents restored from the earlier backups of the chain.
+   *
+   * @param backupMetadata - The metadata of the incremental backup.
+   * @param target - The configuration of the target MongoDB connection.
+   * @param options - The options of the restore.
+   * @returns The counts of the staging restore, i.e. the documents upserted.
+   * @throws An error if the staging restore or a merge fails. Staging collections are dropped either way.
+   */
+  async replay(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<RestoreCounts> {
+    const collections = (await this.getArchivedCollections(backupMetadata, target)).filter(
+      (coll) =>
+        (!options.includeCollections?.length || options.includeCollections.includes(coll)) &&
+        !options.excludeCollections?.includes(coll),
+    );
+    if (collections.length === 0) {
+      this.logger.info(`${backupMetadata.archivePath} holds none of the restored collections; nothing to replay.`);
+      return { restored: 0, failed: 0 };
+    }
+
+    const staging = Object.fromEntries(collections.map((coll) => [coll, `${coll}${STAGING_SUFFIX}`]));
+    try {
+      // Dropping only affects the staging collections, every restored namespace is renamed to one
+      const counts = await this.restoreService.restoreBackup(backupMetadata, target, {
+        includeCollections: collections,
+        renameCollections: staging,
+        drop: true,
+      });
+
+      await this.mongoService.connect(target);
+      const db = this.mongoService.getDb(target.database);
+      for (const coll of collections) {
+        const into = options.renameCollections?.[coll] ?? coll;
+        const documents = await db.collection(staging[coll]).estimatedDocumentCount();
+        await db
+          .collection(staging[coll])
+          .aggregate([{ $merge: { into, on: '_id', whenMatched: 'replace', whenNotMatched: 'insert' } }])
+          .toArray();
+        this.logger.info(`Upserted ${documents} document(s) from ${backupMetadata.archivePath} into "${into}".`);
+      }
+      return counts;
+    } finally {
+      await this.dropStagingCollections(target, Object.values(staging));
+    }
+  }
+
+  /**
+   * Determines which collections an incremental backup holds: from the recorded statistics or parts,
+   * the included collections, or by listing the archive.
+   */
+  private async getArchivedCollections(backupMetadata: BackupMetadata, target: ConnectionConfig): Promise<string[]> {
+    const recorded =
+      backupMetadata.collections?.map((stats) => stats.name) ??
+      backupMetadata.parts?.map((part) => part.collection) ??
+      (backupMetadata.selectionMode === 'include' ? backupMetadata.includedCollections : undefined);
+    if (recorded?.length) {
+      return recorded;
+    }
+    const archivePath = path.join(path.resolve(this.config.backupDir), backupMetadata.archivePath);
+    return this.restoreService.listArchiveCollections(archivePath, target);
+  }
+
+  /** Drops the staging collections that exist; failures are logged so they can be removed by hand. */
+  private async dropStagingCollections(target: ConnectionConfig, stagingCollections: string[]): Promise<void> {
+    try {
+      if (!this.mongoService.getClient()) {
+        await this.mongoService.connect(target);
+      }
+      const existing = await this.mongoService.getCollections(target.database);
+      const db = this.mongoService.getDb(target.database);
+      for (const coll of stagingCollections.filter((name) => existing.includes(name))) {
+        await db.collection(coll).drop();
+      }
+    } catch (error: any) {
+      this.logger.warn(
+        `Could not drop the staging collections ${stagingCollections.join(', ')} in ${target.name}: ${error.message}`,
+      );
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+}
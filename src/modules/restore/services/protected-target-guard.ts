@@ -0,0 +1,56 @@
+import type { ConnectionConfig } from '@ts-types/mixed';
+import type { PromptService } from '@modules/prompt/services/prompt-service';
+import type { RestoreOptions } from '../interfaces/restore-options.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
+
+/**
+ * Enforces the `protected` and `allowDrop` flags of a connection before anything is restored into it.
+ */
+export class ProtectedTargetGuard {
+  constructor(
+    private readonly promptService: PromptService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Refuses `drop` on connections with `allowDrop: false` and, when `requireConfirmation` is set,
+   * writes into a protected connection without `confirmProtected` (the CLI `--i-know-what-im-doing` flag).
+   *
+   * @param target - The connection that would be written to.
+   * @param options - The restore options; `drop` and `confirmProtected` are checked.
+   * @param requireConfirmation - False when the user is asked interactively instead (see `confirmInteractively`)
+   * or nothing is written (dry run).
+   * @throws An error describing why the restore is not allowed.
+   */
+  assertAllowed(target: ConnectionConfig, options: RestoreOptions, requireConfirmation: boolean): void {
+    if (options.drop && target.allowDrop === false) {
+      throw new ConfigError(`Connection "${target.name}" does not allow --drop (allowDrop: false).`);
+    }
+    if (!target.protected) {
+      return;
+    }
+    if (!requireConfirmation) {
+      this.logger.warn(`Connection "${target.name}" is protected.`);
+      return;
+    }
+    if (!options.confirmProtected) {
+      throw new ConfigError(
+        `Connection "${target.name}" is protected. Pass --i-know-what-im-doing to restore into database "${target.database}".`,
+      );
+    }
+    this.logger.warn(`Restoring into protected connection "${target.name}" (Database: ${target.database}).`);
+  }
+
+  /**
+   * Asks the user to type the database name of a protected connection.
+   * @returns True if the connection is not protected or the typed name matches.
+   */
+  async confirmInteractively(target: ConnectionConfig): Promise<boolean> {
+    if (!target.protected) {
+      return true;
+    }
+    return this.promptService.askProtectedTargetConfirmation(target);
+  }
+}
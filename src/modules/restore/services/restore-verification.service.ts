@@ -0,0 +1,82 @@
+import type { BackupMetadata, ConnectionConfig } from '@ts-types/mixed';
+import type { RestoreOptions } from '../interfaces/restore-options.interface';
+import type { CollectionVerification } from '../interfaces/restore-verification.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { MongoDBService } from '@infrastructure/mongodb.service';
+
+/**
+ * Compares a restored target database with what the backup metadata recorded.
+ */
+export class RestoreVerificationService {
+  constructor(
+    private readonly mongoService: MongoDBService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Connects to the target and checks, for every restored collection, the document count and
+   * that every recorded index exists. Collection selection and rename rules of the restore are applied.
+   * With `drop`, counts must be equal; without it, the target may hold additional documents.
+   *
+   * @param backupMetadata - The metadata of the restored backup; must record `collections`.
+   * @param target - The configuration of the target MongoDB connection.
+   * @param options - The options the restore ran with.
+   * @returns One result per restored collection.
+   * @throws An error if the metadata records no collection statistics or the target cannot be queried.
+   */
+  async verify(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): Promise<CollectionVerification[]> {
+    if (!backupMetadata.collections?.length) {
+      throw new Error(
+        `Backup "${backupMetadata.archivePath}" records no collection statistics (created by an older version); nothing to verify against.`,
+      );
+    }
+
+    const restored = backupMetadata.collections.filter(
+      (stats) =>
+        (!options.includeCollections?.length || options.includeCollections.includes(stats.name)) &&
+        !options.excludeCollections?.includes(stats.name),
+    );
+
+    try {
+      await this.mongoService.connect(target);
+      const db = this.mongoService.getDb(target.database);
+
+      const existing = await this.mongoService.getCollections(target.database);
+
+      const results: CollectionVerification[] = [];
+      for (const stats of restored) {
+        const targetCollection = options.renameCollections?.[stats.name] ?? stats.name;
+        let actualDocuments = 0;
+        let actualIndexes: string[] = [];
+        if (existing.includes(targetCollection)) {
+          const collection = db.collection(targetCollection);
+          actualDocuments = await collection.estimatedDocumentCount();
+          actualIndexes = (await collection.indexes()).map((index) => index.name!);
+        }
+        const missingIndexes = stats.indexes.map((index) => index.name).filter((name) => !actualIndexes.includes(name));
+        const countMatches = options.drop
+          ? actualDocuments === stats.documentCount
+          : actualDocuments >= stats.documentCount;
+
+        results.push({
+          collection: stats.name,
+          targetCollection,
+          expectedDocuments: stats.documentCount,
+          actualDocuments,
+          missingIndexes,
+          passed: countMatches && missingIndexes.length === 0,
+        });
+      }
+      return results;
+    } finally {
+      if (this.mongoService.getClient()) {
+        await this.mongoService.close();
+      }
+    }
+  }
+}
@@ -1,11 +1,19 @@
 import type { AppConfig, BackupMetadata, ConnectionConfig } from '@ts-types/mixed';
 import type { RestoreOptions } from '../interfaces/restore-options.interface';
+import type { RestorePlan } from '../interfaces/restore-plan.interface';
+import type { RestoreCounts } from '../interfaces/restore-result.interface';
 
 import * as fs from 'fs';
 import * as path from 'path';
 
 import { spawn } from 'child_process';
+import type { Readable } from 'stream';
 import { Logger } from '@infrastructure/logger';
+import { AppError, ConfigError, MongorestoreError } from '@infrastructure/errors';
+import { SshBackupRunner } from '@modules/backup/services/ssh-backup-runner';
+import { maskSecrets } from '@utils/mask-secrets';
+import { parseOplogLimit } from '@utils/parse-oplog-limit';
+import { resolveToolPath } from '@utils/resolve-tool-path';
 
 /**
  * Handles the restoration of MongoDB backups using mongorestore.
@@ -15,6 +23,7 @@ export class RestoreService {
   constructor(
     private readonly config: AppConfig,
     private readonly logger: Logger,
+    private readonly sshRunner: SshBackupRunner = new SshBackupRunner(logger),
   ) {}
 
   /**
@@ -25,202 +34,420 @@ export class RestoreService {
    * @param backupMetadata - Metadata associated with the backup archive, including filtering intent.
    * @param target - The configuration of the target MongoDB connection for restoration.
    * @param options - Restoration options, such as dropping collections (`drop`).
-   * @returns A promise that resolves when the restoration is complete.
+   * @returns The document counts mongorestore reported, summed over the parts of a backup set.
    * @throws An error if the restoration process fails or prerequisites are not met.
    */
   async restoreBackup(
     backupMetadata: BackupMetadata,
     target: ConnectionConfig,
     options: RestoreOptions = {},
-  ): Promise<void> {
+  ): Promise<RestoreCounts> {
     const backupDir = path.resolve(this.config.backupDir);
-    const archivePath = path.join(backupDir, backupMetadata.archivePath);
+    const archivePaths = this.selectArchives(backupMetadata, options).map((archive) => path.join(backupDir, archive));
 
-    if (!fs.existsSync(archivePath)) {
-      throw new Error(`Backup archive file not found: ${archivePath}`);
+    const missingArchive = archivePaths.find((archivePath) => !fs.existsSync(archivePath));
+    if (missingArchive) {
+      throw new ConfigError(`Backup archive file not found: ${missingArchive}`);
     }
 
-    this.logger.info(`Starting restore from: ${archivePath}`);
+    this.logger.info(`Starting restore from: ${archivePaths.join(', ')}`);
     this.logger.info(`Target connection: ${target.name} (Database: ${target.database})`);
     if (options.drop) {
       this.logger.info('Option --drop enabled: Existing collections in the target database will be dropped.');
     }
 
-    const baseArgs: string[] = [];
+    const baseArgs = this.buildArchiveRestoreArgs(backupMetadata, target, options);
 
-    // --- Target Connection Arguments ---
-    if (target.uri && !target.ssh) {
-      baseArgs.push(`--uri="${target.uri}"`);
-    } else if (!target.ssh) {
-      if (target.host) baseArgs.push(`--host=${target.host}`);
-      if (target.port) baseArgs.push(`--port=${target.port}`);
-      if (target.username) baseArgs.push(`--username=${target.username}`);
-      if (target.password) baseArgs.push(`--password=${target.password}`);
-      const authDb = target.authenticationDatabase || target.authSource || target.authDatabase;
-      if (authDb) baseArgs.push(`--authenticationDatabase=${authDb}`);
+    const counts: RestoreCounts = { restored: 0, failed: 0 };
+    try {
+      // Parts of a backup set hold disjoint collections, so they are restored one after another
+      for (const archivePath of archivePaths) {
+        if (archivePaths.length > 1) {
+          this.logger.info(`Restoring part ${path.basename(archivePath)}...`);
+        }
+        const partCounts = await this.executeRestore(target, baseArgs, { archivePath });
+        counts.restored += partCounts.restored;
+        counts.failed += partCounts.failed;
+      }
+      return counts;
+    } catch (error: any) {
+      this.logger.error(`✖ Error during restore: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Describes what `restoreBackup` would run without touching the archives or the target:
+   * the selected archives and the mongorestore invocation for each of them.
+   *
+   * @param backupMetadata - Metadata associated with the backup archive.
+   * @param target - The configuration of the target MongoDB connection.
+   * @param options - Restoration options.
+   * @returns The archives and mongorestore commands, with passwords masked.
+   * @throws A `ConfigError` if no archive matches the selection or the target database cannot be determined.
+   */
+  planRestore(backupMetadata: BackupMetadata, target: ConnectionConfig, options: RestoreOptions = {}): RestorePlan {
+    const backupDir = path.resolve(this.config.backupDir);
+    const archivePaths = this.selectArchives(backupMetadata, options).map((archive) => path.join(backupDir, archive));
+    const baseArgs = this.buildArchiveRestoreArgs(backupMetadata, target, options);
+
+    const commands = archivePaths.map((archivePath) => {
+      if (target.ssh) {
+        const remoteArgs = [...baseArgs, '--archive', '--gzip'];
+        const remoteCommand = this.sshRunner.buildRemoteCommand(
+          target.ssh.remoteMongorestorePath || 'mongorestore',
+          remoteArgs,
+        );
+        return `cat ${archivePath} | ssh ${target.ssh.username}@${target.ssh.host} -p ${target.ssh.port || 22} ${remoteCommand}`;
+      }
+      const args = [...baseArgs, `--archive=${archivePath}`, '--gzip'];
+      return `${resolveToolPath(this.config.mongorestorePath)} ${args.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
+    });
+
+    return { archivePaths, commands: commands.map(maskSecrets) };
+  }
+
+  /**
+   * Restores a MongoDB database from a live archive stream (e.g., the stdout of a running mongodump).
+   * Uses the same connection and namespace mapping rules as `restoreBackup`.
+   *
+   * @param sourceDatabase - The name of the database the archive was dumped from.
+   * @param target - The configuration of the target MongoDB connection for restoration.
+   * @param options - Restoration options, such as dropping collections (`drop`).
+   * @param input - The gzipped archive stream to feed into mongorestore.
+   * @returns The document counts mongorestore reported.
+   * @throws An error if the restoration process fails.
+   */
+  async restoreFromStream(
+    sourceDatabase: string,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+    input: Readable,
+  ): Promise<RestoreCounts> {
+    this.logger.info(`Target connection: ${target.name} (Database: ${target.database})`);
+    if (options.drop) {
+      this.logger.info('Option --drop enabled: Existing collections in the target database will be dropped.');
+    }
+
+    const baseArgs = this.buildRestoreArgs(sourceDatabase, target, options);
+
+    try {
+      return await this.executeRestore(target, baseArgs, { stream: input });
+    } catch (error: any) {
+      this.logger.error(`✖ Error during restore: ${error.message}`);
+      throw error;
     }
-    // --- End Target Connection Arguments ---
+  }
+
+  /**
+   * Builds the mongorestore arguments (connection, namespace mapping, drop), excluding the archive source.
+   *
+   * @param sourceDatabase - The database name recorded for the archive, if known.
+   * @param target - The configuration of the target MongoDB connection.
+   * @param options - Restoration options.
+   * @param archiveLabel - Optional archive name used in warnings.
+   * @returns The list of mongorestore arguments.
+   * @throws A `ConfigError` if the target database cannot be determined.
+   */
+  buildRestoreArgs(
+    sourceDatabase: string | undefined,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+    archiveLabel?: string,
+  ): string[] {
+    const baseArgs: string[] = this.buildConnectionArgs(target);
+
+    const renameRules = Object.entries(options.renameCollections ?? {});
 
     // --- Namespace Mapping ---
-    const sourceDbInBackup = backupMetadata.database;
-    if (!sourceDbInBackup) {
+    if (!sourceDatabase) {
+      if (renameRules.length > 0) {
+        throw new ConfigError(
+          `Collection rename rules require the source database name, which is missing in the metadata for ${archiveLabel ?? 'the archive'}.`,
+        );
+      }
       this.logger.warn(
-        `Warning: Source database name not found in backup metadata for ${backupMetadata.archivePath}. Restore might behave unexpectedly if collections weren't in the default 'test' db.`,
+        `Warning: Source database name not found in backup metadata for ${archiveLabel ?? 'the archive'}. Restore might behave unexpectedly if collections weren't in the default 'test' db.`,
       );
       if (target.database) {
         baseArgs.push(`--db=${target.database}`);
       } else if (!target.uri) {
-        throw new Error(
+        throw new ConfigError(
           `[${target.name}] Target database name is required for restore if URI is not provided and source DB is unknown in metadata.`,
         );
       }
+    } else if (target.database && options.oplogReplay) {
+      // Oplog entries apply to the namespaces they were recorded for, so nothing is mapped (the caller
+      // makes sure the target database has the source name)
+      this.logger.info(`Restoring "${sourceDatabase}" under its own name to replay the oplog`);
     } else if (target.database) {
-      baseArgs.push(`--nsFrom="${sourceDbInBackup}.*"`);
+      // mongorestore applies the first matching nsFrom, so specific renames go before the database wildcard
+      renameRules.forEach(([from, to]) => {
+        baseArgs.push(`--nsFrom="${sourceDatabase}.${from}"`);
+        baseArgs.push(`--nsTo="${target.database}.${to}"`);
+        this.logger.info(`Renaming collection "${from}" to "${to}"`);
+      });
+      baseArgs.push(`--nsFrom="${sourceDatabase}.*"`);
       baseArgs.push(`--nsTo="${target.database}.*"`);
-      this.logger.info(`Mapping namespaces from "${sourceDbInBackup}" to "${target.database}"`);
+      this.logger.info(`Mapping namespaces from "${sourceDatabase}" to "${target.database}"`);
     } else if (!target.uri) {
-      throw new Error(`[${target.name}] Target database name is required for restore if URI is not provided.`);
+      throw new ConfigError(`[${target.name}] Target database name is required for restore if URI is not provided.`);
     }
     // --- End Namespace Mapping ---
 
+    // --- Collection Filtering ---
+    // Filters match namespaces as stored in the archive, i.e. before the nsFrom/nsTo mapping.
+    const namespacePrefix = sourceDatabase || '*';
+    if (options.includeCollections?.length) {
+      options.includeCollections.forEach((coll) => baseArgs.push(`--nsInclude="${namespacePrefix}.${coll}"`));
+      this.logger.info(`Restoring only collections: ${options.includeCollections.join(', ')}`);
+    }
+    if (options.excludeCollections?.length) {
+      options.excludeCollections.forEach((coll) => baseArgs.push(`--nsExclude="${namespacePrefix}.${coll}"`));
+      this.logger.info(`Skipping collections: ${options.excludeCollections.join(', ')}`);
+    }
+    // --- End Collection Filtering ---
+
     // Add the --drop option if specified
     if (options.drop) {
       baseArgs.push('--drop');
     }
 
-    // Specify the input archive file
-    baseArgs.push(`--archive=${archivePath}`);
-    baseArgs.push('--gzip');
+    return baseArgs;
+  }
 
-    try {
-      const mongorestorePath = this.config.mongorestorePath || 'mongorestore';
-      let commandStringForLog = '';
+  /**
+   * Builds the mongorestore arguments for a backup file: `buildRestoreArgs` plus what the backup itself needs.
+   * An `--oplog` archive holds every database of the source, so only the backed-up one is restored,
+   * and its oplog is replayed if requested.
+   */
+  private buildArchiveRestoreArgs(
+    backupMetadata: BackupMetadata,
+    target: ConnectionConfig,
+    options: RestoreOptions,
+  ): string[] {
+    const baseArgs = this.buildRestoreArgs(backupMetadata.database, target, options, backupMetadata.archivePath);
+    if (backupMetadata.oplog && !options.includeCollections?.length) {
+      baseArgs.push(`--nsInclude="${backupMetadata.database}.*"`);
+    }
+    if (options.oplogReplay) {
+      baseArgs.push('--oplogReplay');
+      if (options.oplogLimit) {
+        baseArgs.push(`--oplogLimit=${parseOplogLimit(options.oplogLimit)}`);
+      }
+    }
+    return baseArgs;
+  }
 
-      // --- Execute mongorestore (Local or SSH) ---
-      if (target.ssh) {
-        this.logger.warn('SSH restore not supported yet.');
-        // // --- SSH Execution ---
-        // this.logger.info(`Executing mongorestore via SSH to ${target.ssh.host}...`);
-        // const remoteArgs = [...baseArgs];
-        // const archiveIndex = remoteArgs.findIndex((arg) => arg.startsWith('--archive='));
-        // if (archiveIndex > -1) {
-        //   remoteArgs.splice(archiveIndex, 1);
-        //   remoteArgs.push('--archive');
-        // } else {
-        //   remoteArgs.push('--archive');
-        // }
-
-        // if (target.uri) {
-        //   if (!remoteArgs.some((arg) => arg.startsWith('--uri='))) {
-        //     remoteArgs.push(`--uri="${target.uri}"`);
-        //   }
-        // } else if (!remoteArgs.some((arg) => arg.startsWith('--host=') || arg.startsWith('--port='))) {
-        //   this.logger.warn(
-        //     `[${target.name}] Warning: SSH restore without URI might need host/port if remote mongorestore isn't connecting to localhost.`,
-        //   );
-        // }
-
-        // const remoteCommand = `${mongorestorePath} ${remoteArgs.join(' ')}`;
-        // commandStringForLog = `cat ${archivePath} | ssh ... "${remoteCommand}"`;
-        // this.logger.info('Remote command to execute:');
-        // this.logger.snippet(remoteCommand);
-        // this.logger.info(`Piping local archive: ${archivePath}`);
-
-        // const privateKeyPath = target.ssh.privateKey.startsWith('~')
-        //   ? path.join(os.homedir(), target.ssh.privateKey.substring(1))
-        //   : target.ssh.privateKey;
-        // const sshArgs = [
-        //   '-i',
-        //   privateKeyPath,
-        //   '-p',
-        //   String(target.ssh.port || 22),
-        //   `${target.ssh.username}@${target.ssh.host}`,
-        //   remoteCommand,
-        // ];
-
-        // const sshProcess = spawn('ssh', sshArgs, { stdio: ['pipe', 'pipe', 'pipe'] });
-        // const archiveStream = fs.createReadStream(archivePath);
-        // archiveStream.pipe(sshProcess.stdin);
-
-        // archiveStream.on('error', (err) => {
-        //   this.logger.error(`Error reading local archive file ${archivePath}: ${err.message}`);
-        //   if (!sshProcess.killed) sshProcess.kill();
-        // });
-
-        // let output = '';
-        // sshProcess.stdout.on('data', (data) => {
-        //   const chunk = data.toString();
-        //   this.logger.info(`mongorestore (ssh): ${chunk.trim()}`);
-        //   output += chunk;
-        // });
-        // let errorOutput = '';
-        // sshProcess.stderr.on('data', (data) => {
-        //   const errorChunk = data.toString();
-        //   this.logger.warn(`mongorestore (ssh): ${errorChunk.trim()}`);
-        //   errorOutput += errorChunk;
-        // });
-
-        // const exitCode = await new Promise<number>((resolve, reject) => {
-        //   sshProcess.on('close', resolve);
-        //   sshProcess.on('error', (err) => {
-        //     this.logger.error(`Failed to start SSH process: ${err.message}`);
-        //     reject(new Error(`Failed to start SSH process: ${err.message}`));
-        //   });
-        //   archiveStream.on('close', () => {
-        //     this.logger.info(`Finished piping ${archivePath} to SSH stdin.`);
-        //   });
-        //   archiveStream.on('error', (err) => {
-        //     if (!sshProcess.killed) sshProcess.kill();
-        //     reject(new Error(`Failed reading archive for SSH pipe: ${err.message}`));
-        //   });
-        // });
-
-        // if (exitCode !== 0) {
-        //   throw new Error(`SSH mongorestore execution finished with exit code ${exitCode}. Stderr: ${errorOutput}`);
-        // }
-        // this.logger.info('SSH restore process completed successfully.');
-        // this.processRestoreOutput(output, errorOutput);
-      } else {
-        // --- Direct Local Execution ---
-        const directArgs = [...baseArgs];
-        commandStringForLog = `${mongorestorePath} ${directArgs.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
-        this.logger.info('Executing local mongorestore command:');
-        this.logger.snippet(commandStringForLog);
-
-        const restoreProcess = spawn(mongorestorePath, directArgs, { stdio: ['ignore', 'pipe', 'pipe'], shell: false });
-
-        let output = '';
-        restoreProcess.stdout.on('data', (data) => {
-          const chunk = data.toString();
-          this.logger.info(`mongorestore: ${chunk.trim()}`);
-          output += chunk;
-        });
-        let errorOutput = '';
-        restoreProcess.stderr.on('data', (data) => {
-          const errorChunk = data.toString();
-          this.logger.warn(`mongorestore: ${errorChunk.trim()}`);
-          errorOutput += errorChunk;
-        });
-
-        const exitCode = await new Promise<number>((resolve, reject) => {
-          restoreProcess.on('close', resolve);
-          restoreProcess.on('error', (err) => {
-            this.logger.error(`Failed to start local mongorestore process: ${err.message}`);
-            reject(new Error(`Failed to start local mongorestore process: ${err.message}`));
-          });
-        });
-
-        if (exitCode !== 0) {
-          throw new Error(`Local mongorestore finished with exit code ${exitCode}. Stderr: ${errorOutput}`);
+  /**
+   * Lists the collections contained in a local archive by running `mongorestore --dryRun` against the target.
+   * Nothing is written to the target database.
+   *
+   * @param archivePath - Absolute path of the archive to inspect.
+   * @param target - The connection mongorestore connects to while reading the archive.
+   * @returns The sorted collection names found in the archive (without the database prefix).
+   * @throws An error if mongorestore fails to read the archive.
+   */
+  async listArchiveCollections(archivePath: string, target: ConnectionConfig): Promise<string[]> {
+    const args = [...this.buildConnectionArgs(target), '--dryRun', '--verbose'];
+    const { stdout, stderr } = await this.runMongorestore(target, args, { archivePath });
+
+    const collections = new Set<string>();
+    const namespaceRegex = /(?:archive prelude|found collection(?: metadata from)?)\s+([^\s.]+)\.(\S+)/g;
+    let match;
+    while ((match = namespaceRegex.exec(`${stdout}\n${stderr}`)) !== null) {
+      if (!match[2].startsWith('system.')) {
+        collections.add(match[2]);
+      }
+    }
+    return [...collections].sort();
+  }
+
+  /**
+   * Picks the archive files to restore: the archive itself, or the parts of a backup set
+   * whose collections pass the include/exclude selection.
+   */
+  private selectArchives(backupMetadata: BackupMetadata, options: RestoreOptions): string[] {
+    if (!backupMetadata.parts?.length) {
+      return [backupMetadata.archivePath];
+    }
+    const { includeCollections, excludeCollections } = options;
+    const parts = backupMetadata.parts.filter(
+      (part) =>
+        (!includeCollections?.length || includeCollections.includes(part.collection)) &&
+        !excludeCollections?.includes(part.collection),
+    );
+    if (parts.length === 0) {
+      throw new ConfigError(`No collections of backup set "${backupMetadata.archivePath}" match the selection.`);
+    }
+    return parts.map((part) => part.archivePath);
+  }
+
+  /**
+   * Runs mongorestore and logs the restore summary.
+   *
+   * @param target - The configuration of the target MongoDB connection.
+   * @param baseArgs - The mongorestore arguments built by `buildRestoreArgs`.
+   * @param input - Either a local archive path or a readable archive stream.
+   * @returns The document counts mongorestore reported.
+   * @throws An error if mongorestore fails.
+   */
+  private async executeRestore(
+    target: ConnectionConfig,
+    baseArgs: string[],
+    input: { archivePath: string } | { stream: Readable },
+  ): Promise<RestoreCounts> {
+    const { stdout, stderr } = await this.runMongorestore(target, baseArgs, input);
+    return this.processRestoreOutput(stdout, stderr);
+  }
+
+  /**
+   * Runs mongorestore locally or remotely via SSH, reading the archive from a file or a stream.
+   *
+   * @param target - The configuration of the target MongoDB connection.
+   * @param baseArgs - The mongorestore arguments, excluding the archive source.
+   * @param input - Either a local archive path or a readable archive stream.
+   * @returns Collected stdout and stderr of mongorestore.
+   * @throws An error if mongorestore fails.
+   */
+  private async runMongorestore(
+    target: ConnectionConfig,
+    baseArgs: string[],
+    input: { archivePath: string } | { stream: Readable },
+  ): Promise<{ stdout: string; stderr: string }> {
+    const mongorestorePath = resolveToolPath(this.config.mongorestorePath);
+
+    // --- Execute mongorestore (Local or SSH) ---
+    if (target.ssh) {
+      // --- SSH Execution ---
+      // The archive is read from stdin on the remote side, the local data is streamed into the SSH channel.
+      const remoteArgs = [...baseArgs, '--archive', '--gzip'];
+      const remoteMongorestorePath = target.ssh.remoteMongorestorePath || 'mongorestore';
+      this.logger.info(`Executing mongorestore via SSH on ${target.ssh.host}...`);
+
+      let result: { stdout: string; stderr: string };
+      try {
+        if ('archivePath' in input) {
+          this.logger.info(`Piping local archive: ${input.archivePath}`);
+          result = await this.sshRunner.streamFileToCommand(
+            target.ssh,
+            remoteMongorestorePath,
+            remoteArgs,
+            input.archivePath,
+          );
+        } else {
+          result = await this.sshRunner.streamInputToCommand(
+            target.ssh,
+            remoteMongorestorePath,
+            remoteArgs,
+            input.stream,
+          );
         }
-        this.logger.info('Local restore process completed successfully.');
-        this.processRestoreOutput(output, errorOutput);
+      } catch (error: any) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        throw new MongorestoreError(`mongorestore via SSH failed: ${error.message}`);
       }
-      // --- End Execute mongorestore ---
-    } catch (error: any) {
-      this.logger.error(`✖ Error during restore: ${error.message}`);
-      throw error;
+
+      this.logger.info('SSH restore process completed successfully.');
+      return result;
     }
+
+    // --- Direct Local Execution ---
+    const archiveArg = 'archivePath' in input ? `--archive=${input.archivePath}` : '--archive';
+    const directArgs = [...baseArgs, archiveArg, '--gzip'];
+    const commandStringForLog = `${mongorestorePath} ${directArgs.map((arg) => (arg.includes(' ') ? `"${arg}"` : arg)).join(' ')}`;
+    this.logger.info('Executing local mongorestore command:');
+    this.logger.snippet(commandStringForLog);
+
+    const restoreProcess = spawn(mongorestorePath, directArgs, {
+      stdio: ['archivePath' in input ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+      shell: false,
+    });
+
+    if ('stream' in input) {
+      restoreProcess.stdin!.on('error', (err) => {
+        // mongorestore exited early; its exit code and stderr describe the failure
+        this.logger.debug(`mongorestore stdin closed: ${err.message}`);
+      });
+      input.stream.pipe(restoreProcess.stdin!);
+      input.stream.on('error', () => {
+        if (!restoreProcess.killed) restoreProcess.kill();
+      });
+    }
+
+    let output = '';
+    restoreProcess.stdout!.on('data', (data) => {
+      const chunk = data.toString();
+      this.logger.info(`mongorestore: ${chunk.trim()}`);
+      output += chunk;
+    });
+    let errorOutput = '';
+    restoreProcess.stderr!.on('data', (data) => {
+      const errorChunk = data.toString();
+      this.logger.warn(`mongorestore: ${errorChunk.trim()}`);
+      errorOutput += errorChunk;
+    });
+
+    const exitCode = await new Promise<number>((resolve, reject) => {
+      restoreProcess.on('close', resolve);
+      restoreProcess.on('error', (err) => {
+        this.logger.error(`Failed to start local mongorestore process: ${err.message}`);
+        reject(new MongorestoreError(`Failed to start local mongorestore process: ${err.message}`));
+      });
+    });
+
+    if (exitCode !== 0) {
+      throw new MongorestoreError(`Local mongorestore finished with exit code ${exitCode}. Stderr: ${errorOutput}`);
+    }
+    this.logger.info('Local restore process completed successfully.');
+    return { stdout: output, stderr: errorOutput };
+    // --- End Execute mongorestore ---
+  }
+
+  /**
+   * Builds the mongorestore connection arguments for the target.
+   * Local targets use the URI when present; SSH targets always use separate fields,
+   * since mongorestore runs on the remote host and connects from there.
+   *
+   * @param target - The configuration of the target MongoDB connection.
+   * @returns The list of connection arguments.
+   */
+  private buildConnectionArgs(target: ConnectionConfig): string[] {
+    const args: string[] = [];
+
+    if (target.uri && !target.ssh) {
+      args.push(`--uri="${target.uri}"`);
+      return args;
+    }
+
+    let mongoHost = target.host;
+    let mongoPort = target.port;
+
+    if (target.ssh && !mongoHost && target.uri) {
+      try {
+        const parsedUri = new URL(target.uri);
+        mongoHost = parsedUri.hostname;
+        mongoPort = parseInt(parsedUri.port, 10) || undefined;
+        this.logger.warn(
+          `[${target.name}] Extracted MongoDB host/port from URI for SSH: ${mongoHost}:${mongoPort || 'default'}`,
+        );
+      } catch (e) {
+        this.logger.warn(
+          `[${target.name}] Could not parse MongoDB host/port from URI. Please define 'host' and 'port' explicitly in config for SSH restore.`,
+        );
+      }
+    }
+
+    if (mongoHost) args.push(`--host=${mongoHost}`);
+    if (mongoPort) args.push(`--port=${mongoPort}`);
+    if (target.username) args.push(`--username=${target.username}`);
+    if (target.password) args.push(`--password=${target.password}`);
+    const authDb = target.authenticationDatabase || target.authSource || target.authDatabase;
+    if (authDb) args.push(`--authenticationDatabase=${authDb}`);
+
+    return args;
   }
 
   /**
@@ -230,8 +457,9 @@ export class RestoreService {
    *
    * @param stdout - The standard output string from the mongorestore process.
    * @param stderr - The standard error string from the mongorestore process.
+   * @returns The summed counts of restored and failed documents.
    */
-  private processRestoreOutput(stdout: string, stderr: string): void {
+  private processRestoreOutput(stdout: string, stderr: string): RestoreCounts {
     const combinedOutput = stdout + '\n' + stderr;
     const successRegex = /(\d+)\s+document\(s\)\s+restored successfully/g;
     const failedRegex = /(\d+)\s+document\(s\)\s+failed to restore/g;
@@ -259,5 +487,6 @@ export class RestoreService {
     if (totalFailed > 0) this.logger.warn(`Documents failed:   ${totalFailed}`);
     else this.logger.info(`Documents failed:   ${totalFailed}`);
     this.logger.info('---------------------');
+    return { restored: totalRestored, failed: totalFailed };
   }
 }
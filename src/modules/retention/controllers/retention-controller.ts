@@ -0,0 +1,84 @@
+import type { AppConfig } from '@ts-types/mixed';
+import type { PromptService } from '@modules/prompt/services/prompt-service';
+import type { PrunePlan } from '../interfaces/prune-plan.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { formatDate } from '@utils/format-date';
+import { formatSize } from '@utils/format-size';
+import { RetentionService } from '../services/retention.service';
+
+/**
+ * Manages pruning of old backups according to the configured retention policy.
+ */
+export class RetentionController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly retentionService: RetentionService,
+    private readonly promptService: PromptService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Prunes backups based on non-interactive arguments.
+   * @param dryRun - Only list what would be removed and why.
+   * @throws An error if no retention policy is configured.
+   */
+  async pruneFromArgs(dryRun: boolean): Promise<void> {
+    const plan = this.retentionService.planPrune();
+    this.printPlan(plan);
+
+    if (dryRun) {
+      this.logger.info('Dry run: no files were removed.');
+      return;
+    }
+    this.applyPlan(plan);
+  }
+
+  /**
+   * Shows the prune plan and removes the listed backups after confirmation.
+   */
+  async pruneInteractively(): Promise<void> {
+    try {
+      const plan = this.retentionService.planPrune();
+      this.printPlan(plan);
+      if (plan.remove.length === 0) {
+        return;
+      }
+
+      const freedBytes = plan.remove.reduce((sum, backup) => sum + backup.size, 0);
+      if (await this.promptService.askConfirmPrune(plan.remove.length, formatSize(freedBytes))) {
+        this.applyPlan(plan);
+      } else {
+        this.logger.info('Prune cancelled.');
+      }
+    } catch (error: any) {
+      this.logger.error(`✖ Prune failed: ${error.message}`);
+    }
+  }
+
+  private applyPlan(plan: PrunePlan): void {
+    const { removed, freedBytes } = this.retentionService.applyPrune(plan);
+    this.logger.info(`Pruned ${removed} backup(s) from ${this.config.backupDir}, freed ${formatSize(freedBytes)}.`);
+  }
+
+  private printPlan(plan: PrunePlan): void {
+    this.logger.logRaw(`--- Retention: keeping ${plan.keep.length} backup(s) ---`);
+    plan.keep.forEach((backup) =>
+      this.logger.logRaw(
+        `  keep    ${backup.backupFile} [${backup.source ?? 'unknown source'}, ${formatDate(new Date(backup.timestamp))}, ${formatSize(backup.size)}] ${backup.reason}`,
+      ),
+    );
+
+    if (plan.remove.length === 0) {
+      this.logger.info('Nothing to prune.');
+      return;
+    }
+    const freedBytes = plan.remove.reduce((sum, backup) => sum + backup.size, 0);
+    this.logger.logRaw(`--- Removing ${plan.remove.length} backup(s), ${formatSize(freedBytes)} ---`);
+    plan.remove.forEach((backup) =>
+      this.logger.logRaw(
+        `  remove  ${backup.backupFile} [${backup.source ?? 'unknown source'}, ${formatDate(new Date(backup.timestamp))}, ${formatSize(backup.size)}] ${backup.reason}`,
+      ),
+    );
+  }
+}
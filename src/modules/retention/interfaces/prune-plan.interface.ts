@@ -0,0 +1,23 @@
+export interface PruneCandidate {
+  /** The backup filename (archive or backup set) in the backup directory. */
+  backupFile: string;
+  /** The source connection recorded in the metadata, if known. */
+  source?: string;
+  /** The backup an incremental backup builds on, if any. */
+  parent?: string;
+  /** True for a snapshot taken of the target before a restore; retained apart from the target's backups. */
+  preRestoreSnapshot?: boolean;
+  /** Unix timestamp (milliseconds) of the backup: from the metadata, or the file modification time. */
+  timestamp: number;
+  /** Total size of the archive files in bytes. */
+  size: number;
+  /** Absolute paths of every file belonging to the backup (archives and metadata sidecar). */
+  files: string[];
+  /** Why the backup is kept or removed. */
+  reason: string;
+}
+
+export interface PrunePlan {
+  keep: PruneCandidate[];
+  remove: PruneCandidate[];
+}
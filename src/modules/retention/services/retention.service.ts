@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { differenceInCalendarDays, differenceInCalendarISOWeeks, format, getISOWeek, getISOWeekYear } from 'date-fns';
+
+import type { AppConfig, RetentionPolicy } from '@ts-types/mixed';
+import type { PruneCandidate, PrunePlan } from '../interfaces/prune-plan.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
+import { BackupService } from '@modules/backup/services/backup.service';
+import { parseSize } from '@utils/parse-size';
+
+/**
+ * Applies the retention policy to the backup directory: decides which backups to keep
+ * and deletes the others together with their metadata sidecars.
+ */
+export class RetentionService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly backupService: BackupService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Decides which backups the retention policy keeps and which it removes, without touching any file.
+   *
+   * @param policy - The retention policy; defaults to `retention` from the config.
+   * @param now - The reference time for the day and week rules.
+   * @returns The backups to keep and to remove (oldest first), each with a reason.
+   * @throws An error if no retention rule is configured.
+   */
+  planPrune(policy: RetentionPolicy | undefined = this.config.retention, now: Date = new Date()): PrunePlan {
+    if (!policy || (!policy.keepLast && !policy.keepDailyDays && !policy.keepWeeklyWeeks && !policy.maxTotalSize)) {
+      throw new ConfigError('No retention policy configured. Add a "retention" section to the config file.');
+    }
+    const hasCountOrAgeRules = !!(policy.keepLast || policy.keepDailyDays || policy.keepWeeklyWeeks);
+
+    // Pre-restore snapshots are counted apart from the backups of their target, so they never evict a real backup
+    const bySource = new Map<string, PruneCandidate[]>();
+    this.backupService.getBackupFiles().forEach((backupFile) => {
+      const backup = this.describeBackup(backupFile);
+      const key = `${backup.preRestoreSnapshot ? 'snapshot:' : ''}${backup.source ?? ''}`;
+      bySource.set(key, [...(bySource.get(key) ?? []), backup]);
+    });
+
+    const keep: PruneCandidate[] = [];
+    const remove: PruneCandidate[] = [];
+    const newestPerSource = new Set<string>();
+    bySource.forEach((backups) => {
+      const seenDays = new Set<string>();
+      const seenWeeks = new Set<string>();
+      backups
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .forEach((backup, index) => {
+          const date = new Date(backup.timestamp);
+          const reasons: string[] = [];
+          if (index === 0 && !backup.preRestoreSnapshot) {
+            newestPerSource.add(backup.backupFile);
+          }
+          if (!hasCountOrAgeRules) {
+            reasons.push('no count or age rule configured');
+          }
+          if (policy.keepLast && index < policy.keepLast) {
+            reasons.push(`one of the last ${policy.keepLast}`);
+          }
+          // Backups are visited newest first, so the first one seen for a day or week is its newest
+          const day = format(date, 'yyyy-MM-dd');
+          if (
+            policy.keepDailyDays &&
+            differenceInCalendarDays(now, date) < policy.keepDailyDays &&
+            !seenDays.has(day)
+          ) {
+            seenDays.add(day);
+            reasons.push(`newest of day ${day}`);
+          }
+          const week = `${getISOWeekYear(date)}-W${String(getISOWeek(date)).padStart(2, '0')}`;
+          if (
+            policy.keepWeeklyWeeks &&
+            differenceInCalendarISOWeeks(now, date) < policy.keepWeeklyWeeks &&
+            !seenWeeks.has(week)
+          ) {
+            seenWeeks.add(week);
+            reasons.push(`newest of week ${week}`);
+          }
+
+          if (reasons.length > 0) {
+            keep.push({ ...backup, reason: reasons.join(', ') });
+          } else {
+            remove.push({ ...backup, reason: 'not covered by keepLast, keepDailyDays or keepWeeklyWeeks' });
+          }
+        });
+    });
+
+    if (policy.maxTotalSize) {
+      this.enforceMaxTotalSize(keep, remove, policy.maxTotalSize, newestPerSource);
+    }
+    this.keepChainParents(keep, remove);
+
+    return {
+      keep: keep.sort((a, b) => a.timestamp - b.timestamp),
+      remove: remove.sort((a, b) => a.timestamp - b.timestamp),
+    };
+  }
+
+  /**
+   * Deletes the backups a plan marks for removal (archive files first, then the metadata sidecar).
+   * A backup that fails to delete is logged and skipped.
+   *
+   * @param plan - The plan returned by `planPrune`.
+   * @returns The number of removed backups and the freed archive bytes.
+   */
+  applyPrune(plan: PrunePlan): { removed: number; freedBytes: number } {
+    let removed = 0;
+    let freedBytes = 0;
+    plan.remove.forEach((backup) => {
+      try {
+        backup.files.forEach((file) => fs.rmSync(file, { force: true }));
+        removed++;
+        freedBytes += backup.size;
+        this.logger.info(`Removed ${backup.backupFile} (${backup.reason})`);
+      } catch (error: any) {
+        this.logger.error(`Failed to remove ${backup.backupFile}: ${error.message}`);
+      }
+    });
+    return { removed, freedBytes };
+  }
+
+  /**
+   * Moves the oldest kept backups to the removal list while the kept total exceeds `maxTotalSize`,
+   * pre-restore snapshots first. The newest backup of each source is never removed for size reasons.
+   */
+  private enforceMaxTotalSize(
+    keep: PruneCandidate[],
+    remove: PruneCandidate[],
+    maxTotalSize: string,
+    newestPerSource: Set<string>,
+  ): void {
+    const maxBytes = parseSize(maxTotalSize);
+    let total = keep.reduce((sum, backup) => sum + backup.size, 0);
+
+    const oldestFirst = [...keep].sort(
+      (a, b) => Number(!!b.preRestoreSnapshot) - Number(!!a.preRestoreSnapshot) || a.timestamp - b.timestamp,
+    );
+    for (const backup of oldestFirst) {
+      if (total <= maxBytes) {
+        break;
+      }
+      if (newestPerSource.has(backup.backupFile)) {
+        continue;
+      }
+      keep.splice(keep.indexOf(backup), 1);
+      remove.push({ ...backup, reason: `total size exceeds maxTotalSize (${maxTotalSize})` });
+      total -= backup.size;
+    }
+
+    if (total > maxBytes) {
+      this.logger.warn(
+        `The newest backup of each source alone exceeds maxTotalSize (${maxTotalSize}); they are kept anyway.`,
+      );
+    }
+  }
+
+  /**
+   * Moves the parents of kept incremental backups (and their parents) back to the kept list:
+   * an incremental backup cannot be restored without its chain. This may exceed `maxTotalSize`.
+   */
+  private keepChainParents(keep: PruneCandidate[], remove: PruneCandidate[]): void {
+    const pending = [...keep];
+    while (pending.length > 0) {
+      const backup = pending.pop()!;
+      const parent = remove.find((candidate) => candidate.backupFile === backup.parent);
+      if (parent) {
+        remove.splice(remove.indexOf(parent), 1);
+        const kept = { ...parent, reason: `parent of incremental backup ${backup.backupFile}` };
+        keep.push(kept);
+        pending.push(kept);
+      }
+    }
+  }
+
+  /** Collects the files, size, source, kind and time of a backup. */
+  private describeBackup(backupFile: string): PruneCandidate {
+    const backupDir = path.resolve(this.config.backupDir);
+    const metadataPath = path.join(backupDir, `${backupFile}.json`);
+    const hasMetadata = fs.existsSync(metadataPath);
+
+    let archives = [path.join(backupDir, backupFile)];
+    let source: string | undefined;
+    let timestamp: number | undefined;
+    let parent: string | undefined;
+    let preRestoreSnapshot = false;
+    if (hasMetadata) {
+      try {
+        const metadata = this.backupService.loadBackupMetadata(backupFile);
+        archives = this.backupService.getArchivePaths(metadata);
+        source = metadata.source;
+        timestamp = metadata.timestamp;
+        parent = metadata.parent;
+        preRestoreSnapshot = !!metadata.preRestoreSnapshot;
+      } catch {
+        this.logger.warn(`Using file information for ${backupFile} because its metadata is unreadable.`);
+      }
+    }
+
+    const existingArchives = archives.filter((archive) => fs.existsSync(archive));
+    const files = hasMetadata ? [...existingArchives, metadataPath] : existingArchives;
+    return {
+      backupFile,
+      source,
+      parent,
+      preRestoreSnapshot,
+      timestamp: timestamp ?? fs.statSync(files[0]).mtime.getTime(),
+      size: existingArchives.reduce((sum, archive) => sum + fs.statSync(archive).size, 0),
+      files,
+      reason: '',
+    };
+  }
+}
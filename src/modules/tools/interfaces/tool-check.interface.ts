@@ -0,0 +1,24 @@
+import type { ConnectionConfig } from '@ts-types/mixed';
+
+/** The MongoDB Database Tools the application runs. */
+export type MongoTool = 'mongodump' | 'mongorestore';
+
+/** A tool a command is about to run, locally or on the SSH host of a connection. */
+export interface ToolRequirement {
+  tool: MongoTool;
+  /** The connection the tool works on; the tool runs on its SSH host if it has one, locally otherwise. */
+  connection?: ConnectionConfig;
+}
+
+/** The outcome of running `<tool> --version`. */
+export interface ToolCheck {
+  tool: MongoTool;
+  /** Where the tool runs: "local" or the SSH host. */
+  location: string;
+  /** The executable that was run (resolved local path or remote command). */
+  command: string;
+  /** The version the tool reported, e.g. "100.9.4" (tools shipped with the server before 4.4 report e.g. "3.6.23"). */
+  version?: string;
+  /** Why the tool cannot be used (missing, failing or too old); undefined if it can. */
+  problem?: string;
+}
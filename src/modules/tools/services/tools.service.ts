@@ -0,0 +1,144 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+import type { AppConfig, ConnectionConfig } from '@ts-types/mixed';
+import type { MongoTool, ToolCheck, ToolRequirement } from '../interfaces/tool-check.interface';
+
+import { Logger } from '@infrastructure/logger';
+import { ConfigError } from '@infrastructure/errors';
+import { SshBackupRunner } from '@modules/backup/services/ssh-backup-runner';
+import { resolveToolPath } from '@utils/resolve-tool-path';
+
+const execFileAsync = promisify(execFile);
+
+/** How long `--version` may take before the tool counts as failing. */
+const VERSION_TIMEOUT_MS = 15000;
+
+/** The oldest tool versions that support the options the application passes. */
+const MIN_TOOL_VERSIONS: Record<MongoTool, { version: string; features: string }> = {
+  mongodump: { version: '3.2.0', features: '--archive and --gzip' },
+  mongorestore: { version: '3.4.0', features: '--nsInclude and --nsFrom/--nsTo' },
+};
+
+/**
+ * Checks that mongodump and mongorestore can be run before a command relies on them,
+ * locally (`mongodumpPath` / `mongorestorePath`) and on SSH hosts (`remoteMongodumpPath` / `remoteMongorestorePath`).
+ */
+export class ToolsService {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly logger: Logger,
+    private readonly sshRunner: SshBackupRunner = new SshBackupRunner(logger),
+  ) {}
+
+  /**
+   * Runs `--version` on a tool and compares the version with the minimum the application needs.
+   *
+   * @param tool - The tool to check.
+   * @param connection - Checks the tool on the SSH host of this connection; without SSH (or connection) the local tool.
+   * @returns The check; `problem` explains why the tool cannot be used.
+   * @throws A `ConnectionError` if the SSH host cannot be reached.
+   */
+  async check(tool: MongoTool, connection?: ConnectionConfig): Promise<ToolCheck> {
+    const ssh = connection?.ssh;
+    if (!ssh) {
+      const command = resolveToolPath(tool === 'mongodump' ? this.config.mongodumpPath : this.config.mongorestorePath);
+      try {
+        const { stdout, stderr } = await execFileAsync(command, ['--version'], { timeout: VERSION_TIMEOUT_MS });
+        return this.toCheck(tool, 'local', command, `${stdout}\n${stderr}`);
+      } catch (error: any) {
+        const problem =
+          error.code === 'ENOENT'
+            ? `not found; install the MongoDB Database Tools or set "${tool}Path" in the config`
+            : `"${command} --version" failed: ${error.message}`;
+        return { tool, location: 'local', command, problem };
+      }
+    }
+
+    const command = (tool === 'mongodump' ? ssh.remoteMongodumpPath : ssh.remoteMongorestorePath) || tool;
+    const { code, stdout, stderr } = await this.sshRunner.runCommand(ssh, command, ['--version']);
+    if (code !== 0) {
+      const remotePathKey = tool === 'mongodump' ? 'remoteMongodumpPath' : 'remoteMongorestorePath';
+      const problem =
+        code === 127
+          ? `not found on ${ssh.host}; install the MongoDB Database Tools there or set "ssh.${remotePathKey}" of ${connection.name}`
+          : `"${command} --version" failed on ${ssh.host} with code ${code}: ${stderr.trim()}`;
+      return { tool, location: ssh.host, command, problem };
+    }
+    return this.toCheck(tool, ssh.host, command, `${stdout}\n${stderr}`);
+  }
+
+  /**
+   * Checks every required tool once per host and logs the versions found.
+   * @param requirements - The tools to check and where they run.
+   * @returns The checks, in the order of the requirements.
+   */
+  async checkAll(requirements: ToolRequirement[]): Promise<ToolCheck[]> {
+    const checks: ToolCheck[] = [];
+    const seen = new Set<string>();
+    for (const { tool, connection } of requirements) {
+      const key = `${tool}@${connection?.ssh?.host ?? 'local'}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const check = await this.check(tool, connection);
+      if (check.problem) {
+        this.logger.warn(`${tool} (${check.location}): ${check.problem}`);
+      } else {
+        this.logger.info(`${tool} ${check.version ?? '(unknown version)'} (${check.location}: ${check.command})`);
+      }
+      checks.push(check);
+    }
+    return checks;
+  }
+
+  /**
+   * Refuses to start a command whose tools are missing or too old, before anything is dumped or dropped.
+   * @param requirements - The tools the command runs and where.
+   * @throws A `ConfigError` naming every tool that cannot be used.
+   */
+  async preflight(requirements: ToolRequirement[]): Promise<void> {
+    const failed = (await this.checkAll(requirements)).filter((check) => check.problem);
+    if (failed.length === 0) {
+      return;
+    }
+    const message = `MongoDB Database Tools check failed: ${failed
+      .map((check) => `${check.tool} (${check.location}) ${check.problem}`)
+      .join('; ')}.`;
+    throw new ConfigError(message);
+  }
+
+  private toCheck(tool: MongoTool, location: string, command: string, output: string): ToolCheck {
+    // "mongodump version: 100.9.4"; tools shipped with the server print e.g. "mongodump version: r3.6.23"
+    const version = /version:?\s*r?(\d+(?:\.\d+)+)/i.exec(output)?.[1];
+    if (!version) {
+      this.logger.debug(`Could not read the version of ${command}: ${output.trim()}`);
+      return { tool, location, command };
+    }
+    const minimum = MIN_TOOL_VERSIONS[tool];
+    if (compareVersions(version, minimum.version) < 0) {
+      return {
+        tool,
+        location,
+        command,
+        version,
+        problem: `${version} is too old; ${minimum.features} need ${minimum.version} or newer (MongoDB Database Tools 100.x recommended)`,
+      };
+    }
+    return { tool, location, command, version };
+  }
+}
+
+function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
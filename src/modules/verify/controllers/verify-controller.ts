@@ -0,0 +1,108 @@
+import * as path from 'path';
+
+import type { AppConfig, ConnectionConfig } from '@ts-types/mixed';
+
+import { Logger } from '@infrastructure/logger';
+import { ConfigError, VerificationError } from '@infrastructure/errors';
+import { BackupService } from '@modules/backup/services/backup.service';
+import { RestoreService } from '@modules/restore/services/restore.service';
+import { formatSize } from '@utils/format-size';
+import { formatTable } from '@utils/format-table';
+
+/**
+ * Checks the integrity of backup archives: recomputes their checksums and, given a connection,
+ * lets mongorestore read them with `--dryRun`.
+ */
+export class VerifyController {
+  constructor(
+    private readonly config: AppConfig,
+    private readonly backupService: BackupService,
+    private readonly restoreService: RestoreService,
+    private readonly logger: Logger,
+  ) {}
+
+  /**
+   * Verifies a backup based on non-interactive arguments.
+   * @param backupFile - The backup filename (archive or backup set) in the backup directory.
+   * @param targetName - Optional connection used for a `mongorestore --dryRun` readability check. Nothing is written to it.
+   * @param preflight - Checks the MongoDB Database Tools once the connection and metadata are resolved.
+   * @throws An error if an archive is missing, does not match its recorded checksum or cannot be read.
+   */
+  async verifyFromArgs(backupFile: string, targetName?: string, preflight?: () => Promise<void>): Promise<void> {
+    let target: ConnectionConfig | undefined;
+    if (targetName) {
+      target = this.config.connections.find((c) => c.name === targetName);
+      if (!target) {
+        throw new ConfigError(`Connection "${targetName}" not found in configuration.`);
+      }
+    }
+
+    const metadata = this.backupService.loadBackupMetadata(backupFile);
+    await preflight?.();
+
+    this.logger.startSpinner(`Computing checksums for ${backupFile}...`);
+    const results = await this.backupService.verifyArchives(metadata);
+    this.logger.stopSpinner();
+
+    const readability = new Map<string, string>();
+    if (target) {
+      const backupDir = path.resolve(this.config.backupDir);
+      for (const result of results.filter((r) => r.status !== 'missing')) {
+        this.logger.startSpinner(`Reading ${result.archivePath} with mongorestore --dryRun...`);
+        try {
+          const collections = await this.restoreService.listArchiveCollections(
+            path.join(backupDir, result.archivePath),
+            target,
+          );
+          readability.set(result.archivePath, `readable (${collections.length} collections)`);
+          this.logger.stopSpinner();
+        } catch (error: any) {
+          readability.set(result.archivePath, 'unreadable');
+          this.logger.failSpinner(`mongorestore could not read ${result.archivePath}: ${error.message}`);
+        }
+      }
+    }
+
+    const headers = ['ARCHIVE', 'STATUS', 'SIZE', 'SHA-256'];
+    if (target) {
+      headers.push('DRY RUN');
+    }
+    const rows = results.map((result) => {
+      const row = [
+        result.archivePath,
+        result.status,
+        result.actualSize !== undefined ? formatSize(result.actualSize) : '',
+        result.actualSha256 ?? '',
+      ];
+      if (target) {
+        row.push(readability.get(result.archivePath) ?? '');
+      }
+      return row;
+    });
+    this.logger.print(formatTable(headers, rows));
+
+    results
+      .filter((result) => result.status === 'mismatch')
+      .forEach((result) =>
+        this.logger.error(
+          `${result.archivePath}: expected ${result.expectedSha256} (${result.expectedSize ?? '?'} bytes), got ${result.actualSha256} (${result.actualSize} bytes)`,
+        ),
+      );
+    if (results.some((result) => result.status === 'unrecorded')) {
+      this.logger.warn('The metadata records no checksum for some archives (created before checksums were added).');
+    }
+
+    const failed = results.filter(
+      (result) =>
+        result.status === 'missing' ||
+        result.status === 'mismatch' ||
+        readability.get(result.archivePath) === 'unreadable',
+    );
+    if (failed.length > 0) {
+      throw new VerificationError(
+        `Verification of ${backupFile} failed for: ${failed.map((result) => result.archivePath).join(', ')}`,
+      );
+    }
+    this.logger.info(`Backup ${backupFile} verified successfully.`);
+  }
+}
@@ -1,3 +1,5 @@
+import type { RestorePreset } from '@modules/restore/interfaces/restore-preset.interface';
+
 export interface SSHConfig {
   host: string;
   port: number;
@@ -5,6 +7,10 @@ export interface SSHConfig {
   privateKey: string;
   passphrase?: string;
   password?: string;
+  /** mongodump on the SSH host (default "mongodump" from the remote PATH). */
+  remoteMongodumpPath?: string;
+  /** mongorestore on the SSH host (default "mongorestore" from the remote PATH). */
+  remoteMongorestorePath?: string;
 }
 
 export interface ConnectionConfig {
@@ -22,8 +28,15 @@ export interface ConnectionConfig {
   replicaSet?: string;
   options?: Record<string, any>;
   ssh?: SSHConfig;
+  /** Restores into this connection need explicit confirmation (typed database name or `--i-know-what-im-doing`). */
+  protected?: boolean;
+  /** Set to false to refuse `--drop` restores into this connection. */
+  allowDrop?: boolean;
 }
 
+/** Extended JSON query filters for mongodump, keyed by collection name. */
+export type CollectionQueries = Record<string, Record<string, any>>;
+
 export interface BackupPreset {
   name: string;
   sourceName: string;
@@ -32,15 +45,45 @@ export interface BackupPreset {
   collections?: string[];
   createdAt: string;
   queryStartTime?: string;
+  queryEndTime?: string;
+  queryTimeField?: string;
+  queries?: CollectionQueries;
+  /** Cron expression (e.g. "0 3 * * *") on which `--daemon` runs the preset. */
+  schedule?: string;
+  /** Back up only the documents added since the preset's previous backup (same as `--incremental`). */
+  incremental?: boolean;
+  /** Take a consistent snapshot with the oplog (same as `--oplog`); replica set sources and mode 'all' only. */
+  oplog?: boolean;
 }
 
 export interface AppConfig {
   backupDir: string;
   filenameFormat: string;
+  /** Local mongodump; a bare name is looked up on the PATH, then in the bundled tools (see `resolveToolPath`). */
   mongodumpPath: string;
+  /** Local mongorestore, resolved like `mongodumpPath`. */
   mongorestorePath: string;
   connections: ConnectionConfig[];
   backupPresets: BackupPreset[];
+  restorePresets: RestorePreset[];
+  retention?: RetentionPolicy;
+  /** Default for `--snapshot-before-restore`: back up the target collections a restore overwrites first. */
+  snapshotBeforeRestore?: boolean;
+}
+
+/**
+ * Which backups `--prune` keeps. A backup is kept if any rule matches it;
+ * count and age rules apply per source connection, the size limit to the whole backup directory.
+ */
+export interface RetentionPolicy {
+  /** Keep the newest N backups of each source. */
+  keepLast?: number;
+  /** Keep the newest backup of each day for the last D days. */
+  keepDailyDays?: number;
+  /** Keep the newest backup of each ISO week for the last W weeks. */
+  keepWeeklyWeeks?: number;
+  /** Remove the oldest kept backups while the total size exceeds this limit (e.g. "20GB"). */
+  maxTotalSize?: string;
 }
 
 export interface BackupMetadata {
@@ -64,6 +107,91 @@ export interface BackupMetadata {
   presetName?: string;
   /** ISO 8601 string representation of the start time used for the --query filter based on _id, if applied. */
   queryStartTime?: string;
+  /** ISO 8601 string representation of the exclusive upper bound of the time filter, if applied. */
+  queryEndTime?: string;
+  /** The date field the time filter was applied to; `_id` (ObjectId creation time) when omitted. */
+  queryTimeField?: string;
+  /** Extended JSON query filters applied per collection with --query, if any. */
+  queries?: CollectionQueries;
+  /**
+   * Per-collection archives of a backup set. Present when query filters were applied to several
+   * collections; `archivePath` then names the set and has no archive file of its own.
+   */
+  parts?: BackupPart[];
+  /** Hex-encoded SHA-256 checksum of the archive file, computed when the backup was created (not set for backup sets). */
+  sha256?: string;
+  /** Size of the archive file in bytes when the backup was created (not set for backup sets). */
+  size?: number;
+  /** What the source held for each dumped collection when the backup was taken. */
+  collections?: CollectionStats[];
+  /** Set on snapshots a restore took of its target before overwriting it. */
+  preRestoreSnapshot?: PreRestoreSnapshot;
+  /**
+   * The backup an incremental backup builds on (filename in the backup directory). The incremental backup
+   * holds the documents added since the parent's `dumpStartedAt`.
+   */
+  parent?: string;
+  /** ISO 8601 string of when mongodump started; the next incremental backup of the preset starts its window here. */
+  dumpStartedAt?: string;
+  /**
+   * Set when the backup was taken with `--oplog`: the archive then holds every database of the source plus the
+   * oplog entries written while mongodump ran, and restores to a consistent state with `--oplog-replay`.
+   */
+  oplog?: OplogWindow;
+}
+
+/** The oplog entries an `--oplog` backup captured. */
+export interface OplogWindow {
+  /** ISO 8601 string of when mongodump started; the oplog entries begin here. */
+  startedAt: string;
+  /** ISO 8601 string of when mongodump finished; replaying the whole oplog restores the source as of this time. */
+  finishedAt: string;
+}
+
+/** Marks a backup as the state of a restore target right before a restore. */
+export interface PreRestoreSnapshot {
+  /** The backup file that was restored over the snapshotted collections. */
+  restoredBackup: string;
+  /** The connection the backup was restored into (also the snapshot's source). */
+  target: string;
+}
+
+/** Document count, size, indexes and options of a collection, captured at backup time. */
+export interface CollectionStats {
+  /** The collection name. */
+  name: string;
+  /** Estimated document count, or the exact number of matching documents if `filtered` is set. */
+  documentCount: number;
+  /** Whether the backup applied a query filter to this collection (`documentCount` then counts the matches). */
+  filtered?: boolean;
+  /** Storage size of the collection on the source in bytes, if the server reported it. */
+  storageSize?: number;
+  /** The index definitions of the collection. */
+  indexes: CollectionIndex[];
+  /** Collection options such as `capped` or `validator` (relaxed Extended JSON). */
+  options?: Record<string, any>;
+}
+
+/** An index definition as listed by the server. */
+export interface CollectionIndex {
+  /** The index name. */
+  name: string;
+  /** The indexed fields and their directions or types. */
+  key: Record<string, any>;
+  /** Further index options such as `unique`, `sparse` or `expireAfterSeconds`. */
+  options?: Record<string, any>;
+}
+
+/** A single-collection archive belonging to a backup set. */
+export interface BackupPart {
+  /** The collection dumped into this part. */
+  collection: string;
+  /** The filename of the part archive, relative to the backup directory. */
+  archivePath: string;
+  /** Hex-encoded SHA-256 checksum of the part archive. */
+  sha256?: string;
+  /** Size of the part archive in bytes. */
+  size?: number;
 }
 
 export interface ConfigType {
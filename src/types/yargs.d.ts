@@ -1,2 +0,0 @@
-declare module 'yargs';
-declare module 'yargs/helpers';
@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+
+/**
+ * Computes the SHA-256 checksum and byte size of a file, streaming it so large archives are not loaded into memory.
+ * @param filePath - The file to hash.
+ * @returns The hex-encoded SHA-256 digest and the file size in bytes.
+ * @throws An error if the file cannot be read.
+ */
+export function checksumFile(filePath: string): Promise<{ sha256: string; size: number }> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    let size = 0;
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => {
+        hash.update(chunk);
+        size += chunk.length;
+      })
+      .on('end', () => resolve({ sha256: hash.digest('hex'), size }))
+      .on('error', reject);
+  });
+}
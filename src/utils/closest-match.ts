@@ -0,0 +1,38 @@
+/**
+ * Finds the candidate closest to a mistyped value, e.g. `source` for `srouce`.
+ * @param value - The mistyped value.
+ * @param candidates - The valid values.
+ * @returns The candidate with the smallest edit distance, or undefined if none is within a third of the value's length
+ * (at least 2 edits).
+ */
+export function findClosestMatch(value: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  let closest: string | undefined;
+  let closestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+  return closest;
+}
+
+/** Levenshtein distance, counting a swap of two adjacent characters as one edit. */
+function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
@@ -0,0 +1,179 @@
+/** A parsed five-field cron expression; every field lists the matching values. */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** 0 = Sunday. */
+  daysOfWeek: number[];
+  /** Whether day-of-month and day-of-week are both restricted; cron then matches either of them. */
+  matchEitherDay: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** Upper bound for `nextCronRun`; a valid expression fires at least once in this window (e.g. Feb 29). */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parses a standard five-field cron expression ("minute hour day-of-month month day-of-week").
+ * Supports `*`, lists, ranges, steps (`0-30/10`, `5/15`), month and weekday names and the `@daily`-style macros.
+ *
+ * @param expression - The cron expression (e.g. "30 2 * * 1-5").
+ * @returns The parsed schedule.
+ * @throws An error if the expression is malformed.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}". Expected 5 fields: minute hour day month weekday.`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  return {
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+    months: parseField(month, 1, 12, expression, MONTH_NAMES),
+    // 7 is an alias for Sunday
+    daysOfWeek: [...new Set(parseField(dayOfWeek, 0, 7, expression, DAY_NAMES).map((day) => day % 7))].sort(
+      (a, b) => a - b,
+    ),
+    matchEitherDay: !dayOfMonth.startsWith('*') && !dayOfWeek.startsWith('*'),
+  };
+}
+
+/**
+ * Checks whether a schedule fires in the minute of the given date (local time).
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.includes(date.getMinutes()) &&
+    schedule.hours.includes(date.getHours()) &&
+    schedule.months.includes(date.getMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * Finds the first minute strictly after `after` in which the schedule fires (local time).
+ * Like cron, a run scheduled in the hour skipped when clocks jump forward (DST) fires at the first minute
+ * after the jump; the hour repeated when clocks fall back fires only once.
+ *
+ * @param schedule - The parsed schedule.
+ * @param after - The reference time.
+ * @returns The start of the next matching minute.
+ * @throws An error if the schedule never fires (e.g. "0 0 31 2 *").
+ */
+export function nextCronRun(schedule: CronSchedule, after: Date): Date {
+  const candidate = new Date(after);
+  candidate.setSeconds(0, 0);
+  candidate.setMinutes(candidate.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match before stepping through minutes
+  while (candidate <= limit) {
+    let skippedScheduledHour = false;
+    if (!schedule.months.includes(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1);
+      skippedScheduledHour = moveTo(schedule, candidate, 0, 0);
+    } else if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1);
+      skippedScheduledHour = moveTo(schedule, candidate, 0, 0);
+    } else if (!schedule.hours.includes(candidate.getHours())) {
+      skippedScheduledHour = moveTo(schedule, candidate, candidate.getHours() + 1, 0);
+    } else if (!schedule.minutes.includes(candidate.getMinutes())) {
+      skippedScheduledHour = moveTo(schedule, candidate, candidate.getHours(), candidate.getMinutes() + 1);
+    } else {
+      return candidate;
+    }
+    if (skippedScheduledHour) {
+      return candidate;
+    }
+  }
+  throw new Error('The cron expression never fires.');
+}
+
+/**
+ * Moves the candidate to a wall-clock time of its day; hour 24 or minute 60 overflow into the next day or hour.
+ * @returns Whether the time did not exist (clocks jumped forward) and the schedule fires in a skipped hour.
+ */
+function moveTo(schedule: CronSchedule, candidate: Date, hour: number, minute: number): boolean {
+  const wantedHour = (hour + Math.floor(minute / 60)) % 24;
+  candidate.setHours(hour, minute);
+  if (!schedule.months.includes(candidate.getMonth() + 1) || !matchesDay(schedule, candidate)) {
+    return false;
+  }
+  for (let skipped = wantedHour; skipped < candidate.getHours(); skipped++) {
+    if (schedule.hours.includes(skipped)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.includes(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.includes(date.getDay());
+  return schedule.matchEitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, expression: string, names: string[] = []): number[] {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron field "${field}" in "${expression}" (allowed ${min}-${max}).`);
+  const toNumber = (value: string): number => {
+    const nameIndex = names.indexOf(value.toLowerCase());
+    // Month names are 1-based, weekday names 0-based like their numbers
+    const parsed = nameIndex >= 0 ? nameIndex + min : /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw invalid();
+    }
+    return parsed;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0 || (stepText !== undefined && !/^\d+$/.test(stepText))) {
+      throw invalid();
+    }
+    const step = stepText !== undefined ? Number(stepText) : 1;
+    if (step < 1) {
+      throw invalid();
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      [start, end] = [min, max];
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      [start, end] = [toNumber(from), toNumber(to)];
+      if (start > end) {
+        throw invalid();
+      }
+    } else {
+      start = toNumber(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return [...values].sort((a, b) => a - b);
+}
@@ -0,0 +1,19 @@
+import type { CollectionStats } from '@ts-types/mixed';
+import { formatSize } from './format-size';
+
+/**
+ * Describes a collection recorded in backup metadata, e.g. `users: 1,204 documents, 2.50 MB, 3 indexes`.
+ * @param stats - The collection statistics captured at backup time.
+ * @returns A human-readable one-line summary.
+ */
+export function describeCollectionStats(stats: CollectionStats): string {
+  const parts = [`${stats.documentCount.toLocaleString('en-US')} ${stats.filtered ? 'matching ' : ''}documents`];
+  if (stats.storageSize !== undefined) {
+    parts.push(formatSize(stats.storageSize));
+  }
+  parts.push(`${stats.indexes.length} ${stats.indexes.length === 1 ? 'index' : 'indexes'}`);
+  if (stats.options?.capped) {
+    parts.push('capped');
+  }
+  return `${stats.name}: ${parts.join(', ')}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Describes the time window of a filtered backup, e.g. `updatedAt >= 2026-01-01T00:00:00Z < 2026-02-01T00:00:00Z`.
+ * @param startTime - The inclusive lower bound (ISO 8601), if any.
+ * @param endTime - The exclusive upper bound (ISO 8601), if any.
+ * @param timeField - The filtered date field; `_id` (ObjectId creation time) when omitted.
+ * @returns A human-readable description of the window.
+ */
+export function describeTimeWindow(startTime?: string, endTime?: string, timeField?: string): string {
+  const bounds = [startTime ? `>= ${startTime}` : undefined, endTime ? `< ${endTime}` : undefined].filter(Boolean);
+  return `${timeField || '_id'} ${bounds.join(' ')}`;
+}
@@ -0,0 +1,16 @@
+/**
+ * Formats rows as a plain-text table with left-aligned, space-padded columns.
+ * @param headers - The column headers.
+ * @param rows - The table rows; each row has one cell per header.
+ * @returns The table, one line per row, with a separator line under the headers.
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const formatRow = (cells: string[]) =>
+    cells
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join('  ')
+      .trimEnd();
+
+  return [formatRow(headers), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.map(formatRow)].join('\n');
+}
@@ -0,0 +1,11 @@
+/**
+ * Masks passwords in a command line for display: `--password=...` values (quoted or not)
+ * and the password part of MongoDB connection strings.
+ * @param command - The command line.
+ * @returns The command line with every password replaced by `****`.
+ */
+export function maskSecrets(command: string): string {
+  return command
+    .replace(/(--password=)('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|\S+)/g, '$1****')
+    .replace(/(mongodb(?:\+srv)?:\/\/[^:/@\s]+:)[^@\s]+@/g, '$1****@');
+}
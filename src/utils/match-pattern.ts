@@ -0,0 +1,19 @@
+/**
+ * Checks whether a value matches a simple glob pattern.
+ * Supports `*` (any sequence of characters) and `?` (any single character).
+ *
+ * @param value - The string to test (e.g., a backup filename).
+ * @param pattern - The glob pattern (e.g., "backup_*_production.gz").
+ * @returns True if the whole value matches the pattern.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const regexSource = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${regexSource}$`).test(value);
+}
@@ -0,0 +1,21 @@
+import { isValid, parseISO } from 'date-fns';
+
+/**
+ * Parses the point in time an oplog replay stops at into the `<seconds>[:ordinal]` form of mongorestore --oplogLimit.
+ * @param value - An ISO 8601 date (e.g. "2026-03-01T12:00:00Z") or a BSON timestamp such as "1772366400:1".
+ * @returns The mongorestore --oplogLimit value; entries at or after it are not applied.
+ * @throws An error if the value is neither.
+ */
+export function parseOplogLimit(value: string): string {
+  const trimmed = value.trim();
+  if (/^\d+(:\d+)?$/.test(trimmed)) {
+    return trimmed;
+  }
+  const date = parseISO(trimmed);
+  if (!isValid(date)) {
+    throw new Error(
+      `Invalid oplog limit "${value}". Use an ISO 8601 date (e.g., "2026-03-01T12:00:00Z") or <seconds>[:ordinal].`,
+    );
+  }
+  return String(Math.floor(date.getTime() / 1000));
+}
@@ -0,0 +1,56 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Parses a MongoDB Extended JSON filter and checks that it is a JSON object.
+ *
+ * @param json - The filter as a JSON string (e.g., '{"tenantId": "acme"}').
+ * @returns The parsed filter object.
+ * @throws An error if the string is not valid JSON or not an object.
+ */
+export function parseQueryFilter(json: string): Record<string, any> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid query filter JSON "${json}": ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Query filter must be a JSON object, got: ${json}`);
+  }
+  return parsed as Record<string, any>;
+}
+
+/**
+ * Parses a per-collection query argument in the form "collection:<json>".
+ *
+ * @param arg - The argument value (e.g., 'users:{"tenantId": "acme"}').
+ * @returns The collection name and its parsed filter.
+ * @throws An error if the collection name is missing or the filter is invalid.
+ */
+export function parseCollectionQuery(arg: string): { collection: string; filter: Record<string, any> } {
+  const separatorIndex = arg.indexOf(':');
+  const collection = separatorIndex > 0 ? arg.substring(0, separatorIndex).trim() : '';
+  if (!collection) {
+    throw new Error(`Invalid query "${arg}". Expected format "collection:<json>".`);
+  }
+  return { collection, filter: parseQueryFilter(arg.substring(separatorIndex + 1)) };
+}
+
+/**
+ * Loads per-collection query filters from a JSON file shaped as `{ "collection": { ...filter } }`.
+ *
+ * @param filePath - Path to the query file.
+ * @returns A map of collection names to filter objects.
+ * @throws An error if the file cannot be read or a filter is not an object.
+ */
+export function loadQueryFile(filePath: string): Record<string, Record<string, any>> {
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`Query file not found at ${absolutePath}`);
+  }
+  const content = parseQueryFilter(fs.readFileSync(absolutePath, 'utf8'));
+  return Object.fromEntries(
+    Object.entries(content).map(([collection, filter]) => [collection, parseQueryFilter(JSON.stringify(filter))]),
+  );
+}
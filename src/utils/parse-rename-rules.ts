@@ -0,0 +1,27 @@
+/**
+ * Parses collection rename rules in the form "from:to[,from:to...]".
+ *
+ * @param input - The rules string (e.g., "users:users_old,orders:orders_2026").
+ * @returns A map of source collection names to target collection names.
+ * @throws An error if a rule is malformed or a source collection is renamed twice.
+ */
+export function parseRenameRules(input: string): Record<string, string> {
+  const rules: Record<string, string> = {};
+
+  input
+    .split(',')
+    .map((rule) => rule.trim())
+    .filter((rule) => rule)
+    .forEach((rule) => {
+      const [from, to, ...rest] = rule.split(':').map((part) => part.trim());
+      if (!from || !to || rest.length > 0) {
+        throw new Error(`Invalid rename rule "${rule}". Expected format "from:to".`);
+      }
+      if (rules[from]) {
+        throw new Error(`Collection "${from}" has more than one rename rule.`);
+      }
+      rules[from] = to;
+    });
+
+  return rules;
+}
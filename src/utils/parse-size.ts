@@ -0,0 +1,15 @@
+/**
+ * Parses a human-readable size such as "500MB" or "1.5 GB" into bytes (1 KB = 1024 B, like `formatSize`).
+ * @param value - The size string.
+ * @returns The size in bytes.
+ * @throws An error if the value is not a valid size.
+ */
+export function parseSize(value: string): number {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)$/i);
+  const unitIndex = match ? units.indexOf(match[2].toUpperCase()) : -1;
+  if (!match || unitIndex === -1) {
+    throw new Error(`Invalid size "${value}". Use a number followed by B, KB, MB, GB or TB (e.g., "20GB").`);
+  }
+  return Math.round(parseFloat(match[1]) * 1024 ** unitIndex);
+}
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** The directory holding package.json, for both `src/utils` and the compiled `dist/utils`. */
+const PACKAGE_ROOT = path.resolve(__dirname, '..', '..');
+
+const resolved = new Map<string, string>();
+
+/**
+ * Resolves the local executable of a MongoDB Database Tool (`mongodumpPath` / `mongorestorePath`).
+ * A path is used as configured (relative paths against the working directory). A bare command name is
+ * looked up on the PATH first, then in a copy of the tools bundled with the application: `bin/` or an
+ * extracted `mongodb-database-tools*` release folder in the project root.
+ * Results are cached per configured value.
+ *
+ * @param configuredPath - The configured command, e.g. "mongodump" or "/opt/mongodb-tools/bin/mongodump".
+ * @returns The path to spawn; the configured name if the tool is found nowhere, so spawning reports it missing.
+ */
+export function resolveToolPath(configuredPath: string): string {
+  const cached = resolved.get(configuredPath);
+  if (cached) {
+    return cached;
+  }
+
+  let toolPath = configuredPath;
+  if (configuredPath.includes('/') || configuredPath.includes('\\')) {
+    toolPath = path.resolve(configuredPath);
+  } else if (!findOnPath(configuredPath)) {
+    toolPath = findBundled(configuredPath) ?? configuredPath;
+  }
+  resolved.set(configuredPath, toolPath);
+  return toolPath;
+}
+
+function executableNames(command: string): string[] {
+  return process.platform === 'win32' && !command.toLowerCase().endsWith('.exe') ? [`${command}.exe`] : [command];
+}
+
+function isExecutable(filePath: string): boolean {
+  try {
+    fs.accessSync(filePath, process.platform === 'win32' ? fs.constants.F_OK : fs.constants.X_OK);
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function findIn(directories: string[], command: string): string | undefined {
+  for (const directory of directories) {
+    const match = executableNames(command)
+      .map((name) => path.join(directory, name))
+      .find(isExecutable);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+function findOnPath(command: string): string | undefined {
+  return findIn((process.env.PATH ?? '').split(path.delimiter).filter(Boolean), command);
+}
+
+function findBundled(command: string): string | undefined {
+  let releaseDirectories: string[] = [];
+  try {
+    releaseDirectories = fs
+      .readdirSync(PACKAGE_ROOT)
+      .filter((entry) => entry.startsWith('mongodb-database-tools'))
+      // The newest release sorts last
+      .sort()
+      .reverse()
+      .map((entry) => path.join(PACKAGE_ROOT, entry, 'bin'));
+  } catch {
+    /* no bundled releases */
+  }
+  return findIn([path.join(PACKAGE_ROOT, 'bin'), ...releaseDirectories], command);
+}
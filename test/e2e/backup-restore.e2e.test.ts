@@ -5,6 +5,7 @@ import fs from 'fs';
 import path from 'path';
 
 const TEST_DB = 'testdb';
+const COPY_DB = 'copydb';
 const BACKUP_DIR = '../test-backups';
 const CONFIG_PATH = path.resolve(__dirname, '../config.container.json');
 
@@ -76,6 +77,13 @@ describe('mongo-collection-cherry-picker e2e', () => {
           host: 'localhost',
           port: port,
         },
+        {
+          name: 'test_copy_db',
+          uri: mongoUri + '/',
+          database: COPY_DB,
+          host: 'localhost',
+          port: port,
+        },
       ],
       backupPresets: [
         {
@@ -118,15 +126,22 @@ describe('mongo-collection-cherry-picker e2e', () => {
     expect(files.length).toBeGreaterThan(0);
     const backupFile = files[0];
 
+    // Check the collection statistics recorded in the metadata
+    const metadata = JSON.parse(fs.readFileSync(path.join(BACKUP_DIR, `${backupFile}.json`), 'utf-8'));
+    const usersStats = metadata.collections.find((c: { name: string }) => c.name === 'users');
+    expect(usersStats.documentCount).toBe(users.length);
+    expect(usersStats.indexes.map((i: { name: string }) => i.name)).toContain('_id_');
+
     // Clear collections
     await client.db(TEST_DB).collection('users').deleteMany({});
     await client.db(TEST_DB).collection('products').deleteMany({});
     await client.db(TEST_DB).collection('orders').deleteMany({});
 
-    // Restore from backup
-    execSync(`npm run restore -- --config=${CONFIG_PATH} --file="${backupFile}" --target="test_restore_db"`, {
-      stdio: 'inherit',
-    });
+    // Restore from backup, verifying counts and indexes against the metadata
+    execSync(
+      `npm run restore -- --config=${CONFIG_PATH} --file="${backupFile}" --target="test_restore_db" --verify-restore`,
+      { stdio: 'inherit' },
+    );
 
     // Check if data has been restored
     const usersRestored = await client.db(TEST_DB).collection('users').find().toArray();
@@ -159,6 +174,54 @@ describe('mongo-collection-cherry-picker e2e', () => {
     expect(ordersRestored.length).toBe(0);
   });
 
+  it('should copy users collection into another database without an archive', async () => {
+    const archivesBefore = fs.readdirSync(BACKUP_DIR).filter((f) => f.endsWith('.gz')).length;
+    execSync(
+      `npm run copy -- --config=${CONFIG_PATH} --source="test_source_db" --target="test_copy_db" --scope=include --collections=users`,
+      { stdio: 'inherit' },
+    );
+    const usersCopied = await client.db(COPY_DB).collection('users').find().toArray();
+    const productsCopied = await client.db(COPY_DB).collection('products').find().toArray();
+    expect(usersCopied.length).toBe(users.length);
+    expect(productsCopied.length).toBe(0);
+    expect(fs.readdirSync(BACKUP_DIR).filter((f) => f.endsWith('.gz')).length).toBe(archivesBefore);
+  });
+
+  it('should backup a time window of several collections as one backup set', async () => {
+    execSync(
+      `npm run backup -- --config=${CONFIG_PATH} --source="test_source_db" --scope=include --collections=users,orders --since-time=1d`,
+      { stdio: 'inherit' },
+    );
+    const setName = fs
+      .readdirSync(BACKUP_DIR)
+      .filter((f) => f.endsWith('.gz.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .find((name) => JSON.parse(fs.readFileSync(path.join(BACKUP_DIR, `${name}.json`), 'utf-8')).parts?.length === 2);
+    expect(setName).toBeDefined();
+
+    await client.db(TEST_DB).collection('users').deleteMany({});
+    await client.db(TEST_DB).collection('orders').deleteMany({});
+    execSync(`npm run restore -- --config=${CONFIG_PATH} --file="${setName}" --target="test_restore_db"`, {
+      stdio: 'inherit',
+    });
+    expect(await client.db(TEST_DB).collection('users').countDocuments()).toBe(users.length);
+    expect(await client.db(TEST_DB).collection('orders').countDocuments()).toBe(orders.length);
+  });
+
+  it('should record a checksum and reject a truncated archive on verify', () => {
+    const backupFile = fs.readdirSync(BACKUP_DIR).find((f) => f.endsWith('.gz'))!;
+    const metadata = JSON.parse(fs.readFileSync(path.join(BACKUP_DIR, `${backupFile}.json`), 'utf-8'));
+    expect(metadata.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+    execSync(`npm run verify -- --config=${CONFIG_PATH} --file="${backupFile}"`, { stdio: 'inherit' });
+
+    const archivePath = path.join(BACKUP_DIR, backupFile);
+    fs.truncateSync(archivePath, fs.statSync(archivePath).size - 10);
+    expect(() => {
+      execSync(`npm run verify -- --config=${CONFIG_PATH} --file="${backupFile}"`, { encoding: 'utf-8' });
+    }).toThrow(/failed/i);
+  });
+
   it('should fail on non-existent preset', () => {
     expect(() => {
       execSync(`npm run backup -- --config=${CONFIG_PATH} --preset=not_exist`, { encoding: 'utf-8' });
@@ -0,0 +1,148 @@
+import { matchesCron, nextCronRun, parseCronExpression } from '@utils/cron-expression';
+
+// Local times are in Europe/Berlin (see global-setup.js): CET (+01:00), CEST (+02:00) from 2026-03-29 to 2026-10-25
+const local = (iso: string) => new Date(iso);
+
+describe('parseCronExpression', () => {
+  it('parses lists, ranges and steps', () => {
+    const schedule = parseCronExpression('0-30/10 5/6 1,15 * 1-5');
+    expect(schedule.minutes).toEqual([0, 10, 20, 30]);
+    expect(schedule.hours).toEqual([5, 11, 17, 23]);
+    expect(schedule.daysOfMonth).toEqual([1, 15]);
+    expect(schedule.months).toHaveLength(12);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('maps month and weekday names to their numbers, case-insensitively', () => {
+    const schedule = parseCronExpression('0 3 * JAN,jul-Sep mon-wed,Sat');
+    expect(schedule.months).toEqual([1, 7, 8, 9]);
+    expect(schedule.daysOfWeek).toEqual([1, 2, 3, 6]);
+  });
+
+  it('treats 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 5-7').daysOfWeek).toEqual([0, 5, 6]);
+  });
+
+  it('expands macros', () => {
+    expect(parseCronExpression('@daily')).toEqual(parseCronExpression('0 0 * * *'));
+    expect(parseCronExpression('@Weekly')).toEqual(parseCronExpression('0 0 * * 0'));
+  });
+
+  it('only matches either day when both day fields are restricted', () => {
+    expect(parseCronExpression('0 0 1 * mon').matchEitherDay).toBe(true);
+    expect(parseCronExpression('0 0 1 * *').matchEitherDay).toBe(false);
+    expect(parseCronExpression('0 0 * * mon').matchEitherDay).toBe(false);
+    expect(parseCronExpression('0 0 */2 * mon').matchEitherDay).toBe(false);
+  });
+
+  it.each([
+    ['0 3 * *', /Expected 5 fields/],
+    ['60 * * * *', /Invalid cron field "60"/],
+    ['0 24 * * *', /Invalid cron field "24"/],
+    ['0 0 0 * *', /Invalid cron field "0"/],
+    ['0 0 * 13 *', /Invalid cron field "13"/],
+    ['0 0 * foo *', /Invalid cron field "foo"/],
+    ['0 0 * * 8', /Invalid cron field "8"/],
+    ['30-10 * * * *', /Invalid cron field "30-10"/],
+    ['*/0 * * * *', /Invalid cron field "\*\/0"/],
+    ['*/x * * * *', /Invalid cron field "\*\/x"/],
+    ['1/2/3 * * * *', /Invalid cron field/],
+  ])('rejects "%s"', (expression, message) => {
+    expect(() => parseCronExpression(expression)).toThrow(message);
+  });
+});
+
+describe('matchesCron', () => {
+  it('matches the day of month or the day of week when both are restricted', () => {
+    const schedule = parseCronExpression('0 12 13 * fri');
+    // Friday the 2nd, Tuesday the 13th, Friday the 13th
+    expect(matchesCron(schedule, local('2026-10-02T12:00'))).toBe(true);
+    expect(matchesCron(schedule, local('2026-10-13T12:00'))).toBe(true);
+    expect(matchesCron(schedule, local('2026-11-13T12:00'))).toBe(true);
+    expect(matchesCron(schedule, local('2026-10-14T12:00'))).toBe(false);
+  });
+
+  it('matches both when only one day field is restricted', () => {
+    const schedule = parseCronExpression('0 12 * * fri');
+    expect(matchesCron(schedule, local('2026-10-02T12:00'))).toBe(true);
+    expect(matchesCron(schedule, local('2026-10-13T12:00'))).toBe(false);
+    expect(matchesCron(schedule, local('2026-10-02T12:01'))).toBe(false);
+  });
+});
+
+describe('nextCronRun', () => {
+  it('returns the next matching minute strictly after the reference time', () => {
+    const schedule = parseCronExpression('30 2 * * *');
+    expect(nextCronRun(schedule, local('2026-06-10T01:00:15'))).toEqual(local('2026-06-10T02:30'));
+    expect(nextCronRun(schedule, local('2026-06-10T02:30'))).toEqual(local('2026-06-11T02:30'));
+  });
+
+  it('skips to the months and weekdays given by name', () => {
+    expect(nextCronRun(parseCronExpression('0 3 1 jan *'), local('2026-06-10T00:00'))).toEqual(
+      local('2027-01-01T03:00'),
+    );
+    // 2026-06-10 is a Wednesday
+    expect(nextCronRun(parseCronExpression('0 3 * * sat'), local('2026-06-10T00:00'))).toEqual(
+      local('2026-06-13T03:00'),
+    );
+  });
+
+  it('fires on whichever of the day of month and the day of week comes first', () => {
+    const schedule = parseCronExpression('0 0 15 * mon');
+    // Wednesday 2026-06-10: Monday the 15th is both; after it, Monday the 22nd comes before July 15th
+    expect(nextCronRun(schedule, local('2026-06-10T00:00'))).toEqual(local('2026-06-15T00:00'));
+    expect(nextCronRun(schedule, local('2026-06-15T00:00'))).toEqual(local('2026-06-22T00:00'));
+    expect(nextCronRun(schedule, local('2026-07-13T00:00'))).toEqual(local('2026-07-15T00:00'));
+  });
+
+  it('finds February 29th in the next leap year', () => {
+    expect(nextCronRun(parseCronExpression('0 0 29 2 *'), local('2026-01-01T00:00'))).toEqual(
+      local('2028-02-29T00:00'),
+    );
+  });
+
+  it('throws for a schedule that never fires', () => {
+    expect(() => nextCronRun(parseCronExpression('0 0 31 2 *'), local('2026-01-01T00:00'))).toThrow(
+      'The cron expression never fires.',
+    );
+  });
+
+  describe('daylight saving time', () => {
+    it('fires a run scheduled in the skipped hour at the first minute after clocks jump forward', () => {
+      // 2026-03-29 02:00 CET becomes 03:00 CEST
+      const schedule = parseCronExpression('30 2 * * *');
+      expect(nextCronRun(schedule, local('2026-03-28T23:00'))).toEqual(new Date('2026-03-29T03:00:00+02:00'));
+      expect(nextCronRun(schedule, new Date('2026-03-29T03:00:00+02:00'))).toEqual(
+        new Date('2026-03-30T02:30:00+02:00'),
+      );
+    });
+
+    it('fires a minute-by-minute schedule of the skipped hour once after the jump', () => {
+      const schedule = parseCronExpression('*/15 1-2 * * *');
+      expect(nextCronRun(schedule, new Date('2026-03-29T01:45:00+01:00'))).toEqual(
+        new Date('2026-03-29T03:00:00+02:00'),
+      );
+      expect(nextCronRun(schedule, new Date('2026-03-29T03:00:00+02:00'))).toEqual(
+        new Date('2026-03-30T01:00:00+02:00'),
+      );
+    });
+
+    it('does not move runs outside the skipped hour', () => {
+      expect(nextCronRun(parseCronExpression('0 4 * * *'), local('2026-03-28T23:00'))).toEqual(
+        new Date('2026-03-29T04:00:00+02:00'),
+      );
+    });
+
+    it('fires the hour repeated when clocks fall back only once', () => {
+      // 2026-10-25 03:00 CEST becomes 02:00 CET
+      const schedule = parseCronExpression('30 2 * * *');
+      expect(nextCronRun(schedule, local('2026-10-25T00:00'))).toEqual(new Date('2026-10-25T02:30:00+02:00'));
+      expect(nextCronRun(schedule, new Date('2026-10-25T02:30:00+02:00'))).toEqual(
+        new Date('2026-10-26T02:30:00+01:00'),
+      );
+      expect(nextCronRun(parseCronExpression('*/15 2 * * *'), new Date('2026-10-25T02:50:00+02:00'))).toEqual(
+        new Date('2026-10-26T02:00:00+01:00'),
+      );
+    });
+  });
+});
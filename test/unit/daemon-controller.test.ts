@@ -0,0 +1,333 @@
+import type { AppConfig, BackupMetadata, BackupPreset } from '@ts-types/mixed';
+import type { ScheduledRunLog } from '@modules/daemon/interfaces/scheduled-run.interface';
+
+import { Clock } from '@infrastructure/clock';
+import { Logger } from '@infrastructure/logger';
+import { BackupController } from '@modules/backup/controllers/backup-controller';
+import { DaemonController } from '@modules/daemon/controllers/daemon-controller';
+import { ScheduleService } from '@modules/daemon/services/schedule.service';
+import { RetentionService } from '@modules/retention/services/retention.service';
+
+/** A clock that only moves when the test advances it; sleepers wake up once their time has come. */
+class FakeClock implements Clock {
+  private sleepers: Array<{ until: number; resolve: () => void }> = [];
+
+  constructor(private time: Date) {}
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      signal?.addEventListener('abort', () => resolve(), { once: true });
+      this.sleepers.push({ until: this.time.getTime() + ms, resolve });
+    });
+  }
+
+  async advanceTo(time: Date): Promise<void> {
+    this.time = time;
+    const due = this.sleepers.filter((sleeper) => sleeper.until <= time.getTime());
+    this.sleepers = this.sleepers.filter((sleeper) => !due.includes(sleeper));
+    due.forEach((sleeper) => sleeper.resolve());
+    await flushPromises();
+  }
+}
+
+/** A backup the test finishes (or fails) when it wants to. */
+interface PendingBackup {
+  preset: string;
+  finish: (archivePath: string) => void;
+  fail: (error: Error) => void;
+}
+
+const flushPromises = async () => {
+  for (let i = 0; i < 10; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+const preset = (name: string, sourceName: string, schedule?: string): BackupPreset => ({
+  name,
+  sourceName,
+  selectionMode: 'all',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  schedule,
+});
+
+describe('DaemonController', () => {
+  let config: AppConfig;
+  let clock: FakeClock;
+  let pending: PendingBackup[];
+  let retention: { planPrune: jest.Mock; applyPrune: jest.Mock };
+  let stdout: jest.SpyInstance;
+
+  const createDaemon = () => {
+    const logger = new Logger({ quiet: true });
+    const createBackupController = (): BackupController =>
+      ({
+        useBackupPreset: (backupPreset: BackupPreset) =>
+          new Promise<BackupMetadata>((resolve, reject) =>
+            pending.push({
+              preset: backupPreset.name,
+              finish: (archivePath) => resolve({ archivePath } as BackupMetadata),
+              fail: reject,
+            }),
+          ),
+      }) as unknown as BackupController;
+    return new DaemonController(
+      config,
+      new ScheduleService(config, logger),
+      retention as unknown as RetentionService,
+      createBackupController,
+      logger,
+      clock,
+    );
+  };
+
+  const runLogs = (): ScheduledRunLog[] =>
+    stdout.mock.calls.map(([line]) => JSON.parse(String(line)) as ScheduledRunLog);
+
+  const finish = async (presetName: string, archivePath = `${presetName}.gz`) => {
+    pending.find((backup) => backup.preset === presetName)!.finish(archivePath);
+    await flushPromises();
+  };
+
+  beforeEach(() => {
+    config = {
+      backupDir: './backups',
+      filenameFormat: 'backup_{datetime}_{source}.gz',
+      mongodumpPath: 'mongodump',
+      mongorestorePath: 'mongorestore',
+      connections: [],
+      backupPresets: [
+        preset('prod-hourly', 'prod', '0 * * * *'),
+        preset('prod-nightly', 'prod', '0 3 * * *'),
+        preset('staging-nightly', 'staging', '30 3 * * *'),
+        preset('manual', 'prod'),
+      ],
+      restorePresets: [],
+      retention: { keepLast: 5 },
+    };
+    clock = new FakeClock(new Date('2026-06-10T02:59:30'));
+    pending = [];
+    retention = {
+      planPrune: jest.fn(() => ({ keep: [], remove: [] })),
+      applyPrune: jest.fn(() => ({ removed: 2, freedBytes: 1024 })),
+    };
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+  });
+
+  describe('tick', () => {
+    it('starts the presets whose schedule fired in the interval', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:10:00'), new Date('2026-06-10T03:30:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['staging-nightly']);
+
+      await finish('staging-nightly');
+      expect(runLogs()).toEqual([
+        expect.objectContaining({
+          preset: 'staging-nightly',
+          source: 'staging',
+          scheduledFor: new Date('2026-06-10T03:30:00').toISOString(),
+          outcome: 'success',
+        }),
+      ]);
+    });
+
+    it('starts nothing when no schedule fired', () => {
+      createDaemon().tick(new Date('2026-06-10T03:01:00'), new Date('2026-06-10T03:02:00'));
+      expect(pending).toEqual([]);
+      expect(stdout).not.toHaveBeenCalled();
+    });
+
+    it('runs a preset that fired several times in the interval once, for the latest minute', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T04:30:00'), new Date('2026-06-10T07:45:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly']);
+
+      await finish('prod-hourly');
+      expect(runLogs()[0].scheduledFor).toBe(new Date('2026-06-10T07:00:00').toISOString());
+    });
+
+    it('skips a run whose source is still being backed up and runs other sources in parallel', async () => {
+      const daemon = createDaemon();
+      const runs = daemon.tick(new Date('2026-06-10T02:59:00'), new Date('2026-06-10T03:00:00'));
+      // prod-hourly and prod-nightly both fire at 03:00 for the same source
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly']);
+      expect(runs).toHaveLength(2);
+
+      daemon.tick(new Date('2026-06-10T03:29:00'), new Date('2026-06-10T03:30:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly', 'staging-nightly']);
+
+      expect(runLogs()).toEqual([
+        expect.objectContaining({
+          preset: 'prod-nightly',
+          source: 'prod',
+          outcome: 'skipped',
+          error: 'A backup of "prod" is still running.',
+        }),
+      ]);
+      expect(runLogs()[0].startedAt).toBeUndefined();
+    });
+
+    it('runs the source again once its previous run finished', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      await finish('prod-hourly');
+      daemon.tick(new Date('2026-06-10T04:59:00'), new Date('2026-06-10T05:00:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly', 'prod-hourly']);
+    });
+  });
+
+  describe('run log', () => {
+    it('writes one JSON line per run with the archive, timing and pruned backups', async () => {
+      const daemon = createDaemon();
+      await clock.advanceTo(new Date('2026-06-10T04:00:00'));
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      await clock.advanceTo(new Date('2026-06-10T04:02:30'));
+      await finish('prod-hourly', 'backup_2026-06-10_prod.gz');
+
+      expect(stdout).toHaveBeenCalledTimes(1);
+      const [line] = stdout.mock.calls[0];
+      expect(String(line).endsWith('\n')).toBe(true);
+      expect(String(line).trim()).not.toContain('\n');
+      expect(JSON.parse(String(line))).toEqual({
+        time: new Date('2026-06-10T04:02:30').toISOString(),
+        preset: 'prod-hourly',
+        source: 'prod',
+        scheduledFor: new Date('2026-06-10T04:00:00').toISOString(),
+        outcome: 'success',
+        startedAt: new Date('2026-06-10T04:00:00').toISOString(),
+        durationMs: 150_000,
+        archive: 'backup_2026-06-10_prod.gz',
+        pruned: 2,
+      });
+    });
+
+    it('records a failed backup with its error', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      pending[0].fail(new Error('mongodump exited with code 1'));
+      await flushPromises();
+
+      expect(runLogs()).toEqual([
+        expect.objectContaining({ preset: 'prod-hourly', outcome: 'failure', error: 'mongodump exited with code 1' }),
+      ]);
+      expect(runLogs()[0].archive).toBeUndefined();
+    });
+  });
+
+  describe('retention', () => {
+    it('prunes with the configured policy after a run', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      expect(retention.planPrune).not.toHaveBeenCalled();
+
+      await finish('prod-hourly');
+      expect(retention.planPrune).toHaveBeenCalledWith(config.retention, clock.now());
+      expect(retention.applyPrune).toHaveBeenCalledTimes(1);
+      expect(runLogs()[0].pruned).toBe(2);
+    });
+
+    it('defers pruning while another backup is running and prunes when the last one finishes', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T02:59:00'), new Date('2026-06-10T03:00:00'));
+      daemon.tick(new Date('2026-06-10T03:29:00'), new Date('2026-06-10T03:30:00'));
+
+      await finish('prod-hourly');
+      expect(retention.applyPrune).not.toHaveBeenCalled();
+      expect(runLogs().find((log) => log.preset === 'prod-hourly')!.pruned).toBeUndefined();
+
+      await finish('staging-nightly');
+      expect(retention.applyPrune).toHaveBeenCalledTimes(1);
+      expect(runLogs().find((log) => log.preset === 'staging-nightly')!.pruned).toBe(2);
+    });
+
+    it('still prunes when the last backup to finish failed', async () => {
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T02:59:00'), new Date('2026-06-10T03:00:00'));
+      daemon.tick(new Date('2026-06-10T03:29:00'), new Date('2026-06-10T03:30:00'));
+
+      await finish('prod-hourly');
+      pending.find((backup) => backup.preset === 'staging-nightly')!.fail(new Error('connection refused'));
+      await flushPromises();
+
+      expect(retention.applyPrune).toHaveBeenCalledTimes(1);
+      expect(runLogs().find((log) => log.preset === 'staging-nightly')).toEqual(
+        expect.objectContaining({ outcome: 'failure', pruned: 2 }),
+      );
+    });
+
+    it('does not prune without a retention policy', async () => {
+      config.retention = undefined;
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      await finish('prod-hourly');
+
+      expect(retention.planPrune).not.toHaveBeenCalled();
+      expect(runLogs()[0].pruned).toBeUndefined();
+    });
+
+    it('keeps running when pruning fails', async () => {
+      retention.planPrune.mockImplementation(() => {
+        throw new Error('backup directory not readable');
+      });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const daemon = createDaemon();
+      daemon.tick(new Date('2026-06-10T03:59:00'), new Date('2026-06-10T04:00:00'));
+      await finish('prod-hourly');
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('backup directory not readable'));
+      warn.mockRestore();
+
+      expect(runLogs()).toEqual([expect.objectContaining({ outcome: 'success' })]);
+      expect(runLogs()[0].pruned).toBeUndefined();
+    });
+  });
+
+  describe('start', () => {
+    it('throws if no preset has a schedule', async () => {
+      config.backupPresets = [preset('manual', 'prod')];
+      await expect(createDaemon().start()).rejects.toThrow('No backup preset has a "schedule".');
+    });
+
+    it('checks the schedules at the start of every minute and waits for running backups when stopped', async () => {
+      const abortController = new AbortController();
+      const stopped = createDaemon().start(abortController.signal);
+      await flushPromises();
+
+      // prod-nightly fires at 03:00 too, but prod is still being backed up
+      await clock.advanceTo(new Date('2026-06-10T03:00:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly']);
+
+      await clock.advanceTo(new Date('2026-06-10T03:01:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly']);
+      // The daemon woke up at 03:02 for the last time; the check covers every minute it slept through
+      await clock.advanceTo(new Date('2026-06-10T03:45:00'));
+      expect(pending.map((backup) => backup.preset)).toEqual(['prod-hourly', 'staging-nightly']);
+
+      let done = false;
+      void stopped.then(() => (done = true));
+      abortController.abort();
+      await flushPromises();
+      expect(done).toBe(false);
+
+      await finish('prod-hourly');
+      await finish('staging-nightly');
+      await stopped;
+      expect(runLogs().map((log) => [log.preset, log.outcome])).toEqual([
+        ['prod-nightly', 'skipped'],
+        ['prod-hourly', 'success'],
+        ['staging-nightly', 'success'],
+      ]);
+    });
+  });
+});
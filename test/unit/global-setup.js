@@ -0,0 +1,4 @@
+// The cron and DST tests expect local time in a zone with daylight saving time
+module.exports = () => {
+  process.env.TZ = 'Europe/Berlin';
+};